@@ -1,10 +1,22 @@
 import OpenAI from "openai";
 
 import type { AppConfig } from "../config.js";
+import { QUERY_SYNTAX_HELP } from "../repo/query.js";
+import { parseStackDump, stackSearchQuery } from "./stackTrace.js";
 
 export type CodeQuestionAnalysis = {
   isCodeRelated: boolean;
   needsRepoLookup: boolean;
+  // "When did this change / which PR introduced it": also search git history (blame, pickaxe, commit messages).
+  needsHistoryLookup: boolean;
+  // "Did X behave differently in v8.5 vs master": diff the matched code across repo variants.
+  needsVariantDiff: boolean;
+  // "Why does X work this way / how is X designed": rank design docs and RFCs higher.
+  asksDesignRationale: boolean;
+  // "How is X supposed to behave / what are the edge cases": show the unit/integration tests of the matched code.
+  needsTests: boolean;
+  // "Who calls X / where is this config read": the identifier or config key to list references of.
+  referenceQuery?: string;
   searchQuery: string;
 };
 
@@ -39,6 +51,59 @@ function heuristicNeedsRepoLookup(question: string): boolean {
   return false;
 }
 
+function heuristicNeedsHistoryLookup(question: string): boolean {
+  const q = question.toLowerCase();
+  if (/\b(when did|since when|which (?:pr|commit|version|release)|what (?:pr|commit))\b/.test(q)) return true;
+  if (/\b(introduced|regressed|was (?:changed|added|removed)|git blame|blame|commit history|changelog)\b/.test(q)) return true;
+  if (/(什么时候|哪个\s*(?:pr|commit|提交|版本)|引入)/i.test(question)) return true;
+  return false;
+}
+
+function heuristicNeedsVariantDiff(question: string): boolean {
+  const q = question.toLowerCase();
+  if (/\b(vs\.?|versus|compared? (?:to|with)|differen(?:t|ce|ces)|differ|diff)\b/.test(q)) return true;
+  if (/\bchanged between\b/.test(q)) return true;
+  if (/(区别|差异|不同|对比|相比)/.test(question)) return true;
+  return false;
+}
+
+function heuristicAsksDesignRationale(question: string): boolean {
+  const q = question.toLowerCase();
+  if (/\bwhy\b/.test(q)) return true;
+  if (/\bhow (?:is|are|was|were)\b.*\b(?:designed|architected)\b/.test(q)) return true;
+  if (/\b(?:design|rationale|rfc|trade-?offs?|architecture) (?:of|behind|for)\b/.test(q)) return true;
+  if (/(为什么|为何|设计|原理)/.test(question)) return true;
+  return false;
+}
+
+function heuristicNeedsTests(question: string): boolean {
+  const q = question.toLowerCase();
+  if (/\b(supposed to|expected (?:behaviou?r|result|output)|intended behaviou?r|edge cases?|corner cases?)\b/.test(q)) return true;
+  if (/\bhow (?:does|do|should|would) .* behave\b/.test(q)) return true;
+  if (/\b(?:unit|integration) tests?\b|\btest cases?\b|\b(?:is|are) (?:there|it) tested\b/.test(q)) return true;
+  if (/(预期|期望行为|应该.*(?:行为|返回)|测试用例|单测|集成测试|边界情况)/.test(question)) return true;
+  return false;
+}
+
+function heuristicReferenceQuery(question: string): string | undefined {
+  const name = "`?(\"[^\"]+\"|[A-Za-z_][\\w.:-]*)`?";
+  const patterns = [
+    new RegExp(`\\bwho (?:calls|uses|reads|invokes|references)\\s+${name}`, "i"),
+    new RegExp(`\\b(?:callers|call sites|usages|uses|references|readers) of\\s+${name}`, "i"),
+    new RegExp(`\\bwhere (?:is|are)\\s+${name}\\s+(?:called|used|read|referenced|invoked)\\b`, "i"),
+    new RegExp(`(?:谁调用了?|哪里调用了?)\\s*${name}`),
+    new RegExp(`${name}\\s*(?:在哪里?|在哪儿)(?:被)?(?:调用|使用|读取)`)
+  ];
+  for (const re of patterns) {
+    const m = re.exec(question);
+    const target = m?.[1]?.replace(/[.:]+$/, "");
+    if (!target || target.length < 3) continue;
+    // Plain lowercase words ("this", "config") are prose unless quoted: identifiers have case, `_`, `.` or `-`.
+    if (/[A-Z_.:"-]/.test(target) || question.includes(`\`${target}`)) return target;
+  }
+  return undefined;
+}
+
 function extractJsonObject(text: string): string | undefined {
   const start = text.indexOf("{");
   const end = text.lastIndexOf("}");
@@ -54,11 +119,18 @@ export async function analyzeCodeQuestion(opts: {
 }): Promise<CodeQuestionAnalysis> {
   const question = opts.question.trim();
   const hasRepo = opts.config.repos.length > 0;
+  // A pasted panic/backtrace: search for its functions rather than every token of the dump.
+  const stack = parseStackDump(question);
 
   const fallback: CodeQuestionAnalysis = {
-    isCodeRelated: heuristicIsCodeRelated(question),
-    needsRepoLookup: hasRepo && heuristicNeedsRepoLookup(question),
-    searchQuery: question
+    isCodeRelated: Boolean(stack) || heuristicIsCodeRelated(question),
+    needsRepoLookup: hasRepo && (Boolean(stack) || heuristicNeedsRepoLookup(question)),
+    needsHistoryLookup: hasRepo && heuristicNeedsHistoryLookup(question),
+    needsVariantDiff: hasRepo && heuristicNeedsVariantDiff(question),
+    asksDesignRationale: hasRepo && heuristicAsksDesignRationale(question),
+    needsTests: hasRepo && heuristicNeedsTests(question),
+    referenceQuery: hasRepo ? heuristicReferenceQuery(question) : undefined,
+    searchQuery: (stack && stackSearchQuery(stack)) || question
   };
 
   if (opts.config.mode !== "llm" || !opts.config.openaiApiKey) return fallback;
@@ -74,6 +146,11 @@ export async function analyzeCodeQuestion(opts: {
       "Return ONLY valid JSON with keys:",
       "- is_code_related: boolean",
       "- needs_repo_lookup: boolean (true only if checking local repo code/docs is necessary)",
+      "- needs_history_lookup: boolean (true if git history helps: when something changed, which commit/PR introduced it, who wrote it)",
+      "- reference_query: string (when the question asks who calls / uses / reads one function, method, struct field or config key: just that name, e.g. UpdateGCSafePoint or \"gc.ratio-threshold\"; otherwise empty)",
+      "- needs_variant_diff: boolean (true if the question compares behavior/code between branches or versions, e.g. v8.5 vs master)",
+      "- asks_design_rationale: boolean (true if the question asks why something works the way it does or how it is designed)",
+      "- needs_tests: boolean (true if the question asks how something is supposed to behave, its edge cases, or how it is tested)",
       "- search_query: string (keywords to search in the repo if needs_repo_lookup=true)",
       "",
       "Guidelines:",
@@ -81,6 +158,9 @@ export async function analyzeCodeQuestion(opts: {
       "- If the question is general programming advice with no repo-specific details, needs_repo_lookup=false.",
       "- If it asks about how this specific project behaves/implements something, needs_repo_lookup=true.",
       "- If repo lookup is impossible (repo not configured), set needs_repo_lookup=false.",
+      "- search_query may use repo query operators when the question pins a location, language or exact text; otherwise plain keywords are fine.",
+      "",
+      QUERY_SYNTAX_HELP,
       "",
       `Repo configured: ${hasRepo ? "yes" : "no"}`,
       "Available repos:",
@@ -155,6 +235,11 @@ export async function analyzeCodeQuestion(opts: {
     const parsed = JSON.parse(jsonText) as {
       is_code_related?: boolean;
       needs_repo_lookup?: boolean;
+      needs_history_lookup?: boolean;
+      needs_variant_diff?: boolean;
+      asks_design_rationale?: boolean;
+      needs_tests?: boolean;
+      reference_query?: string;
       search_query?: string;
     };
 
@@ -163,9 +248,34 @@ export async function analyzeCodeQuestion(opts: {
       typeof parsed.needs_repo_lookup === "boolean" ? parsed.needs_repo_lookup : fallback.needsRepoLookup;
     // Keep heuristics as a safety net so we don't miss obvious repo-related questions.
     const needsRepoLookup = hasRepo ? (needsRepoLookupRaw || fallback.needsRepoLookup) : false;
-    const searchQuery = (typeof parsed.search_query === "string" && parsed.search_query.trim()) ? parsed.search_query.trim() : question;
+    const needsHistoryLookupRaw =
+      typeof parsed.needs_history_lookup === "boolean" ? parsed.needs_history_lookup : fallback.needsHistoryLookup;
+    const needsHistoryLookup = hasRepo ? (needsHistoryLookupRaw || fallback.needsHistoryLookup) : false;
+    const needsVariantDiffRaw =
+      typeof parsed.needs_variant_diff === "boolean" ? parsed.needs_variant_diff : fallback.needsVariantDiff;
+    const needsVariantDiff = hasRepo ? needsVariantDiffRaw : false;
+    const asksDesignRationaleRaw =
+      typeof parsed.asks_design_rationale === "boolean" ? parsed.asks_design_rationale : fallback.asksDesignRationale;
+    const asksDesignRationale = hasRepo ? asksDesignRationaleRaw || fallback.asksDesignRationale : false;
+    const needsTestsRaw = typeof parsed.needs_tests === "boolean" ? parsed.needs_tests : fallback.needsTests;
+    const needsTests = hasRepo ? needsTestsRaw || fallback.needsTests : false;
+    const referenceQueryRaw =
+      typeof parsed.reference_query === "string" && parsed.reference_query.trim()
+        ? parsed.reference_query.trim().slice(0, 120)
+        : fallback.referenceQuery;
+    const referenceQuery = hasRepo ? referenceQueryRaw : undefined;
+    const searchQuery = (typeof parsed.search_query === "string" && parsed.search_query.trim()) ? parsed.search_query.trim() : fallback.searchQuery;
 
-    return { isCodeRelated, needsRepoLookup, searchQuery };
+    return {
+      isCodeRelated,
+      needsRepoLookup,
+      needsHistoryLookup,
+      needsVariantDiff,
+      asksDesignRationale,
+      needsTests,
+      referenceQuery,
+      searchQuery
+    };
   } catch {
     return fallback;
   }
@@ -0,0 +1,28 @@
+// Config items and system variables: `tidb_gc_life_time`, `per-table-memory-quota`, `performance.max-procs`.
+const CONFIG_NAME_RE = /^[a-z][a-z0-9]*(?:[-_.][a-z0-9]+)+$/;
+// Unquoted names need to look unlike prose ("built-in", "end_to"): a product prefix or three parts.
+const BARE_SYSVAR_RE = /\b(?:tidb|tikv|tiflash|pd|mpp|innodb)_[a-z0-9_]+\b|\b[a-z][a-z0-9]*(?:_[a-z0-9]+){2,}\b/g;
+const BARE_CONFIG_RE = /\b[a-z][a-z0-9]*(?:\.[a-z][a-z0-9-]*)*(?:-[a-z0-9]+){2,}\b/g;
+const MAX_NAMES = 4;
+
+/**
+ * Config item / system variable names in a question: backquoted snake-, kebab- or dot-case names,
+ * plus unquoted ones that can't be prose. Case is folded; at most four, in order of appearance.
+ */
+export function extractConfigNames(question: string): string[] {
+  const found: Array<{ name: string; at: number }> = [];
+  for (const m of question.matchAll(/`([^`\s]+)`/g)) {
+    const name = m[1]!.toLowerCase();
+    if (CONFIG_NAME_RE.test(name)) found.push({ name, at: m.index ?? 0 });
+  }
+  for (const re of [BARE_SYSVAR_RE, BARE_CONFIG_RE]) {
+    for (const m of question.toLowerCase().matchAll(re)) found.push({ name: m[0], at: m.index ?? 0 });
+  }
+
+  const out: string[] = [];
+  for (const { name } of found.sort((a, b) => a.at - b.at)) {
+    if (!out.includes(name)) out.push(name);
+    if (out.length >= MAX_NAMES) break;
+  }
+  return out;
+}
@@ -0,0 +1,43 @@
+export type ErrorCodeRefs = {
+  // MySQL-style numeric codes: `ERROR 8027 (HY000)`, `errno 1105`.
+  codes: number[];
+  // RFC-style names (`PD:client:ErrClientGetTSO`, `kv:8027`) and Go error names (`ErrInfoSchemaExpired`).
+  names: string[];
+};
+
+const NUMERIC_CODE_RES = [
+  /\b(?:error|err|errno|error code|code)\s*[:#]?\s*(\d{4,5})\b/gi,
+  /\b(\d{4,5})\s*\((?:[0-9A-Z]{5})\)/g,
+  /错误码?\s*[:：]?\s*(\d{4,5})/g
+];
+const RFC_NAME_RE = /\b([A-Za-z][\w-]*(?::[A-Za-z][\w-]*)*:(?:Err[A-Z]\w*|\d{4,5}))\b/g;
+const GO_NAME_RE = /\bErr[A-Z]\w{3,}\b/g;
+const MAX_REFS = 5;
+
+/**
+ * Error codes and error names mentioned in a question, at most five in total with names first.
+ * A name's numeric suffix (`kv:8027`) isn't repeated as a code.
+ */
+export function extractErrorCodeRefs(question: string): ErrorCodeRefs {
+  const names: string[] = [];
+  for (const m of question.matchAll(RFC_NAME_RE)) {
+    // Hosts (`http://tidb-0:4000`, `db.example.com:4000`) aren't error names.
+    if (/[/.@-]$/.test(question.slice(0, m.index))) continue;
+    if (!names.includes(m[1]!)) names.push(m[1]!);
+  }
+  for (const m of question.matchAll(GO_NAME_RE)) {
+    if (!names.some((n) => n === m[0] || n.endsWith(`:${m[0]}`))) names.push(m[0]);
+  }
+
+  const codes: number[] = [];
+  const named = new Set(names.map((n) => n.split(":").pop()!));
+  for (const re of NUMERIC_CODE_RES) {
+    for (const m of question.matchAll(re)) {
+      const code = Number.parseInt(m[1]!, 10);
+      if (!codes.includes(code) && !named.has(String(code))) codes.push(code);
+    }
+  }
+
+  const total = Math.max(0, MAX_REFS - names.length);
+  return { codes: codes.slice(0, total), names: names.slice(0, MAX_REFS) };
+}
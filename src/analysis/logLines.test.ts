@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+
+import { describeLogLine, extractLogLines, parseLogLine } from "./logLines.js";
+
+describe("parseLogLine", () => {
+  it("parses time, level, caller, message and fields", () => {
+    const raw =
+      '[2026/10/01 12:00:00.123 +08:00] [WARN] [owner.go:312] ["changefeed is stuck"] [changefeed=foo] [error="[CDC:ErrGCTTLExceeded]gc ttl \\"exceeded\\""]';
+    expect(parseLogLine(`  ${raw}  `)).toEqual({
+      raw,
+      time: "2026/10/01 12:00:00.123 +08:00",
+      level: "WARN",
+      file: "owner.go",
+      line: 312,
+      message: "changefeed is stuck",
+      fields: [
+        { key: "changefeed", value: "foo" },
+        { key: "error", value: '[CDC:ErrGCTTLExceeded]gc ttl "exceeded"' }
+      ]
+    });
+  });
+
+  it("accepts lines without a timestamp, an unknown caller and unquoted messages", () => {
+    expect(parseLogLine("[info] [<unknown>] [region split] [region_id=42]")).toMatchObject({
+      time: undefined,
+      level: "INFO",
+      file: undefined,
+      message: "region split",
+      fields: [{ key: "region_id", value: "42" }]
+    });
+    expect(parseLogLine('[2026-10-01T12:00:00Z] [ERROR] [components/raftstore/src/peer.rs:88] ["x"]')).toMatchObject({
+      file: "components/raftstore/src/peer.rs",
+      line: 88
+    });
+  });
+
+  it("rejects lines without a level or too few segments", () => {
+    expect(parseLogLine("owner.go:312 changefeed is stuck")).toBeUndefined();
+    expect(parseLogLine("[2026/10/01 12:00:00] [owner.go:312] [msg]")).toBeUndefined();
+    expect(parseLogLine("[WARN] [msg]")).toBeUndefined();
+    expect(parseLogLine('[WARN] [owner.go:1] ["unterminated]')).toBeUndefined();
+  });
+});
+
+describe("extractLogLines", () => {
+  it("keeps one line per logging statement, up to the limit", () => {
+    const text = [
+      "we see this:",
+      '[2026/10/01 12:00:00] [WARN] [owner.go:312] ["changefeed is stuck"] [changefeed=a]',
+      '[2026/10/01 12:00:01] [WARN] [owner.go:312] ["changefeed is stuck"] [changefeed=b]',
+      '[2026/10/01 12:00:02] [INFO] [sink.go:10] ["flushed"]',
+      '[2026/10/01 12:00:03] [INFO] [sink.go:20] ["flushed"]'
+    ].join("\r\n");
+    const lines = extractLogLines(text);
+    expect(lines.map((l) => `${l.file}:${l.line}`)).toEqual(["owner.go:312", "sink.go:10", "sink.go:20"]);
+    expect(lines[0]!.fields).toEqual([{ key: "changefeed", value: "a" }]);
+    expect(extractLogLines(text, 2)).toHaveLength(2);
+  });
+});
+
+describe("describeLogLine", () => {
+  it("drops the timestamp and quotes field values that need it", () => {
+    const log = parseLogLine('[2026/10/01 12:00:00] [WARN] [owner.go:312] ["stuck"] [changefeed=foo] [error="gc ttl exceeded"]')!;
+    expect(describeLogLine(log)).toBe('[WARN] [owner.go:312] ["stuck"] [changefeed=foo] [error="gc ttl exceeded"]');
+  });
+});
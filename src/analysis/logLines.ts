@@ -0,0 +1,132 @@
+export type LogField = { key: string; value: string };
+
+export type ParsedLogLine = {
+  raw: string;
+  time?: string;
+  level: string;
+  // Caller as logged, usually a basename (`owner.go`, `raft.rs`); absent for `[<unknown>]`.
+  file?: string;
+  line?: number;
+  message: string;
+  fields: LogField[];
+};
+
+const LEVEL_RE = /^(?:DEBUG|INFO|WARN|WARNING|ERROR|FATAL|PANIC|CRITICAL|TRACE)$/i;
+const TIME_RE = /^\d{4}[/-]\d{2}[/-]\d{2}[ T]\d{2}:\d{2}:\d{2}/;
+const CALLER_RE = /^((?:[\w.-]+\/)*[\w.-]+\.[A-Za-z]\w*):(\d+)$/;
+// Pasted logs quickly get long; the rest of the message is rarely about other statements.
+const MAX_LOG_LINES = 5;
+
+// `"a \"b\""` → `a "b"`; falls back to stripping the quotes for non-JSON escapes.
+function unquote(text: string): string {
+  if (text.length < 2 || !text.startsWith('"') || !text.endsWith('"')) return text;
+  try {
+    const v = JSON.parse(text) as unknown;
+    if (typeof v === "string") return v;
+  } catch {
+    // Not JSON-compatible escaping (e.g. `\'`).
+  }
+  return text.slice(1, -1);
+}
+
+// Splits `[a] ["b c"] [k=v]` into bracketed segments; brackets inside quoted strings don't count.
+function bracketSegments(line: string): string[] | undefined {
+  const out: string[] = [];
+  let i = 0;
+  while (i < line.length) {
+    while (i < line.length && /\s/.test(line[i]!)) i += 1;
+    if (i >= line.length) break;
+    if (line[i] !== "[") return out.length > 0 ? out : undefined;
+
+    let j = i + 1;
+    let depth = 1;
+    let inString = false;
+    for (; j < line.length; j += 1) {
+      const ch = line[j]!;
+      if (inString) {
+        if (ch === "\\") j += 1;
+        else if (ch === '"') inString = false;
+      } else if (ch === '"') {
+        inString = true;
+      } else if (ch === "[") {
+        depth += 1;
+      } else if (ch === "]") {
+        depth -= 1;
+        if (depth === 0) break;
+      }
+    }
+    if (depth !== 0) return out.length > 0 ? out : undefined;
+    out.push(line.slice(i + 1, j));
+    i = j + 1;
+  }
+  return out;
+}
+
+/**
+ * Parses one line in the unified log format of TiDB, TiKV, PD and TiCDC:
+ * `[2026/10/01 12:00:00.123 +08:00] [WARN] [owner.go:312] ["changefeed is stuck"] [changefeed=foo]`.
+ * Undefined when the line has no level segment.
+ */
+export function parseLogLine(raw: string): ParsedLogLine | undefined {
+  const line = raw.trim();
+  if (!line.startsWith("[")) return undefined;
+  const segments = bracketSegments(line);
+  if (!segments || segments.length < 3) return undefined;
+
+  let i = 0;
+  const time = TIME_RE.test(segments[i]!) ? segments[i++] : undefined;
+  if (!LEVEL_RE.test(segments[i] ?? "")) return undefined;
+  const level = segments[i++]!.toUpperCase();
+
+  let file: string | undefined;
+  let lineNo: number | undefined;
+  const caller = CALLER_RE.exec(segments[i] ?? "");
+  if (caller) {
+    file = caller[1];
+    lineNo = Number.parseInt(caller[2]!, 10);
+    i += 1;
+  } else if (segments[i] === "<unknown>") {
+    i += 1;
+  }
+
+  const message = unquote(segments[i++] ?? "");
+  const fields: LogField[] = [];
+  for (const seg of segments.slice(i)) {
+    const eq = seg.indexOf("=");
+    if (eq <= 0) continue;
+    fields.push({ key: seg.slice(0, eq), value: unquote(seg.slice(eq + 1)) });
+  }
+
+  if (!file && !message) return undefined;
+  return { raw: line, time, level, file, line: lineNo, message, fields };
+}
+
+/**
+ * Log lines pasted into a message, at most one per logging statement (same caller and message),
+ * in order of appearance.
+ */
+export function extractLogLines(text: string, max: number = MAX_LOG_LINES): ParsedLogLine[] {
+  const out: ParsedLogLine[] = [];
+  const seen = new Set<string>();
+  for (const raw of text.split(/\r?\n/g)) {
+    const parsed = parseLogLine(raw);
+    if (!parsed) continue;
+    const key = `${parsed.file ?? ""}:${parsed.line ?? ""}\0${parsed.message}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push(parsed);
+    if (out.length >= max) break;
+  }
+  return out;
+}
+
+// `[WARN] [owner.go:312] ["changefeed is stuck"] [changefeed=foo]`: the line without its timestamp,
+// long field values cut.
+export function describeLogLine(log: ParsedLogLine): string {
+  const caller = log.file ? ` [${log.file}${log.line ? `:${log.line}` : ""}]` : "";
+  const fields = log.fields.map((f) => {
+    const value = f.value.length > 80 ? `${f.value.slice(0, 80)}…` : f.value;
+    return ` [${f.key}=${/[\s\]"]/.test(value) ? JSON.stringify(value) : value}]`;
+  });
+  return `[${log.level}]${caller} [${JSON.stringify(log.message)}]${fields.join("")}`;
+}
@@ -0,0 +1,26 @@
+export type MetricRefs = {
+  // Prometheus metric names as pasted (`ticdc_sink_txn_exec_duration`, `tikv_grpc_msg_duration_seconds_bucket`).
+  names: string[];
+  // The question talks about dashboards, so Grafana panel titles in it are worth looking up.
+  mentionsPanels: boolean;
+};
+
+// Exported names are snake case with at least three parts; PromQL around them (`rate(...[1m])`) doesn't matter.
+const METRIC_NAME_RE = /(?<![\w.-])[a-z][a-z0-9]*(?:_[a-z0-9]+){2,}(?![\w-])/g;
+// Other snake case names (`tidb_gc_life_time` has the prefix too) only cost a catalog lookup that
+// finds nothing; without one of these they aren't looked up at all.
+const METRIC_PREFIX_RE = /^(?:tidb|tikv|pd|ticdc|tiflash|dm|tiproxy|lightning|br|etcd|grpc|go|process)_/;
+const METRIC_SUFFIX_RE = /_(?:total|seconds|bytes|bucket|count|sum|ratio|duration)$/;
+const PANEL_HINT_RE = /\b(?:grafana|dashboards?|panels?)\b|监控|面板/i;
+const MAX_NAMES = 4;
+
+/** Metric names mentioned in a question (at most four, in order of appearance), and whether it mentions dashboards. */
+export function extractMetricRefs(question: string): MetricRefs {
+  const names: string[] = [];
+  for (const m of question.matchAll(METRIC_NAME_RE)) {
+    if (!METRIC_PREFIX_RE.test(m[0]) && !METRIC_SUFFIX_RE.test(m[0])) continue;
+    if (!names.includes(m[0])) names.push(m[0]);
+    if (names.length >= MAX_NAMES) break;
+  }
+  return { names, mentionsPanels: PANEL_HINT_RE.test(question) };
+}
@@ -235,7 +235,7 @@ export function selectReposForSearch(opts: {
   const selected: RepoTarget[] = [];
   const add = (repo: RepoTarget) => {
     const abs = path.resolve(repo.path);
-    if (selected.some((r) => path.resolve(r.path) === abs)) return;
+    if (selected.some((r) => path.resolve(r.path) === abs && r.ref === repo.ref)) return;
     selected.push({ ...repo, path: abs });
   };
 
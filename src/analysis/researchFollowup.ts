@@ -1,10 +1,14 @@
 import OpenAI from "openai";
 
 import type { AppConfig } from "../config.js";
+import { QUERY_SYNTAX_HELP } from "../repo/query.js";
 
 export type ResearchFollowupPlan = {
   done: boolean;
   repoQueries: string[];
+  // One identifier or config key each; answered with call sites / usages grouped by package.
+  referenceQueries: string[];
+  historyQueries: string[];
   tidbAiQueries: string[];
   askUser: string[];
 };
@@ -48,7 +52,14 @@ export async function analyzeResearchFollowups(opts: {
   images?: PromptImage[];
   remainingRounds: number;
 }): Promise<ResearchFollowupPlan> {
-  const fallback: ResearchFollowupPlan = { done: true, repoQueries: [], tidbAiQueries: [], askUser: [] };
+  const fallback: ResearchFollowupPlan = {
+    done: true,
+    repoQueries: [],
+    referenceQueries: [],
+    historyQueries: [],
+    tidbAiQueries: [],
+    askUser: []
+  };
 
   if (opts.config.mode !== "llm" || !opts.config.openaiApiKey) return fallback;
 
@@ -67,16 +78,23 @@ export async function analyzeResearchFollowups(opts: {
       "Return ONLY valid JSON with keys:",
       "- done: boolean",
       "- repo_queries: string[] (keywords to search local repos; only if needed)",
+      "- reference_queries: string[] (one function/method, struct field or config key each, to list its call sites / usages / reads grouped by package; for impact questions like who calls X or where a config is read)",
+      "- history_queries: string[] (identifiers/keywords to search git history: pickaxe on code changes + commit messages; only for when/why/which-commit questions)",
       "- tidb_ai_queries: string[] (questions to ask TiDB.ai; only if needed)",
       "- ask_user: string[] (targeted missing-info questions; 1-3 items max)",
       "",
       "Constraints:",
-      "- Max 2 repo_queries and 2 tidb_ai_queries.",
+      "- Max 2 repo_queries, 2 reference_queries, 2 history_queries and 2 tidb_ai_queries.",
       "- Keep each query concise (<= 120 chars).",
       "- If you already have enough info to answer concisely, set done=true and keep arrays empty.",
       "- If essential details are missing (e.g., TiDB/TiCDC version, exact error, deployment), prefer ask_user over more searches.",
-      "- Only propose repo_queries if repo lookup is possible.",
+      "- Only propose repo_queries, reference_queries or history_queries if repo lookup is possible.",
+      "- A reference query is the bare name (`UpdateGCSafePoint`, `Sink.WriteEvents`, `\"gc.ratio-threshold\"`), optionally with path:/lang:/repo: operators.",
+      "- For history_queries prefer exact identifiers that were added/removed (e.g. `safeModeDuration`) over prose; path:/re:/repo: operators apply.",
       "- Only propose tidb_ai_queries if TiDB.ai is enabled.",
+      "- Use repo query operators to narrow searches once you know where to look (e.g. `WriteEvents path:pkg/sink lang:go -path:**/*_test.go`).",
+      "",
+      QUERY_SYNTAX_HELP,
       "",
       `Repo lookup possible: ${hasRepo ? "yes" : "no"}`,
       "Available repos:",
@@ -159,16 +177,20 @@ export async function analyzeResearchFollowups(opts: {
     const parsed = JSON.parse(jsonText) as {
       done?: boolean;
       repo_queries?: unknown;
+      reference_queries?: unknown;
+      history_queries?: unknown;
       tidb_ai_queries?: unknown;
       ask_user?: unknown;
     };
 
     const done = typeof parsed.done === "boolean" ? parsed.done : fallback.done;
     const repoQueries = hasRepo ? normalizeList(parsed.repo_queries, 2).map((q) => q.slice(0, 120)) : [];
+    const referenceQueries = hasRepo ? normalizeList(parsed.reference_queries, 2).map((q) => q.slice(0, 120)) : [];
+    const historyQueries = hasRepo ? normalizeList(parsed.history_queries, 2).map((q) => q.slice(0, 120)) : [];
     const tidbAiQueries = hasTidbAi ? normalizeList(parsed.tidb_ai_queries, 2).map((q) => q.slice(0, 120)) : [];
     const askUser = normalizeList(parsed.ask_user, 3).map((q) => q.slice(0, 200));
 
-    return { done, repoQueries, tidbAiQueries, askUser };
+    return { done, repoQueries, referenceQueries, historyQueries, tidbAiQueries, askUser };
   } catch {
     return fallback;
   }
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+
+import { describeStackDump, parseStackDump, stackSearchQuery } from "./stackTrace.js";
+
+const GO_PANIC = [
+  "panic: runtime error: invalid memory address or nil pointer dereference [recovered]",
+  "[signal SIGSEGV: segmentation violation code=0x1 addr=0x0 pc=0x1234]",
+  "",
+  "goroutine 42 [running]:",
+  "panic({0x2a1b3c0, 0x4d2e1f0})",
+  "\t/usr/local/go/src/runtime/panic.go:770 +0x132",
+  "github.com/pingcap/tiflow/cdc/owner.(*ownerImpl).Tick.func1(0xc000123000)",
+  "\t/home/ci/tiflow/cdc/owner/owner.go:312 +0x1a",
+  "github.com/pingcap/tiflow/cdc/owner.(*ownerImpl).Tick(0xc000123000, {0x1, 0x2})",
+  "\t/home/ci/tiflow/cdc/owner/owner.go:300 +0x2b",
+  "created by github.com/pingcap/tiflow/pkg/util.Spawn in goroutine 1",
+  "\t/home/ci/tiflow/pkg/util/spawn.go:20 +0x3c",
+  "",
+  "goroutine 7 [chan receive, 5 minutes]:",
+  "github.com/pingcap/tiflow/cdc/sink.(*worker).run(0xc0001)",
+  "\t/home/ci/tiflow/cdc/sink/worker.go:88 +0x44",
+  "",
+  "goroutine 8 [chan receive, 12 minutes]:",
+  "github.com/pingcap/tiflow/cdc/sink.(*worker).run(0xc0002)",
+  "\t/home/ci/tiflow/cdc/sink/worker.go:88 +0x44",
+  "",
+  "goroutine 9 [select]:",
+  "github.com/pingcap/tiflow/cdc/sink.(*worker).run(0xc0003)",
+  "\t/home/ci/tiflow/cdc/sink/worker.go:88 +0x44"
+].join("\n");
+
+describe("parseStackDump (Go)", () => {
+  it("parses the panic, frames and the creating frame", () => {
+    const dump = parseStackDump(GO_PANIC)!;
+    expect(dump.language).toBe("go");
+    expect(dump.panic).toBe("runtime error: invalid memory address or nil pointer dereference");
+
+    const panicking = dump.groups[0]!;
+    expect(panicking).toMatchObject({ ids: ["42"], state: "running", panicking: true, panicFrame: 1 });
+    expect(panicking.frames[0]).toMatchObject({ package: "", func: "panic", runtime: true });
+    expect(panicking.frames[1]).toEqual({
+      package: "github.com/pingcap/tiflow/cdc/owner",
+      func: "(*ownerImpl).Tick.func1",
+      name: "Tick",
+      file: "/home/ci/tiflow/cdc/owner/owner.go",
+      line: 312,
+      runtime: false
+    });
+    expect(panicking.createdBy).toMatchObject({ func: "Spawn", file: "/home/ci/tiflow/pkg/util/spawn.go", line: 20 });
+  });
+
+  it("collapses identical goroutines regardless of wait time, panicking stack first", () => {
+    const dump = parseStackDump(GO_PANIC)!;
+    expect(dump.groups.map((g) => [g.ids, g.state])).toEqual([
+      [["42"], "running"],
+      [["7", "8"], "chan receive"],
+      [["9"], "select"]
+    ]);
+    expect(dump.groups[1]!.panicFrame).toBeUndefined();
+  });
+
+  it("orders the other stacks by how many goroutines share them", () => {
+    const dump = parseStackDump(GO_PANIC.split("\n").slice(3).join("\n").replace("[running]", "[select]"))!;
+    expect(dump.panic).toBeUndefined();
+    expect(dump.groups.every((g) => !g.panicking)).toBe(true);
+    expect(dump.groups[0]!.ids).toEqual(["7", "8"]);
+  });
+
+  it("describes the dump and picks search keywords from the panicking stack", () => {
+    const dump = parseStackDump(GO_PANIC)!;
+    const text = describeStackDump(dump);
+    expect(text).toContain("Panic: runtime error");
+    expect(text).toContain("#1 github.com/pingcap/tiflow/cdc/owner.(*ownerImpl).Tick.func1 (owner/owner.go:312) <- panicking frame");
+    expect(text).toContain("2 goroutines with identical stacks (7, 8) [chan receive]:");
+    expect(text).not.toContain("#0 panic");
+    expect(stackSearchQuery(dump)).toBe("Tick");
+  });
+});
+
+describe("parseStackDump (Rust)", () => {
+  it("parses a TiKV backtrace with the message on the next line", () => {
+    const dump = parseStackDump(
+      [
+        "thread 'raftstore-1' panicked at components/raftstore/src/store/peer.rs:1234:9:",
+        "called `Option::unwrap()` on a `None` value",
+        "stack backtrace:",
+        "   0: rust_begin_unwind",
+        "             at /rustc/abc/library/std/src/panicking.rs:645:5",
+        "   1: core::panicking::panic",
+        "   2: raftstore::store::peer::Peer::handle_ready::h1a2b3c4d5e6f7a8b",
+        "             at components/raftstore/src/store/peer.rs:1234:9",
+        "   3: <raftstore::store::fsm::PeerFsmDelegate<T> as core::ops::FnOnce>::call_once",
+        "             at components/raftstore/src/store/fsm/peer.rs:77:13"
+      ].join("\n")
+    )!;
+    expect(dump.language).toBe("rust");
+    expect(dump.panic).toBe("called `Option::unwrap()` on a `None` value");
+    const group = dump.groups[0]!;
+    expect(group).toMatchObject({ ids: ["raftstore-1"], panicking: true, panicFrame: 2 });
+    expect(group.frames[2]).toEqual({
+      package: "raftstore",
+      func: "store::peer::Peer::handle_ready",
+      name: "handle_ready",
+      file: "components/raftstore/src/store/peer.rs",
+      line: 1234,
+      runtime: false
+    });
+    expect(group.frames[0]!.runtime).toBe(true);
+  });
+
+  it("reads a backtrace logged in a field", () => {
+    const log =
+      '[2026/10/01 12:00:00.000 +08:00] [FATAL] [lib.rs:465] ["index out of bounds"] [backtrace="   0: tikv::server::Server::run\\n             at src/server/server.rs:10:5"] [thread_name=grpc-server-3]';
+    const dump = parseStackDump(log)!;
+    expect(dump.panic).toBe("index out of bounds");
+    expect(dump.groups[0]).toMatchObject({ ids: ["grpc-server-3"], panicFrame: 0 });
+    expect(dump.groups[0]!.frames[0]).toMatchObject({ package: "tikv", name: "run", file: "src/server/server.rs", line: 10 });
+  });
+});
+
+describe("parseStackDump", () => {
+  it("is undefined for text without frames", () => {
+    expect(parseStackDump("panic: something went wrong")).toBeUndefined();
+    expect(parseStackDump("goroutine 1 [running]:")).toBeUndefined();
+  });
+});
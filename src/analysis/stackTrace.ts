@@ -0,0 +1,274 @@
+import { parseLogLine } from "./logLines.js";
+
+export type StackLanguage = "go" | "rust";
+
+export type StackFrame = {
+  // Go import path (`github.com/pingcap/tiflow/cdc/owner`) or Rust crate (`raftstore`); empty for `panic(...)`.
+  package: string;
+  // Function as printed, without the package and arguments: `(*ownerImpl).Tick.func1`, `store::peer::Peer::handle_ready`.
+  func: string;
+  // Declared name of the enclosing function: `Tick`, `handle_ready`.
+  name: string;
+  // As printed, usually an absolute build path.
+  file?: string;
+  line?: number;
+  // Go runtime / Rust std and panic machinery, never the code that went wrong.
+  runtime: boolean;
+};
+
+export type StackGroup = {
+  // Goroutine ids (Go) or thread names (Rust) sharing this exact stack and state.
+  ids: string[];
+  state?: string;
+  frames: StackFrame[];
+  createdBy?: StackFrame;
+  panicking: boolean;
+  // Index of the frame that panicked: the first non-runtime frame of the panicking stack.
+  panicFrame?: number;
+};
+
+export type StackDump = {
+  language: StackLanguage;
+  // `runtime error: invalid memory address ...`, `called `Option::unwrap()` on a `None` value`.
+  panic?: string;
+  // Panicking stack first, then the most common ones.
+  groups: StackGroup[];
+};
+
+const GO_GOROUTINE_RE = /^goroutine (\d+)(?: gp=\S+)?(?: m=\S+)?(?: mp=\S+)? \[([^\]]*)\]:?\s*$/;
+const GO_PANIC_RE = /^(?:panic|fatal error): (.+)$/;
+const GO_FILE_RE = /^\s*(\S+\.(?:go|s|c)):(\d+)(?: \+0x[0-9a-f]+)?(?: fp=\S+ sp=\S+ pc=\S+)?\s*$/;
+const RUST_FRAME_RE = /^\s*(\d+):\s+(?:0x[0-9a-f]+ - )?(\S.*?)\s*$/;
+const RUST_AT_RE = /^\s+at\s+(.+?):(\d+)(?::\d+)?\s*$/;
+const RUST_PANIC_RE = /^thread '([^']*)' panicked at (?:'(.*)', )?(?:\S+?:\d+:\d+):?\s*$/;
+const RUST_RUNTIME_CRATES = new Set(["std", "core", "alloc", "backtrace", "rust_begin_unwind", "__libc_start_main", "_start", "start_thread", "clone", "__clone"]);
+// Stacks kept after collapsing; the rest of a full goroutine dump is rarely about the problem.
+const MAX_GROUPS = 8;
+
+// `github.com/pingcap/tiflow/cdc/owner.(*ownerImpl).Tick(0xc000123, {0x1, 0x2})`
+function parseGoFunction(raw: string): StackFrame {
+  let text = raw.trim();
+  const args = text.lastIndexOf("(");
+  if (args > 0 && text.endsWith(")")) text = text.slice(0, args);
+  const pkgEnd = text.indexOf(".", text.lastIndexOf("/") + 1);
+  const pkg = pkgEnd > 0 ? text.slice(0, pkgEnd) : "";
+  const func = pkgEnd > 0 ? text.slice(pkgEnd + 1) : text;
+  const name = func
+    .replace(/^\(\*?[^)]*\)\./, "")
+    .replace(/\[[^\]]*\]/g, "")
+    .split(".")[0]!;
+  const runtime = pkg === "" || pkg === "runtime" || pkg.startsWith("runtime/") || pkg.startsWith("internal/");
+  return { package: pkg, func, name, runtime };
+}
+
+// `raftstore::store::peer::Peer::handle_ready::h1a2b3c4d5e6f7a8b`, `<T as raft::Storage>::term`
+function parseRustFunction(raw: string): StackFrame {
+  const text = raw.trim().replace(/::h[0-9a-f]{16}$/, "");
+  const segments = text.replace(/^<+/, "").split("::");
+  const pkg = segments[0]?.split(/\s/)[0] ?? "";
+  const func = segments.slice(1).join("::") || text;
+  const named = segments.filter((s) => s && !/^\{\{.*\}\}$/.test(s) && !/[<>]/.test(s));
+  const name = named[named.length - 1] ?? text;
+  const runtime = RUST_RUNTIME_CRATES.has(pkg) || pkg.startsWith("__rust") || /panic/.test(text);
+  return { package: pkg, func, name, runtime };
+}
+
+function parseGo(lines: string[]): StackDump | undefined {
+  let panic: string | undefined;
+  const groups: StackGroup[] = [];
+  let current: StackGroup | undefined;
+  let pending: StackFrame | undefined;
+  let createdBy = false;
+
+  for (const line of lines) {
+    const panicMatch = GO_PANIC_RE.exec(line.trim());
+    if (panicMatch && !panic) {
+      panic = panicMatch[1]!.replace(/\s*\[recovered\]$/, "");
+      continue;
+    }
+    const header = GO_GOROUTINE_RE.exec(line.trim());
+    if (header) {
+      current = { ids: [header[1]!], state: header[2], frames: [], panicking: false };
+      groups.push(current);
+      pending = undefined;
+      continue;
+    }
+    if (!current) continue;
+
+    const file = GO_FILE_RE.exec(line);
+    if (file && pending) {
+      const frame = { ...pending, file: file[1], line: Number.parseInt(file[2]!, 10) };
+      if (createdBy) current.createdBy = frame;
+      else current.frames.push(frame);
+      pending = undefined;
+      continue;
+    }
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("...")) continue;
+    createdBy = trimmed.startsWith("created by ");
+    pending = parseGoFunction(trimmed.replace(/^created by /, "").replace(/ in goroutine \d+$/, ""));
+  }
+
+  if (groups.length === 0) return undefined;
+  // The goroutine that panicked is printed first.
+  if (panic) groups[0]!.panicking = true;
+  return { language: "go", panic, groups };
+}
+
+function parseRust(lines: string[]): StackDump | undefined {
+  let panic: string | undefined;
+  let thread: string | undefined;
+  const frames: StackFrame[] = [];
+  let inBacktrace = false;
+
+  for (let i = 0; i < lines.length; i += 1) {
+    const line = lines[i]!;
+    const panicMatch = RUST_PANIC_RE.exec(line.trim());
+    if (panicMatch) {
+      thread = panicMatch[1];
+      // Since Rust 1.73 the message follows on the next line.
+      panic = panicMatch[2] ?? lines[i + 1]?.trim();
+      continue;
+    }
+    if (/^\s*stack backtrace:\s*$/.test(line)) {
+      inBacktrace = true;
+      continue;
+    }
+
+    const at = RUST_AT_RE.exec(line);
+    if (at && frames.length > 0 && !frames[frames.length - 1]!.file) {
+      frames[frames.length - 1] = { ...frames[frames.length - 1]!, file: at[1], line: Number.parseInt(at[2]!, 10) };
+      continue;
+    }
+    const frame = RUST_FRAME_RE.exec(line);
+    if (frame && (inBacktrace || frame[2]!.includes("::"))) {
+      inBacktrace = true;
+      frames.push(parseRustFunction(frame[2]!));
+      continue;
+    }
+    // Inlined frames share the number of the frame above.
+    if (inBacktrace && /^\s{4,}[A-Za-z_<]\S*::/.test(line) && !at) frames.push(parseRustFunction(line));
+  }
+
+  if (frames.length === 0) return undefined;
+  return { language: "rust", panic, groups: [{ ids: thread ? [thread] : [], frames, panicking: true }] };
+}
+
+// Wait durations differ between otherwise identical goroutines (`chan receive, 5 minutes`).
+function stateKey(state: string | undefined): string {
+  return (state ?? "").replace(/,\s*\d+ minutes?/, "").replace(/,\s*locked to thread/, "").trim();
+}
+
+function collapse(groups: StackGroup[]): StackGroup[] {
+  const byKey = new Map<string, StackGroup>();
+  const out: StackGroup[] = [];
+  for (const g of groups) {
+    const key = [stateKey(g.state), ...g.frames.map((f) => `${f.package}.${f.func}@${f.file ?? ""}:${f.line ?? ""}`)].join("\n");
+    const existing = g.panicking ? undefined : byKey.get(key);
+    if (existing) {
+      existing.ids.push(...g.ids);
+      continue;
+    }
+    const copy = { ...g, ids: [...g.ids], state: stateKey(g.state) || undefined };
+    if (!g.panicking) byKey.set(key, copy);
+    out.push(copy);
+  }
+  return out;
+}
+
+/**
+ * Parses a pasted Go panic / goroutine dump or Rust (TiKV) backtrace, including one logged in a
+ * `[backtrace="..."]` field. Goroutines with identical stacks are collapsed into one group, and
+ * the panicking stack has its first non-runtime frame flagged. Undefined without any frame.
+ */
+export function parseStackDump(text: string): StackDump | undefined {
+  const expanded: string[] = [];
+  let logged: { message: string; thread?: string } | undefined;
+  for (const raw of text.split(/\r?\n/g)) {
+    expanded.push(raw);
+    const log = parseLogLine(raw);
+    const trace = log?.fields.find((f) => f.key === "backtrace" || f.key === "stack");
+    if (!log || !trace) continue;
+    logged ??= { message: log.message, thread: log.fields.find((f) => f.key === "thread_name")?.value };
+    expanded.push("stack backtrace:", ...trace.value.split(/\r?\n/g));
+  }
+
+  const isGo = expanded.some((l) => GO_GOROUTINE_RE.test(l.trim()));
+  const dump = isGo ? parseGo(expanded) : parseRust(expanded);
+  if (!dump) return undefined;
+  if (logged) {
+    dump.panic ??= logged.message;
+    if (logged.thread && dump.groups[0]?.ids.length === 0) dump.groups[0].ids.push(logged.thread);
+  }
+
+  const groups = collapse(dump.groups.filter((g) => g.frames.length > 0));
+  for (const g of groups) {
+    if (!g.panicking) continue;
+    const idx = g.frames.findIndex((f) => !f.runtime);
+    if (idx >= 0) g.panicFrame = idx;
+  }
+  groups.sort((a, b) => Number(b.panicking) - Number(a.panicking) || b.ids.length - a.ids.length);
+  return groups.length > 0 ? { ...dump, groups: groups.slice(0, MAX_GROUPS) } : undefined;
+}
+
+function frameLabel(f: StackFrame, language: StackLanguage): string {
+  const fn = f.package ? `${f.package}${language === "go" ? "." : "::"}${f.func}` : f.func;
+  const at = f.file ? ` (${f.file.split("/").slice(-2).join("/")}:${f.line ?? "?"})` : "";
+  return `${fn}${at}`;
+}
+
+/**
+ * Text outline of a dump for the answer context: the panic message, then each collapsed stack
+ * with its goroutines/threads and its frames (runtime frames dropped, the panicking one flagged).
+ */
+export function describeStackDump(dump: StackDump, maxFramesPerGroup = 8): string {
+  const out: string[] = [];
+  if (dump.panic) out.push(`Panic: ${dump.panic}`);
+  for (const g of dump.groups) {
+    const who = dump.language === "go" ? "goroutine" : "thread";
+    const ids =
+      g.ids.length > 1
+        ? `${g.ids.length} ${who}s with identical stacks (${g.ids.slice(0, 5).join(", ")}${g.ids.length > 5 ? ", ..." : ""})`
+        : `${who} ${g.ids[0] ?? "?"}`;
+    out.push(`${ids}${g.state ? ` [${g.state}]` : ""}${g.panicking ? " (panicking)" : ""}:`);
+
+    const shown = g.frames.map((f, i) => ({ f, i })).filter(({ f, i }) => !f.runtime || i === g.panicFrame);
+    for (const { f, i } of shown.slice(0, maxFramesPerGroup)) {
+      out.push(`  #${i} ${frameLabel(f, dump.language)}${i === g.panicFrame ? " <- panicking frame" : ""}`);
+    }
+    if (shown.length > maxFramesPerGroup) out.push(`  ...(${shown.length - maxFramesPerGroup} more frames)`);
+    if (g.createdBy) out.push(`  created by ${frameLabel(g.createdBy, dump.language)}`);
+  }
+  return out.join("\n");
+}
+
+/**
+ * Frames worth showing code for, panicking stack first: its top non-runtime frames, then the top
+ * caller frames of the other stacks; each file:line once.
+ */
+export function topStackFrames(
+  dump: StackDump,
+  opts: { panickingFrames: number; otherFrames: number; max: number }
+): Array<{ label: string; frame: StackFrame; panicking: boolean }> {
+  const out: Array<{ label: string; frame: StackFrame; panicking: boolean }> = [];
+  const seen = new Set<string>();
+  for (const g of dump.groups) {
+    const who = g.ids.length > 1 ? `${g.ids.length} ${dump.language === "go" ? "goroutines" : "threads"}` : `${dump.language === "go" ? "goroutine" : "thread"} ${g.ids[0] ?? "?"}`;
+    const frames = g.frames.map((f, i) => ({ f, i })).filter(({ f }) => !f.runtime && f.file && f.line);
+    for (const { f, i } of frames.slice(0, g.panicking ? opts.panickingFrames : opts.otherFrames)) {
+      const key = `${f.file}:${f.line}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      out.push({ label: `#${i} ${frameLabel(f, dump.language)} (${who})`, frame: f, panicking: i === g.panicFrame });
+      if (out.length >= opts.max) return out;
+    }
+  }
+  return out;
+}
+
+// Repo search keywords for a dump: the function names of the panicking stack (else the first one).
+export function stackSearchQuery(dump: StackDump): string | undefined {
+  const group = dump.groups.find((g) => g.panicking) ?? dump.groups[0];
+  const names = Array.from(new Set((group?.frames ?? []).filter((f) => !f.runtime).map((f) => f.name).filter((n) => n.length >= 3)));
+  return names.length > 0 ? names.slice(0, 4).join(" ") : undefined;
+}
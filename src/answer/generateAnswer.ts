@@ -18,16 +18,22 @@ function fallbackAnswer(
   transcript: string,
   repoContext?: string,
   images?: PromptImage[],
-  externalContext?: string
+  externalContext?: string,
+  historyContext?: string,
+  variantDiffContext?: string,
+  testsContext?: string
 ): AnswerResult {
   const header = `Fallback mode (no LLM)\n\nQuestion:\n${question.trim()}`;
   const context = transcript.trim() ? `\n\nChat context (may be partial):\n${transcript.trim()}` : "";
   const repo = repoContext?.trim() ? `\n\nRepo context:\n${repoContext.trim()}` : "";
+  const history = historyContext?.trim() ? `\n\nGit history context:\n${historyContext.trim()}` : "";
+  const variants = variantDiffContext?.trim() ? `\n\nVariant differences:\n${variantDiffContext.trim()}` : "";
+  const tests = testsContext?.trim() ? `\n\nTests:\n${testsContext.trim()}` : "";
   const external = externalContext?.trim() ? `\n\nExternal context:\n${externalContext.trim()}` : "";
   const imageInfo = images && images.length > 0 ? `\n\nImages: ${images.length} attached (vision unavailable in fallback).` : "";
   return {
     mode: "fallback",
-    answer: `${header}${context}${repo}${external}${imageInfo}\n\n(If you need more code context, include file paths/identifiers or paste the relevant snippet.)`,
+    answer: `${header}${context}${repo}${variants}${tests}${history}${external}${imageInfo}\n\n(If you need more code context, include file paths/identifiers or paste the relevant snippet.)`,
     sources: []
   };
 }
@@ -46,7 +52,9 @@ function buildSystemPrompt(botName: string): string {
     "For TiDB/TiKV/PD/TiCDC/TiDB Cloud product facts: prefer external knowledge context when available. If it is missing (e.g., TiDB.ai failed), still answer with best-effort guidance, but clearly label it as not docs-backed and avoid over-precise claims.",
     "If images are provided, interpret them carefully and extract relevant text/code from them.",
     "If you do not have enough repo context, ask the user to provide file paths or paste relevant code.",
-    "Never fabricate citations. Cite repo sources as `path:line` and external sources as URLs when used.",
+    "For pasted panics/backtraces, explain the failure at the frame marked `<- panicking frame` in the \"Stack trace\" repo context first, then how the caller frames got there.",
+    "For pasted log lines, start from the \"Logging statements behind the pasted log lines\" repo context: explain the condition that emits each log and what its fields mean before anything broader.",
+    "Never fabricate citations. Cite repo sources exactly as given on their `File:` lines (GitHub permalinks or `name@variant:path:line`), commits by their SHA, and external sources as URLs when used.",
     "Be concise: prefer short bullet points and direct steps; avoid long background. If essential details are missing, ask 1–3 targeted questions."
   ].join("\n");
 }
@@ -55,6 +63,9 @@ function buildUserPrompt(opts: {
   question: string;
   transcript: string;
   repoContext?: string;
+  historyContext?: string;
+  variantDiffContext?: string;
+  testsContext?: string;
   externalContext?: string;
   followUpQuestions?: string[];
   availableRepos?: string[];
@@ -77,7 +88,37 @@ function buildUserPrompt(opts: {
   }
 
   if (opts.repoContext?.trim()) {
-    blocks.push("", "Repo context:", opts.repoContext.trim(), "", "When using repo context, cite sources as `path:line`.");
+    blocks.push("", "Repo context:", opts.repoContext.trim(), "", "When using repo context, cite sources by the permalink or `path:line` on their `File:` lines.");
+  }
+
+  if (opts.variantDiffContext?.trim()) {
+    blocks.push(
+      "",
+      "Variant differences (unified diffs of the same file/symbol across branches/versions of one repo):",
+      opts.variantDiffContext.trim(),
+      "",
+      "When comparing variants, cite both versions (`name@variant:path:line` from the ---/+++ lines)."
+    );
+  }
+
+  if (opts.testsContext?.trim()) {
+    blocks.push(
+      "",
+      "Tests (unit/integration tests exercising the code above; they show the intended behavior and edge cases):",
+      opts.testsContext.trim(),
+      "",
+      "When describing expected behavior, prefer what the tests assert and cite them by their `File:` lines."
+    );
+  }
+
+  if (opts.historyContext?.trim()) {
+    blocks.push(
+      "",
+      "Git history context (commits found via blame / pickaxe / commit messages):",
+      opts.historyContext.trim(),
+      "",
+      "When using git history context, cite commits by their short SHA."
+    );
   }
 
   if (opts.externalContext?.trim()) {
@@ -116,6 +157,9 @@ export async function generateAnswer(opts: {
   question: string;
   transcript: string;
   repoContext?: string;
+  historyContext?: string;
+  variantDiffContext?: string;
+  testsContext?: string;
   sources?: string[];
   images?: PromptImage[];
   externalContext?: string;
@@ -123,7 +167,16 @@ export async function generateAnswer(opts: {
 }): Promise<AnswerResult> {
   if (opts.config.mode === "fallback" || !opts.config.openaiApiKey) {
     return {
-      ...fallbackAnswer(opts.question, opts.transcript, opts.repoContext, opts.images, opts.externalContext),
+      ...fallbackAnswer(
+        opts.question,
+        opts.transcript,
+        opts.repoContext,
+        opts.images,
+        opts.externalContext,
+        opts.historyContext,
+        opts.variantDiffContext,
+        opts.testsContext
+      ),
       sources: opts.sources ?? []
     };
   }
@@ -197,7 +250,16 @@ export async function generateAnswer(opts: {
     const answer = resp.choices[0]?.message?.content?.trim();
     if (!answer) {
       return {
-        ...fallbackAnswer(opts.question, opts.transcript, opts.repoContext, opts.images, opts.externalContext),
+        ...fallbackAnswer(
+          opts.question,
+          opts.transcript,
+          opts.repoContext,
+          opts.images,
+          opts.externalContext,
+          opts.historyContext,
+          opts.variantDiffContext,
+          opts.testsContext
+        ),
         sources: opts.sources ?? []
       };
     }
@@ -205,7 +267,16 @@ export async function generateAnswer(opts: {
     return { mode: "llm", answer, sources: opts.sources ?? [] };
   } catch {
     return {
-      ...fallbackAnswer(opts.question, opts.transcript, opts.repoContext, opts.images, opts.externalContext),
+      ...fallbackAnswer(
+        opts.question,
+        opts.transcript,
+        opts.repoContext,
+        opts.images,
+        opts.externalContext,
+        opts.historyContext,
+        opts.variantDiffContext,
+        opts.testsContext
+      ),
       sources: opts.sources ?? []
     };
   }
@@ -1,7 +1,45 @@
+import { shortSha } from "./repo/git.js";
+import type { SearchedRepo } from "./repo/multiSearch.js";
+
+function formatSearchedRepos(repos: SearchedRepo[] | undefined): string {
+  if (!repos || repos.length === 0) return "";
+  const items = repos.map((r) => (r.commit ? `${r.label} @ ${shortSha(r.commit)}` : r.label));
+  return `\n\n_ Searched: ${items.join(", ")} _`;
+}
+
+// GitHub blob permalinks are long; show them as `org/repo/path:line` links.
+function formatSource(source: string): string {
+  const m = /^https:\/\/github\.com\/([^/]+\/[^/]+)\/blob\/[0-9a-f]+\/([^#]+)#L(\d+)$/.exec(source);
+  if (!m) return source;
+  return `[${m[1]}/${decodeURIComponent(m[2]!)}:${m[3]}](${source})`;
+}
+
+function formatAge(ms: number): string {
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h`;
+  return `${Math.floor(hours / 24)}d`;
+}
+
+function formatStaleRepos(repos: SearchedRepo[] | undefined, staleAfterMs: number | undefined): string {
+  if (!repos || repos.length === 0) return "";
+  const now = Date.now();
+  const items = repos.flatMap((r) => {
+    if (r.syncing) return [`${r.label} (sync still running)`];
+    if (!staleAfterMs || staleAfterMs <= 0 || r.syncedAtMs === undefined || now - r.syncedAtMs <= staleAfterMs) return [];
+    return [`${r.label} (last synced ${formatAge(now - r.syncedAtMs)} ago)`];
+  });
+  if (items.length === 0) return "";
+  return `\n\n⚠️ Repo checkout may be stale: ${items.join(", ")}`;
+}
+
 export function buildAnswerCardContent(opts: {
   answer: string;
   sources: string[];
   mode: "llm" | "fallback";
+  searchedRepos?: SearchedRepo[];
+  staleAfterMs?: number;
 }): string {
   const maxChars = 6000;
 
@@ -10,12 +48,15 @@ export function buildAnswerCardContent(opts: {
 
   const sourcesBlock =
     !hasSourcesSection && opts.sources.length > 0
-      ? ["", "Sources:", ...opts.sources.map((s) => `- ${s}`)].join("\n")
+      ? ["", "Sources:", ...opts.sources.map((s) => `- ${formatSource(s)}`)].join("\n")
       : "";
 
   const modeLine = `\n\n_ Mode: ${opts.mode} _`;
 
-  const markdown = `${normalizedAnswer}${sourcesBlock}${modeLine}`.trim();
+  const searchedLine = formatSearchedRepos(opts.searchedRepos);
+  const staleLine = formatStaleRepos(opts.searchedRepos, opts.staleAfterMs);
+
+  const markdown = `${normalizedAnswer}${sourcesBlock}${searchedLine}${staleLine}${modeLine}`.trim();
   const finalMarkdown = markdown.length > maxChars ? `${markdown.slice(0, maxChars - 20)}\n\n…(truncated)` : markdown;
 
   // Shared card so we can patch-update it in place (progress → final answer).
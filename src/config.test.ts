@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+
+import { parseDurationMs } from "./config.js";
+
+describe("parseDurationMs", () => {
+  it("parses unit suffixes and combinations", () => {
+    expect(parseDurationMs("30m")).toBe(30 * 60_000);
+    expect(parseDurationMs("1h30m")).toBe(90 * 60_000);
+    expect(parseDurationMs("45s")).toBe(45_000);
+    expect(parseDurationMs("2d")).toBe(2 * 86_400_000);
+    expect(parseDurationMs("1s500ms")).toBe(1500);
+    expect(parseDurationMs(" 2H ")).toBe(7_200_000);
+  });
+
+  it("treats bare numbers as seconds", () => {
+    expect(parseDurationMs("90")).toBe(90_000);
+    expect(parseDurationMs(90)).toBe(90_000);
+    expect(parseDurationMs(0)).toBe(0);
+  });
+
+  it("rejects anything else", () => {
+    expect(parseDurationMs("")).toBeUndefined();
+    expect(parseDurationMs("1.5h")).toBeUndefined();
+    expect(parseDurationMs("1 h")).toBeUndefined();
+    expect(parseDurationMs("10w")).toBeUndefined();
+    expect(parseDurationMs(-1)).toBeUndefined();
+    expect(parseDurationMs(Number.NaN)).toBeUndefined();
+    expect(parseDurationMs(undefined)).toBeUndefined();
+  });
+});
@@ -19,6 +19,18 @@ export type RepoTarget = {
   variant: string;
   path: string;
   displayName: string;
+  // Git ref (branch/tag) to read instead of the working tree; set for `[repo.<name>] variants = [...]`.
+  ref?: string;
+  // Optional scoping: globs (see src/repo/glob.ts) and max directory depth for files to scan.
+  include?: string[];
+  exclude?: string[];
+  maxDepth?: number;
+  // Background `git fetch` + fast-forward (`sync = "30m"`); branch defaults to the checked-out one.
+  syncIntervalMs?: number;
+  syncBranch?: string;
+  syncRemote?: string;
+  // GitHub repo URL for source permalinks when `origin` is a mirror (default: derived from `origin`).
+  githubUrl?: string;
 };
 
 export type AppConfig = {
@@ -31,10 +43,29 @@ export type AppConfig = {
   repoMaxFiles: number;
   repoMaxFileBytes: number;
   repoMaxSnippets: number;
+  repoMaxSnippetsPerFile: number;
+  // Per-repo cap on listed call sites / usages for "who calls X" lookups.
+  repoMaxReferences: number;
   repoSnippetContextLines: number;
+  // Excerpts snap to the enclosing function/type block when it fits in this many lines (0 disables).
+  repoExcerptMaxLines: number;
+  // Score bonus for design doc / RFC sections when the question asks "why" / "how is X designed" (0 disables).
+  repoDesignDocBoost: number;
   repoMaxContextChars: number;
   repoSearchWorkers: number;
   repoSearchQueueMax: number;
+  // Deadline per repo search; on expiry the scan is stopped and partial results are used (0 disables).
+  repoSearchTimeoutMs: number;
+  repoIndexDir?: string;
+  // LRU of repo search results (0 disables); optionally persisted to repoSearchCacheDir.
+  repoSearchCacheEntries: number;
+  repoSearchCacheDir?: string;
+  // Per-repo cap on chunks embedded for semantic search.
+  repoEmbeddingMaxChunks: number;
+  repoHistoryMaxCommits: number;
+  repoHistoryTimeoutMs: number;
+  // Answer cards warn when a searched repo with `sync` was last synced longer ago than this (0 disables).
+  repoStaleAfterMs: number;
 
   mode: RunMode;
   openaiApiKey?: string;
@@ -42,6 +73,9 @@ export type AppConfig = {
   openaiModelProvider: string;
   openaiModel: string;
   openaiModelReasoningEffort?: ModelReasoningEffort;
+  // Embeddings for semantic repo search (off unless a model is set); base URL defaults to openaiBaseUrl.
+  openaiEmbeddingModel?: string;
+  openaiEmbeddingBaseUrl?: string;
 
   tidbAiEnabled: boolean;
   tidbAiBaseUrl: string;
@@ -135,6 +169,22 @@ function normalizeVisionImageDetail(raw: string | undefined): VisionImageDetail
   return undefined;
 }
 
+const DURATION_UNITS_MS: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+// "30m", "1h30m", "45s", "2d"; bare numbers are seconds.
+export function parseDurationMs(raw: unknown): number | undefined {
+  if (typeof raw === "number") return Number.isFinite(raw) && raw >= 0 ? raw * 1000 : undefined;
+  if (typeof raw !== "string") return undefined;
+  const value = raw.trim().toLowerCase();
+  if (!value) return undefined;
+  if (/^\d+$/.test(value)) return Number.parseInt(value, 10) * 1000;
+  if (!/^(?:\d+(?:ms|s|m|h|d))+$/.test(value)) return undefined;
+
+  let total = 0;
+  for (const m of value.matchAll(/(\d+)(ms|s|m|h|d)/g)) total += Number.parseInt(m[1]!, 10) * DURATION_UNITS_MS[m[2]!]!;
+  return total;
+}
+
 function repoDisplayName(name: string, variant: string): string {
   const n = name.trim();
   const v = variant.trim();
@@ -151,6 +201,7 @@ function parseRepoTargetsFromToml(fileCfg: TomlFlatConfig, configDir: string): R
 
     // Supported formats:
     // - [repo.<name>] path = "/abs/path"
+    // - [repo.<name>] path = "/abs/path" + variants = ["master", "release-8.5"] (one clone, variants read from git refs)
     // - [repo.<name>.<variant...>] path = "/abs/path" (variant may contain dots like v8.5)
     const parts = fullKey.split(".");
     if (parts.length < 3) continue; // skip legacy "repo.path"
@@ -166,8 +217,33 @@ function parseRepoTargetsFromToml(fileCfg: TomlFlatConfig, configDir: string): R
     if (!rawPath) continue;
 
     const resolvedPath = path.isAbsolute(rawPath) ? rawPath : path.resolve(configDir, rawPath);
-    const id = `${name}:${variant}`;
-    out.push({ id, name, variant, path: resolvedPath, displayName: repoDisplayName(name, variant) });
+    const section = fullKey.slice(0, -".path".length);
+    const include = getStringArray(fileCfg, [`${section}.include`]);
+    const exclude = getStringArray(fileCfg, [`${section}.exclude`]);
+    const maxDepth = getNumber(fileCfg, [`${section}.max_depth`]);
+    const syncIntervalMs = parseDurationMs(fileCfg[`${section}.sync`]);
+    const syncBranch = getString(fileCfg, [`${section}.branch`]);
+    const syncRemote = getString(fileCfg, [`${section}.remote`]);
+    const githubUrl = getString(fileCfg, [`${section}.github_url`]);
+    const refVariants = variantRaw ? undefined : getStringArray(fileCfg, [`${section}.variants`]);
+
+    for (const v of refVariants ?? [variant]) {
+      out.push({
+        id: `${name}:${v}`,
+        name,
+        variant: v,
+        path: resolvedPath,
+        displayName: repoDisplayName(name, v),
+        ...(refVariants ? { ref: v } : {}),
+        ...(include ? { include } : {}),
+        ...(exclude ? { exclude } : {}),
+        ...(typeof maxDepth === "number" && maxDepth >= 0 ? { maxDepth } : {}),
+        ...(syncIntervalMs ? { syncIntervalMs } : {}),
+        ...(syncBranch ? { syncBranch } : {}),
+        ...(syncRemote ? { syncRemote } : {}),
+        ...(githubUrl ? { githubUrl } : {})
+      });
+    }
   }
 
   return out;
@@ -237,11 +313,13 @@ export function loadConfig(options: LoadConfigOptions = {}): AppConfig {
     rawPaths.length > 0 ? rawPaths : envPaths.length > 0 ? envPaths : repoPathFromEnv ? [repoPathFromEnv] : [];
   const legacyRepos = repoTargetsFromPaths(pickedPaths, configDir);
 
+  // Ref-backed variants share a path, so dedupe on path + ref.
   const reposByPath = new Map<string, RepoTarget>();
   for (const repo of [...namedReposFromFile, ...legacyRepos]) {
     const abs = path.resolve(repo.path);
-    if (reposByPath.has(abs)) continue;
-    reposByPath.set(abs, { ...repo, path: abs });
+    const key = `${abs}\0${repo.ref ?? ""}`;
+    if (reposByPath.has(key)) continue;
+    reposByPath.set(key, { ...repo, path: abs });
   }
   const repos = Array.from(reposByPath.values());
 
@@ -251,8 +329,16 @@ export function loadConfig(options: LoadConfigOptions = {}): AppConfig {
     getNumber(fileCfg, ["repo.max_file_bytes"]) ?? readIntEnv("REPO_MAX_FILE_BYTES", 1024 * 1024);
   const repoMaxSnippets =
     getNumber(fileCfg, ["repo.max_snippets"]) ?? readIntEnv("REPO_MAX_SNIPPETS", 20);
+  const repoMaxSnippetsPerFile =
+    getNumber(fileCfg, ["repo.max_snippets_per_file"]) ?? readIntEnv("REPO_MAX_SNIPPETS_PER_FILE", 3);
+  const repoMaxReferences =
+    getNumber(fileCfg, ["repo.max_references"]) ?? readIntEnv("REPO_MAX_REFERENCES", 60);
   const repoSnippetContextLines =
     getNumber(fileCfg, ["repo.snippet_context_lines"]) ?? readIntEnv("REPO_SNIPPET_CONTEXT_LINES", 12);
+  const repoExcerptMaxLines =
+    getNumber(fileCfg, ["repo.excerpt_max_lines"]) ?? readIntEnv("REPO_EXCERPT_MAX_LINES", 80);
+  const repoDesignDocBoost =
+    getNumber(fileCfg, ["repo.design_doc_boost"]) ?? readIntEnv("REPO_DESIGN_DOC_BOOST", 3);
   const repoMaxContextChars =
     getNumber(fileCfg, ["repo.max_context_chars"]) ?? readIntEnv("REPO_MAX_CONTEXT_CHARS", 80_000);
 
@@ -264,6 +350,45 @@ export function loadConfig(options: LoadConfigOptions = {}): AppConfig {
     getNumber(fileCfg, ["repo.search_workers", "repo.workers"]) ?? readIntEnv("REPO_SEARCH_WORKERS", defaultRepoSearchWorkers);
   const repoSearchQueueMax =
     getNumber(fileCfg, ["repo.search_queue_max", "repo.queue_max"]) ?? readIntEnv("REPO_SEARCH_QUEUE_MAX", 100);
+  const repoSearchTimeoutMs =
+    getNumber(fileCfg, ["repo.search_timeout_ms"]) ?? readIntEnv("REPO_SEARCH_TIMEOUT_MS", 60_000);
+
+  // Persistent trigram index location; set `repo.index_dir = ""` (or REPO_INDEX_DIR="") to disable.
+  const repoIndexDirRaw =
+    typeof fileCfg["repo.index_dir"] === "string"
+      ? (fileCfg["repo.index_dir"] as string).trim()
+      : process.env.REPO_INDEX_DIR !== undefined
+        ? process.env.REPO_INDEX_DIR.trim()
+        : path.join(os.homedir(), ".cache", "repo-master", "index");
+  const repoIndexDir = repoIndexDirRaw
+    ? path.isAbsolute(repoIndexDirRaw)
+      ? repoIndexDirRaw
+      : path.resolve(configDir, repoIndexDirRaw)
+    : undefined;
+
+  const repoSearchCacheEntries =
+    getNumber(fileCfg, ["repo.search_cache_entries"]) ?? readIntEnv("REPO_SEARCH_CACHE_ENTRIES", 200);
+  // Memory-only unless a directory is configured.
+  const repoSearchCacheDirRaw =
+    typeof fileCfg["repo.search_cache_dir"] === "string"
+      ? (fileCfg["repo.search_cache_dir"] as string).trim()
+      : (process.env.REPO_SEARCH_CACHE_DIR ?? "").trim();
+  const repoSearchCacheDir = repoSearchCacheDirRaw
+    ? path.isAbsolute(repoSearchCacheDirRaw)
+      ? repoSearchCacheDirRaw
+      : path.resolve(configDir, repoSearchCacheDirRaw)
+    : undefined;
+
+  const repoEmbeddingMaxChunks =
+    getNumber(fileCfg, ["repo.embedding_max_chunks"]) ?? readIntEnv("REPO_EMBEDDING_MAX_CHUNKS", 20_000);
+
+  const repoHistoryMaxCommits =
+    getNumber(fileCfg, ["repo.history_max_commits"]) ?? readIntEnv("REPO_HISTORY_MAX_COMMITS", 8);
+  const repoHistoryTimeoutMs =
+    getNumber(fileCfg, ["repo.history_timeout_ms"]) ?? readIntEnv("REPO_HISTORY_TIMEOUT_MS", 20_000);
+
+  const repoStaleAfterMs =
+    parseDurationMs(fileCfg["repo.stale_after"]) ?? parseDurationMs(process.env.REPO_STALE_AFTER) ?? 24 * 3_600_000;
 
   const openaiModelProvider = pickFirstNonEmpty(
     getString(fileCfg, ["openai.model_provider", "openai.provider"]),
@@ -302,6 +427,13 @@ export function loadConfig(options: LoadConfigOptions = {}): AppConfig {
       process.env.OPENAI_REASONING_EFFORT?.trim()
     )
   );
+  const openaiEmbeddingModel = pickFirstNonEmpty(
+    getString(fileCfg, ["openai.embedding_model"]),
+    process.env.OPENAI_EMBEDDING_MODEL?.trim()
+  );
+  const openaiEmbeddingBaseUrl = normalizeUrl(
+    pickFirstNonEmpty(getString(fileCfg, ["openai.embedding_base_url"]), process.env.OPENAI_EMBEDDING_BASE_URL?.trim())
+  );
 
   const tidbAiEnabled =
     getBoolean(fileCfg, ["tidb_ai.enabled", "tidb_ai_enabled"]) ?? readBoolEnv("TIDB_AI_ENABLED", true);
@@ -354,10 +486,22 @@ export function loadConfig(options: LoadConfigOptions = {}): AppConfig {
     repoMaxFiles,
     repoMaxFileBytes,
     repoMaxSnippets,
+    repoMaxSnippetsPerFile,
+    repoMaxReferences,
     repoSnippetContextLines,
+    repoExcerptMaxLines,
+    repoDesignDocBoost,
     repoMaxContextChars,
     repoSearchWorkers,
     repoSearchQueueMax,
+    repoSearchTimeoutMs,
+    repoIndexDir,
+    repoSearchCacheEntries,
+    repoSearchCacheDir,
+    repoEmbeddingMaxChunks,
+    repoHistoryMaxCommits,
+    repoHistoryTimeoutMs,
+    repoStaleAfterMs,
 
     mode,
     openaiApiKey,
@@ -365,6 +509,8 @@ export function loadConfig(options: LoadConfigOptions = {}): AppConfig {
     openaiModelProvider,
     openaiModel,
     openaiModelReasoningEffort,
+    openaiEmbeddingModel,
+    openaiEmbeddingBaseUrl,
 
     tidbAiEnabled,
     tidbAiBaseUrl,
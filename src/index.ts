@@ -4,6 +4,7 @@ import { maybeHandleHelp, parseCliArgs } from "./cli.js";
 import { loadConfig } from "./config.js";
 import { configureLogger, logger } from "./logger.js";
 import { startFeishuBot } from "./lark/start.js";
+import { startRepoSync } from "./repo/sync.js";
 
 function main() {
   const cli = parseCliArgs(process.argv.slice(2));
@@ -21,6 +22,7 @@ function main() {
     process.exitCode = 1;
   });
 
+  startRepoSync(config.repos);
   startFeishuBot(config);
 }
 
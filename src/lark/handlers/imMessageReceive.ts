@@ -81,6 +81,8 @@ export async function handleImMessageReceiveV1(_deps: LarkDeps, data: unknown) {
   // Run the slow pipeline in the background so the WS event can be acked quickly.
   void (async () => {
     let progress: Awaited<ReturnType<typeof startProgressReporter>> | undefined;
+    // A failed step abandons the answer; stops this question's repo searches still holding workers.
+    const research = new AbortController();
     try {
       const selfIntro = maybeBuildSelfIntroAnswer(config, question);
       if (selfIntro) {
@@ -159,8 +161,18 @@ export async function handleImMessageReceiveV1(_deps: LarkDeps, data: unknown) {
         .filter((d): d is NonNullable<typeof d> => !!d)
         .map((d) => ({ dataUrl: d.dataUrl, ...(config.visionImageDetail ? { detail: config.visionImageDetail } : {}) }));
 
-      progress.setStage("Researching (TiDB.ai + repo scan)");
-      const ctx = await collectAnswerContext({ config, question, transcript: transcriptForPrompt, images });
+      const researchStage = "Researching (TiDB.ai + repo scan)";
+      progress.setStage(researchStage);
+      const ctx = await collectAnswerContext({
+        config,
+        question,
+        transcript: transcriptForPrompt,
+        images,
+        requester: { chatId: incoming.chatId, userId: incoming.senderId },
+        signal: research.signal,
+        onRepoSearchQueue: (ahead) =>
+          progress?.setStage(ahead === undefined ? researchStage : `Researching — repo search queued (${ahead} ahead)`)
+      });
 
       progress.setStage("Generating answer");
       const answer = await generateAnswer({
@@ -168,6 +180,9 @@ export async function handleImMessageReceiveV1(_deps: LarkDeps, data: unknown) {
         question,
         transcript: transcriptForPrompt,
         repoContext: ctx.repoContext,
+        historyContext: ctx.historyContext,
+        variantDiffContext: ctx.variantDiffContext,
+        testsContext: ctx.testsContext,
         externalContext: ctx.externalContext,
         sources: ctx.sources,
         images,
@@ -179,7 +194,9 @@ export async function handleImMessageReceiveV1(_deps: LarkDeps, data: unknown) {
       const card = buildAnswerCardContent({
         answer: finalAnswerText,
         sources: answer.sources,
-        mode: answer.mode
+        mode: answer.mode,
+        searchedRepos: ctx.searchedRepos,
+        staleAfterMs: config.repoStaleAfterMs
       });
 
       progress.setStage("Replying");
@@ -201,6 +218,7 @@ export async function handleImMessageReceiveV1(_deps: LarkDeps, data: unknown) {
         await replyWithText({ client, messageId: incoming.messageId, text: finalAnswerText, dedupeKey: incoming.eventId });
       }
     } catch (error) {
+      research.abort(error);
       logger.error({ err: error }, "Failed to process message");
 
       if (progress?.messageId) {
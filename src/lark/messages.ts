@@ -36,6 +36,8 @@ export type NormalizedIncomingMessage = {
   imageKeys: string[];
   mentions: LarkMessageMention[];
   senderType?: string;
+  // open_id (else user_id / union_id) of the sender.
+  senderId?: string;
 };
 
 export type HistoryMessage = {
@@ -259,6 +261,10 @@ export function normalizeIncomingMessage(data: unknown): NormalizedIncomingMessa
 
   const mentions = normalizeMentions(message.mentions);
   const senderType = sender && typeof sender.sender_type === "string" ? (sender.sender_type as string) : undefined;
+  const senderIds = asRecord(sender?.sender_id);
+  const senderId = [senderIds?.open_id, senderIds?.user_id, senderIds?.union_id].find(
+    (v): v is string => typeof v === "string" && !!v
+  );
 
   const eventId =
     (header && typeof header.event_id === "string" ? (header.event_id as string) : undefined) ??
@@ -280,7 +286,8 @@ export function normalizeIncomingMessage(data: unknown): NormalizedIncomingMessa
     text: rawText,
     imageKeys,
     mentions,
-    senderType
+    senderType,
+    senderId
   };
 }
 
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+
+import { enclosingBlockFinder, markdownSectionOf } from "./blocks.js";
+
+describe("enclosingBlockFinder", () => {
+  it("finds the Go method around a line", () => {
+    const lines = [
+      "package sink",
+      "",
+      "func (s *mysqlSink) WriteEvents(events ...Event) error {",
+      "\tfor _, e := range events {",
+      "\t\ts.write(e)",
+      "\t}",
+      "\treturn nil",
+      "}",
+      ""
+    ];
+    const find = enclosingBlockFinder("sink.go", lines)!;
+    expect(find(5)).toEqual({ symbol: "method mysqlSink.WriteEvents", name: "WriteEvents", startLine: 3, endLine: 8 });
+    expect(find(1)).toBeUndefined();
+    expect(find(9)).toBeUndefined();
+  });
+
+  it("includes Rust attributes and returns the innermost block", () => {
+    const lines = [
+      "impl Owner {",
+      "    #[inline]",
+      "    #[must_use]",
+      "    pub fn campaign(&self) -> bool {",
+      "        true",
+      "    }",
+      "}"
+    ];
+    const find = enclosingBlockFinder("owner.rs", lines)!;
+    expect(find(5)).toMatchObject({ name: "campaign", startLine: 2, endLine: 6 });
+  });
+
+  it("finds TypeScript class methods, arrow functions and type aliases", () => {
+    const lines = [
+      "export class Pool {",
+      "  private queue: Task[] = [];",
+      "",
+      "  async run(",
+      "    task: Task",
+      "  ): Promise<void> {",
+      "    if (task) {",
+      "      this.queue.push(task);",
+      "    }",
+      "  }",
+      "}",
+      "",
+      "export const double = (x: number) =>",
+      "  x * 2;",
+      "",
+      "type Mode =",
+      '  | "a"',
+      '  | "b";'
+    ];
+    const find = enclosingBlockFinder("pool.ts", lines)!;
+    expect(find(8)).toEqual({ symbol: "method Pool.run", name: "run", startLine: 4, endLine: 10 });
+    expect(find(2)).toMatchObject({ name: "Pool", startLine: 1, endLine: 11 });
+    expect(find(14)).toMatchObject({ name: "double", startLine: 13, endLine: 14 });
+    expect(find(17)).toMatchObject({ name: "Mode", startLine: 16, endLine: 18 });
+  });
+
+  it("uses indentation for Python, including decorators", () => {
+    const lines = [
+      "class Owner:",
+      "    @retry",
+      "    def campaign(self,",
+      "    ):",
+      "        x = 1",
+      "",
+      "        return x",
+      "",
+      "def main():",
+      "    pass"
+    ];
+    const find = enclosingBlockFinder("owner.py", lines)!;
+    expect(find(5)).toEqual({ symbol: "method Owner.campaign", name: "campaign", startLine: 2, endLine: 7 });
+    expect(find(10)).toMatchObject({ name: "main", startLine: 9, endLine: 10 });
+  });
+
+  it("returns Markdown sections with their heading path", () => {
+    const lines = ["# Owner", "intro", "## Failover", "text", "```", "# not a heading", "```", "", "## Election", "more"];
+    const find = enclosingBlockFinder("docs/owner.md", lines)!;
+    expect(find(6)).toEqual({ symbol: "section Owner > Failover", name: "Failover", startLine: 3, endLine: 7 });
+    expect(find(2)).toMatchObject({ name: "Owner", startLine: 1, endLine: 2 });
+  });
+
+  it("is undefined for unsupported languages", () => {
+    expect(enclosingBlockFinder("Makefile", ["all:"])).toBeUndefined();
+  });
+});
+
+describe("markdownSectionOf", () => {
+  it("maps lines to the heading that starts their section", () => {
+    const lines = ["preface", "# A", "a", "## B", "b", "~~~", "## fenced", "~~~", "# C"];
+    const sectionOf = markdownSectionOf("README.md", lines)!;
+    expect([1, 2, 3, 5, 7, 9].map(sectionOf)).toEqual([0, 2, 2, 4, 4, 9]);
+    expect(markdownSectionOf("main.go", lines)).toBeUndefined();
+  });
+});
@@ -0,0 +1,297 @@
+import path from "node:path";
+
+import {
+  braceDelta,
+  codePart,
+  extractSymbols,
+  formatSymbol,
+  symbolEndLine,
+  symbolLanguage,
+  type RepoSymbol,
+  type RepoSymbolKind
+} from "./symbols.js";
+
+export type EnclosingBlock = {
+  // Innermost declaration around the line, e.g. "method mysqlSink.WriteEvents" (see formatSymbol).
+  symbol: string;
+  // Its bare name ("WriteEvents"), or the heading title for a Markdown section.
+  name: string;
+  // Inclusive 1-based range: leading decorators/attributes, the declaration, through its body's end.
+  startLine: number;
+  endLine: number;
+};
+
+type BlockLanguage = "go" | "rust" | "cpp" | "ts" | "python";
+
+// Declarations whose end isn't found within this many lines are treated as running to the cap.
+const MAX_BLOCK_SCAN_LINES = 4000;
+
+const TS_EXTENSIONS = new Set([".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"]);
+const PYTHON_EXTENSIONS = new Set([".py", ".pyi"]);
+const MARKDOWN_EXTENSIONS = new Set([".md", ".markdown", ".mdx"]);
+
+type MarkdownHeading = {
+  line: number;
+  level: number;
+  // Titles from the top-level heading down to this one.
+  path: string[];
+};
+
+const TS_NON_METHODS = new Set([
+  "if",
+  "for",
+  "while",
+  "switch",
+  "catch",
+  "return",
+  "function",
+  "new",
+  "typeof",
+  "await",
+  "yield",
+  "super",
+  "this",
+  "else",
+  "do",
+  "with"
+]);
+
+function blockLanguage(filePath: string): BlockLanguage | undefined {
+  const lang = symbolLanguage(filePath);
+  if (lang) return lang;
+  const ext = path.extname(filePath).toLowerCase();
+  if (TS_EXTENSIONS.has(ext)) return "ts";
+  if (PYTHON_EXTENSIONS.has(ext)) return "python";
+  return undefined;
+}
+
+function extractTsLine(line: string, className: string | undefined): Omit<RepoSymbol, "line"> | undefined {
+  const decl = /^\s*(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:const\s+)?(class|interface|enum)\s+([A-Za-z_$][\w$]*)/.exec(line);
+  if (decl) return { name: decl[2]!, kind: decl[1] as RepoSymbolKind };
+
+  const fn = /^\s*(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)/.exec(line);
+  if (fn) return { name: fn[1]!, kind: "func" };
+
+  const arrow = /^\s*(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]*)?=\s*(?:async\s+)?(function\b|.*=>)/.exec(line);
+  if (arrow) return { name: arrow[1]!, kind: "func" };
+
+  const type = /^\s*(?:export\s+)?(?:declare\s+)?type\s+([A-Za-z_$][\w$]*)\b[^=]*=/.exec(line);
+  if (type) return { name: type[1]!, kind: "type" };
+
+  if (!className) return undefined;
+  const modifiers = String.raw`(?:(?:public|private|protected|static|async|readonly|override|abstract|get|set)\s+)*`;
+  const method = new RegExp(String.raw`^\s+${modifiers}\*?\s*([A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\s*\(`).exec(line);
+  // Multi-line signatures end the first line with `(`; one-line ones open the body.
+  if (method && !TS_NON_METHODS.has(method[1]!) && /[{(]$/.test(codePart(line).trimEnd())) {
+    return { name: method[1]!, kind: "method", container: className };
+  }
+  const field = new RegExp(String.raw`^\s+${modifiers}([A-Za-z_$][\w$]*)\s*(?::[^=]*)?=\s*(?:async\s+)?.*=>`).exec(line);
+  if (field) return { name: field[1]!, kind: "method", container: className };
+  return undefined;
+}
+
+// Same brace-depth bookkeeping as extractSymbols: methods are only recognized directly inside a class body.
+function extractTsSymbols(lines: string[]): RepoSymbol[] {
+  const out: RepoSymbol[] = [];
+  const classes: Array<{ name: string; depth: number }> = [];
+  let depth = 0;
+
+  for (let i = 0; i < lines.length; i += 1) {
+    const line = lines[i] ?? "";
+    const delta = braceDelta(codePart(line));
+    while (classes.length > 0 && depth <= classes[classes.length - 1]!.depth) classes.pop();
+
+    const cls = classes[classes.length - 1];
+    const sym = extractTsLine(line, cls && depth === cls.depth + 1 ? cls.name : undefined);
+    if (sym) {
+      out.push({ ...sym, line: i + 1 });
+      if ((sym.kind === "class" || sym.kind === "interface") && delta > 0) classes.push({ name: sym.name, depth });
+    }
+    depth = Math.max(0, depth + delta);
+  }
+  return out;
+}
+
+function indentOf(line: string): number {
+  return /^\s*/.exec(line)![0].replace(/\t/g, "    ").length;
+}
+
+function isBlankOrComment(line: string): boolean {
+  return !line.trim() || /^\s*#/.test(line);
+}
+
+function extractPythonSymbols(lines: string[]): RepoSymbol[] {
+  const out: RepoSymbol[] = [];
+  const stack: Array<{ name: string; kind: RepoSymbolKind; indent: number }> = [];
+
+  for (let i = 0; i < lines.length; i += 1) {
+    const line = lines[i] ?? "";
+    const m = /^(\s*)(?:(?:async\s+)?def|(class))\s+([A-Za-z_]\w*)/.exec(line);
+    if (!m) continue;
+    const indent = indentOf(m[1]!);
+    while (stack.length > 0 && stack[stack.length - 1]!.indent >= indent) stack.pop();
+
+    const parent = stack[stack.length - 1];
+    const kind: RepoSymbolKind = m[2] ? "class" : parent?.kind === "class" ? "method" : "func";
+    out.push({ name: m[3]!, kind, line: i + 1, ...(kind === "method" ? { container: parent!.name } : {}) });
+    stack.push({ name: m[3]!, kind, indent });
+  }
+  return out;
+}
+
+// Brace body, or up to the `;` / last line of a bodiless declaration (`type X = A | B`, `const f = (x) => x`).
+function tsBlockEnd(lines: string[], line: number): number {
+  const last = Math.min(lines.length, line + MAX_BLOCK_SCAN_LINES - 1);
+  let depth = 0;
+  // Open parens of a signature wrapped over several lines.
+  let parens = 0;
+  let opened = false;
+  for (let i = line - 1; i < last; i += 1) {
+    const code = codePart(lines[i] ?? "");
+    depth += braceDelta(code);
+    if (depth > 0) opened = true;
+    if (opened && depth <= 0) return i + 1;
+    for (const ch of code) {
+      if (ch === "(") parens += 1;
+      else if (ch === ")") parens -= 1;
+    }
+    const tail = code.trimEnd();
+    // Prettier-style unions and chains continue on lines starting with the operator (`| "b"`, `.then(`).
+    const next = codePart(lines[i + 1] ?? "").trimStart();
+    if (!opened && parens <= 0 && tail && !/[(,=>:|&<]$/.test(tail) && !/^(?:[|&.?:]|=>)/.test(next)) return i + 1;
+  }
+  return last;
+}
+
+// Last line indented deeper than the `def`/`class`; closing brackets of a wrapped signature don't end it.
+function pythonBlockEnd(lines: string[], line: number): number {
+  const indent = indentOf(lines[line - 1] ?? "");
+  const last = Math.min(lines.length, line + MAX_BLOCK_SCAN_LINES - 1);
+  let end = line;
+  for (let i = line; i < last; i += 1) {
+    const text = lines[i] ?? "";
+    if (isBlankOrComment(text)) continue;
+    if (indentOf(text) <= indent && !/^\s*[)\]]/.test(text)) break;
+    end = i + 1;
+  }
+  return end;
+}
+
+// Decorators (`@retry`, TS `@Input()`) and Rust attributes (`#[inline]`) belong to the declaration below.
+function leadingStart(lines: string[], line: number): number {
+  let start = line;
+  while (start > 1 && /^\s*(?:@|#\[)/.test(lines[start - 2] ?? "")) start -= 1;
+  return start;
+}
+
+export function isMarkdownPath(filePath: string): boolean {
+  return MARKDOWN_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+}
+
+// ATX headings (`## Failover`) outside fenced code blocks, with their heading path.
+function markdownHeadings(lines: string[]): MarkdownHeading[] {
+  const out: MarkdownHeading[] = [];
+  const stack: MarkdownHeading[] = [];
+  let fence: string | undefined;
+
+  for (let i = 0; i < lines.length; i += 1) {
+    const line = lines[i] ?? "";
+    const fenceMark = /^ {0,3}(`{3,}|~{3,})/.exec(line)?.[1];
+    if (fenceMark) {
+      if (!fence) fence = fenceMark;
+      else if (fenceMark[0] === fence[0] && fenceMark.length >= fence.length) fence = undefined;
+      continue;
+    }
+    if (fence) continue;
+
+    const m = /^ {0,3}(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    if (!m || !m[2]) continue;
+    const level = m[1]!.length;
+    while (stack.length > 0 && stack[stack.length - 1]!.level >= level) stack.pop();
+    const heading = { line: i + 1, level, path: [...(stack[stack.length - 1]?.path ?? []), m[2]] };
+    stack.push(heading);
+    out.push(heading);
+  }
+  return out;
+}
+
+function lastHeadingAtOrBefore(headings: MarkdownHeading[], line: number): number {
+  let idx = -1;
+  for (let i = 0; i < headings.length && headings[i]!.line <= line; i += 1) idx = i;
+  return idx;
+}
+
+function trimTrailingBlank(lines: string[], start: number, end: number): number {
+  while (end > start && !(lines[end - 1] ?? "").trim()) end -= 1;
+  return end;
+}
+
+/**
+ * Markdown counterpart of the code-block lookup: the section a line belongs to, from its heading
+ * up to the next heading (subsections are sections of their own, with a longer heading path).
+ */
+function markdownSectionFinder(lines: string[]): (line: number) => EnclosingBlock | undefined {
+  const headings = markdownHeadings(lines);
+  return (line) => {
+    const idx = lastHeadingAtOrBefore(headings, line);
+    if (idx < 0) return undefined;
+    const heading = headings[idx]!;
+    const next = headings[idx + 1]?.line ?? lines.length + 1;
+    const endLine = trimTrailingBlank(lines, heading.line, next - 1);
+    const name = heading.path[heading.path.length - 1]!;
+    return { symbol: `section ${heading.path.join(" > ")}`, name, startLine: heading.line, endLine };
+  };
+}
+
+/**
+ * Line of the heading that starts the innermost section around each line (0 before the first
+ * heading), so search hits are never grouped across section boundaries. Undefined for non-markdown.
+ */
+export function markdownSectionOf(filePath: string, lines: string[]): ((line: number) => number) | undefined {
+  if (!isMarkdownPath(filePath)) return undefined;
+  const headings = markdownHeadings(lines);
+  return (line) => headings[lastHeadingAtOrBefore(headings, line)]?.line ?? 0;
+}
+
+/**
+ * Returns a lookup of the innermost function/method/type block around a line, for Go, Rust and
+ * C++ (extractSymbols + symbolEndLine) plus TypeScript/JavaScript (brace depth) and Python
+ * (indentation), or of the heading section for Markdown (see markdownSectionFinder). Undefined
+ * for other languages. Heuristic like extractSymbols: declarations it can't recognize simply
+ * leave the line without an enclosing block.
+ */
+export function enclosingBlockFinder(
+  filePath: string,
+  lines: string[]
+): ((line: number) => EnclosingBlock | undefined) | undefined {
+  if (isMarkdownPath(filePath)) return markdownSectionFinder(lines);
+  const lang = blockLanguage(filePath);
+  if (!lang) return undefined;
+
+  const decls =
+    lang === "ts" ? extractTsSymbols(lines) : lang === "python" ? extractPythonSymbols(lines) : extractSymbols(filePath, lines);
+  const ends = new Map<number, number>();
+  const endOf = (sym: RepoSymbol): number => {
+    let end = ends.get(sym.line);
+    if (end === undefined) {
+      end =
+        lang === "ts"
+          ? tsBlockEnd(lines, sym.line)
+          : lang === "python"
+            ? pythonBlockEnd(lines, sym.line)
+            : symbolEndLine(filePath, lines, sym.line, MAX_BLOCK_SCAN_LINES);
+      ends.set(sym.line, end);
+    }
+    return end;
+  };
+
+  // Blocks nest, so the containing declaration that starts last is the innermost one.
+  return (line) => {
+    for (let i = decls.length - 1; i >= 0; i -= 1) {
+      const sym = decls[i]!;
+      if (sym.line > line || endOf(sym) < line) continue;
+      return { symbol: formatSymbol(sym), name: sym.name, startLine: leadingStart(lines, sym.line), endLine: endOf(sym) };
+    }
+    return undefined;
+  };
+}
@@ -0,0 +1,55 @@
+// Okapi BM25 with the usual defaults.
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Corpus-level statistics for one repo (or several, once merged). Document = file; length is
+ * measured in bytes so it can come straight from the trigram index without reading files.
+ * Plain records (not Maps) so results can cross the worker boundary.
+ */
+export type CorpusStats = {
+  docCount: number;
+  totalLength: number;
+  docFreq: Record<string, number>;
+};
+
+export type TermScoring = {
+  // Term → number of matching lines in the scored region.
+  termFreqs: Record<string, number>;
+  docLength: number;
+  // Non-BM25 extras (definition boosts, regex hits).
+  bonus: number;
+};
+
+export function emptyCorpusStats(): CorpusStats {
+  return { docCount: 0, totalLength: 0, docFreq: {} };
+}
+
+export function mergeCorpusStats(list: Array<CorpusStats | undefined>): CorpusStats {
+  const out = emptyCorpusStats();
+  for (const stats of list) {
+    if (!stats) continue;
+    out.docCount += stats.docCount;
+    out.totalLength += stats.totalLength;
+    for (const [term, df] of Object.entries(stats.docFreq)) out.docFreq[term] = (out.docFreq[term] ?? 0) + df;
+  }
+  return out;
+}
+
+export function inverseDocumentFrequency(stats: CorpusStats, term: string): number {
+  const n = Math.max(stats.docCount, 1);
+  const df = Math.min(stats.docFreq[term] ?? 0, n);
+  return Math.log(1 + (n - df + 0.5) / (df + 0.5));
+}
+
+export function bm25Score(scoring: TermScoring, stats: CorpusStats): number {
+  const avgLength = stats.docCount > 0 ? stats.totalLength / stats.docCount : scoring.docLength;
+  const norm = 1 - B + (B * scoring.docLength) / Math.max(avgLength, 1);
+
+  let score = 0;
+  for (const [term, tf] of Object.entries(scoring.termFreqs)) {
+    if (tf <= 0) continue;
+    score += inverseDocumentFrequency(stats, term) * ((tf * (K1 + 1)) / (tf + K1 * norm));
+  }
+  return score + scoring.bonus;
+}
@@ -0,0 +1,422 @@
+import path from "node:path";
+
+import type { RepoTarget } from "../config.js";
+import { logger } from "../logger.js";
+import { normalizeRepos, repoSource, withPermalinkBase, type RepoWithName } from "./multiSearchLocal.js";
+import { isTestPath } from "./query.js";
+import { getRepoIndex, listRepoFilesMatching } from "./search.js";
+
+export type ConfigLookupResult = {
+  contextText: string;
+  sources: string[];
+};
+
+type ConfigItem = {
+  kind: "sysvar" | "config";
+  // Sysvar name, or the config item's dotted TOML path (`sink.per-table-memory-quota`).
+  name: string;
+  // Default value as written (string literals unquoted, constants resolved where possible).
+  defaultValue?: string;
+  // Sysvar scope and type (`GLOBAL|SESSION, TypeDuration`), or the Go field (`SinkConfig.PerTableMemoryQuota uint64`).
+  detail: string;
+  // Comment above the Go field.
+  doc?: string;
+  filePath: string;
+  line: number;
+};
+
+// TiDB system variables (`pkg/sessionctx/variable/sysvar.go`, names and defaults also in `vardef`;
+// older trees without `pkg/`).
+const SYSVAR_FILE_RE = /(?:^|\/)sessionctx\/(?:variable|vardef)\/[^/]+\.go$/;
+// Config structs: tidb `pkg/config`, pd `server/config`, ticdc `pkg/config`, dm `dm/config`, ...
+const CONFIG_FILE_RE = /(?:^|\/)config\/[^/]+\.go$|(?:^|\/)[^/]*config[^/]*\.go$/;
+// git pathspecs covering both, so a large repo's catalog doesn't depend on the index's file cap.
+const CATALOG_PATHSPECS = [
+  ":(glob)**/sessionctx/variable/*.go",
+  ":(glob)**/sessionctx/vardef/*.go",
+  ":(glob)**/config/*.go",
+  ":(glob)**/*config*.go"
+];
+const CONST_RE = /^\s*(?:const\s+)?([A-Za-z_]\w*)\s*(?:[\w.]+\s*)?=\s*(.+?)\s*(?:\/\/.*)?$/;
+const STRUCT_START_RE = /^type\s+(\w+)\s+struct\s*\{\s*$/;
+const FIELD_RE = /^\s*(\w+)\s+([^`]+?)\s*`([^`]*)`/;
+const DEFAULT_START_RE = /^\s*(?:var\s+)?(\w*[dD]efault\w*)\s*(?::=|=)\s*&?(?:\w+\.)?(\w+)\{\s*$/;
+const RETURN_LITERAL_RE = /^\s*return\s+&?(?:\w+\.)?(\w+)\{\s*$/;
+const NESTED_LITERAL_RE = /^\s*(\w+):\s*&?(?:\w+\.)?(\w+)\{\s*$/;
+const LITERAL_FIELD_RE = /^\s*(\w+):\s*(.+?),?\s*(?:\/\/.*)?$/;
+const ADJUST_RE = /[Aa]djust\w*\(\s*&\w+(?:\.\w+)*\.(\w+),\s*([^)]+?)\s*\)/;
+const MAX_DOC_CHARS = 300;
+const MAX_CACHED_CATALOGS = 16;
+
+// Per repo file list (working tree HEAD or variant commit).
+const catalogs = new Map<string, Promise<ConfigItem[]>>();
+
+function goString(literal: string): string | undefined {
+  if (literal.startsWith("`") && literal.endsWith("`")) return literal.slice(1, -1);
+  if (!literal.startsWith('"') || !literal.endsWith('"')) return undefined;
+  try {
+    return JSON.parse(literal) as string;
+  } catch {
+    return literal.slice(1, -1);
+  }
+}
+
+// `"10m0s"` → 10m0s; `DefTiDBGCLifetime` → its constant; `strconv.Itoa(DefX)` / `BoolToOnOff(DefX)` → the
+// inner value (ON/OFF for bools). Anything else is kept as written.
+function resolveValue(expr: string, consts: Map<string, string>, depth = 0): string {
+  const e = expr.trim().replace(/,$/, "");
+  const str = goString(e);
+  if (str !== undefined) return str;
+  if (depth >= 4) return e;
+
+  const wrapped = /^(?:strconv\.(?:Itoa|FormatInt|FormatUint|FormatFloat|FormatBool)|fmt\.Sprint|BoolToOnOff|int64|uint64|uint|int)\(\s*([\w.]+)\s*(?:,[^)]*)?\)$/.exec(e);
+  if (wrapped) {
+    const inner = resolveValue(wrapped[1]!, consts, depth + 1);
+    if (e.startsWith("BoolToOnOff")) return inner === "true" ? "ON" : inner === "false" ? "OFF" : inner;
+    return inner;
+  }
+  if (e === "On" || e === "Off") return e.toUpperCase();
+  const local = e.includes(".") ? e.slice(e.lastIndexOf(".") + 1) : e;
+  const value = /^[A-Za-z_]\w*$/.test(local) ? consts.get(local) : undefined;
+  return value !== undefined ? resolveValue(value, consts, depth + 1) : e;
+}
+
+// Top-level `Key: value` pairs of a struct literal body, nested literals and calls kept whole.
+function literalFields(body: string): Map<string, string> {
+  const out = new Map<string, string>();
+  let depth = 0;
+  let inString: string | undefined;
+  let start = 0;
+  const flush = (end: number) => {
+    const part = body.slice(start, end).trim();
+    const m = /^(\w+)\s*:\s*([\s\S]+)$/.exec(part);
+    if (m) out.set(m[1]!, m[2]!.trim());
+  };
+  for (let i = 0; i < body.length; i += 1) {
+    const ch = body[i]!;
+    if (inString) {
+      if (ch === "\\" && inString === '"') i += 1;
+      else if (ch === inString) inString = undefined;
+    } else if (ch === '"' || ch === "`") {
+      inString = ch;
+    } else if ("({[".includes(ch)) {
+      depth += 1;
+    } else if (")}]".includes(ch)) {
+      depth -= 1;
+    } else if (ch === "," && depth === 0) {
+      flush(i);
+      start = i + 1;
+    }
+  }
+  flush(body.length);
+  return out;
+}
+
+function formatScope(raw: string | undefined): string {
+  if (!raw) return "";
+  return raw
+    .split("|")
+    .map((s) => s.trim().replace(/^(?:vardef\.|variable\.)?Scope/, "").toUpperCase())
+    .filter(Boolean)
+    .join("|");
+}
+
+/**
+ * `{Scope: ScopeGlobal, Name: TiDBGCLifetime, Value: "10m0s", Type: TypeDuration, ...}` entries of
+ * the sysvar tables; names and defaults are resolved through the package's constants.
+ */
+function parseSysvars(files: Array<{ filePath: string; text: string }>, consts: Map<string, string>): ConfigItem[] {
+  const out: ConfigItem[] = [];
+  for (const { filePath, text } of files) {
+    const lines = text.split(/\r?\n/g);
+    for (let i = 0; i < lines.length; i += 1) {
+      const line = lines[i]!;
+      const open = line.indexOf("{");
+      if (open < 0 || !/\bName:\s*/.test(line.slice(open)) || !/\b(?:Scope|Value):/.test(lines.slice(i, i + 8).join("\n"))) continue;
+
+      // The literal runs to its closing brace; callbacks inside can span many lines.
+      let body = line.slice(open + 1);
+      let depth = 1 + (body.match(/\{/g)?.length ?? 0) - (body.match(/\}/g)?.length ?? 0);
+      let j = i;
+      while (depth > 0 && j + 1 < lines.length && j - i < 200) {
+        j += 1;
+        body += `\n${lines[j]}`;
+        depth += (lines[j]!.match(/\{/g)?.length ?? 0) - (lines[j]!.match(/\}/g)?.length ?? 0);
+      }
+      const fields = literalFields(body.slice(0, body.lastIndexOf("}") >= 0 && depth <= 0 ? body.lastIndexOf("}") : body.length));
+      const nameExpr = fields.get("Name");
+      if (!nameExpr) continue;
+      const name = resolveValue(nameExpr, consts);
+      if (!/^[a-z][a-z0-9_]*$/.test(name)) continue;
+
+      const valueExpr = fields.get("Value");
+      const scope = formatScope(fields.get("Scope"));
+      const type = fields.get("Type")?.replace(/^(?:vardef\.|variable\.)/, "");
+      out.push({
+        kind: "sysvar",
+        name,
+        defaultValue: valueExpr ? resolveValue(valueExpr, consts) : undefined,
+        detail: [scope, type].filter(Boolean).join(", "),
+        filePath,
+        line: i + 1
+      });
+    }
+  }
+  return out;
+}
+
+type StructField = { type: string; field: string; goType: string; tag: string; doc?: string; filePath: string; line: number };
+
+function tagName(tag: string): string | undefined {
+  for (const key of ["toml", "yaml"]) {
+    const m = new RegExp(`\\b${key}:"([^",]*)`).exec(tag);
+    if (m && m[1] && m[1] !== "-") return m[1];
+  }
+  return undefined;
+}
+
+/**
+ * Config items of one Go package: struct fields with `toml:"..."` (else `yaml:"..."`) tags, their
+ * dotted path through parent structs, and defaults from `default...` struct literals (or
+ * `adjust...(&c.Field, default)` calls, as in pd).
+ */
+function parseConfigPackage(files: Array<{ filePath: string; text: string }>, consts: Map<string, string>): ConfigItem[] {
+  const fields: StructField[] = [];
+  const defaults = new Map<string, string>();
+  const adjusted = new Map<string, string>();
+
+  for (const { filePath, text } of files) {
+    const lines = text.split(/\r?\n/g);
+    let structType: string | undefined;
+    const literalTypes: string[] = [];
+    for (let i = 0; i < lines.length; i += 1) {
+      const line = lines[i]!;
+      const start = STRUCT_START_RE.exec(line);
+      if (start) {
+        structType = start[1];
+        continue;
+      }
+      if (structType) {
+        if (/^\}/.test(line)) {
+          structType = undefined;
+          continue;
+        }
+        const f = FIELD_RE.exec(line);
+        const tag = f ? tagName(f[3]!) : undefined;
+        if (f && tag) {
+          const doc: string[] = [];
+          for (let k = i - 1; k >= 0 && /^\s*\/\//.test(lines[k]!); k -= 1) doc.unshift(lines[k]!.trim().replace(/^\/\/\s?/, ""));
+          fields.push({
+            type: structType,
+            field: f[1]!,
+            goType: f[2]!.trim(),
+            tag,
+            doc: doc.join(" ") || undefined,
+            filePath,
+            line: i + 1
+          });
+        }
+        continue;
+      }
+
+      if (literalTypes.length === 0) {
+        const top = DEFAULT_START_RE.exec(line) ?? RETURN_LITERAL_RE.exec(line);
+        if (top) literalTypes.push(top[2] ?? top[1]!);
+        const adjust = ADJUST_RE.exec(line);
+        if (adjust && !adjusted.has(adjust[1]!)) adjusted.set(adjust[1]!, adjust[2]!);
+        continue;
+      }
+      const nested = NESTED_LITERAL_RE.exec(line);
+      if (nested) {
+        literalTypes.push(nested[2]!);
+        continue;
+      }
+      // Multi-line slice/map values: skip to their closing brace.
+      if (/\{\s*$/.test(line)) {
+        literalTypes.push("");
+        continue;
+      }
+      if (/^\s*\}[,)]*\s*$/.test(line)) {
+        literalTypes.pop();
+        continue;
+      }
+      const kv = LITERAL_FIELD_RE.exec(line);
+      const owner = literalTypes[literalTypes.length - 1]!;
+      if (kv && owner && !defaults.has(`${owner}.${kv[1]}`)) defaults.set(`${owner}.${kv[1]}`, kv[2]!);
+    }
+  }
+
+  // Dotted path: the tags of the fields that hold each struct type, up from the item.
+  const parent = new Map<string, StructField>();
+  for (const f of fields) {
+    const t = f.goType.replace(/^[*[\]]+/, "").replace(/^\w+\./, "");
+    if (!parent.has(t) && fields.some((g) => g.type === t)) parent.set(t, f);
+  }
+  const dottedPath = (f: StructField) => {
+    const parts = [f.tag];
+    let t = f.type;
+    for (let depth = 0; depth < 5; depth += 1) {
+      const p = parent.get(t);
+      if (!p || p === f) break;
+      parts.unshift(p.tag);
+      t = p.type;
+    }
+    return parts.join(".");
+  };
+
+  return fields.map((f) => {
+    const raw = defaults.get(`${f.type}.${f.field}`) ?? adjusted.get(f.field);
+    return {
+      kind: "config" as const,
+      name: dottedPath(f),
+      defaultValue: raw ? resolveValue(raw, consts) : undefined,
+      detail: `${f.type}.${f.field} ${f.goType}`,
+      doc: f.doc && f.doc.length > MAX_DOC_CHARS ? `${f.doc.slice(0, MAX_DOC_CHARS)}…` : f.doc,
+      filePath: f.filePath,
+      line: f.line
+    };
+  });
+}
+
+// `Name = "value"` / `DefX = 10` constants (and vars) of a package.
+function packageConsts(files: Array<{ text: string }>): Map<string, string> {
+  const consts = new Map<string, string>();
+  for (const { text } of files) {
+    for (const line of text.split(/\r?\n/g)) {
+      const m = CONST_RE.exec(line);
+      if (m && !consts.has(m[1]!) && /^(?:"|`|-?\d|true\b|false\b|[A-Za-z_][\w.]*$|[\w.]+\()/.test(m[2]!)) consts.set(m[1]!, m[2]!);
+    }
+  }
+  return consts;
+}
+
+async function loadCatalog(repo: RepoWithName, opts: { maxFiles: number; maxFileBytes: number }) {
+  const index = await getRepoIndex(repo.repoPath, opts.maxFiles, repo.pathFilter, repo.ref);
+  const cacheKey = `${index.reader.key}\0${index.fingerprint.head ?? index.builtAtMs}`;
+  let items = catalogs.get(cacheKey);
+  if (!items) {
+    items = (async () => {
+      const goFiles = await listRepoFilesMatching(index, {
+        repoPath: repo.repoPath,
+        ref: repo.ref,
+        filter: repo.pathFilter,
+        pathspecs: CATALOG_PATHSPECS,
+        match: (f) => f.endsWith(".go") && !isTestPath(f) && !f.endsWith("_test.go") && (SYSVAR_FILE_RE.test(f) || CONFIG_FILE_RE.test(f))
+      });
+      const sysvarFiles = goFiles.filter((f) => SYSVAR_FILE_RE.test(f));
+      const configFiles = goFiles.filter((f) => CONFIG_FILE_RE.test(f) && !SYSVAR_FILE_RE.test(f));
+      const texts = await index.reader.read([...sysvarFiles, ...configFiles], opts.maxFileBytes);
+
+      const withText = (files: string[]) =>
+        files.flatMap((filePath) => {
+          const text = texts.get(filePath)?.text;
+          return text ? [{ filePath, text }] : [];
+        });
+
+      // The sysvar packages share their constants (`vardef` defines what `variable` uses).
+      const sysvars = withText(sysvarFiles);
+      const out: ConfigItem[] = parseSysvars(sysvars, packageConsts(sysvars));
+      const byDir = new Map<string, Array<{ filePath: string; text: string }>>();
+      for (const f of withText(configFiles)) {
+        const dir = path.posix.dirname(f.filePath);
+        byDir.set(dir, [...(byDir.get(dir) ?? []), f]);
+      }
+      for (const files of byDir.values()) out.push(...parseConfigPackage(files, packageConsts(files)));
+      logger.info({ repo: repo.repoLabel, items: out.length }, "Built config item catalog");
+      return out;
+    })();
+    catalogs.set(cacheKey, items);
+    items.catch(() => catalogs.delete(cacheKey));
+    while (catalogs.size > MAX_CACHED_CATALOGS) catalogs.delete(catalogs.keys().next().value!);
+  }
+  return { items: await items, commit: index.fingerprint.head };
+}
+
+function matches(item: ConfigItem, nameLower: string): boolean {
+  const itemLower = item.name.toLowerCase();
+  if (itemLower === nameLower) return true;
+  // A leaf name (`per-table-memory-quota`) or a shorter dotted suffix matches the full path.
+  return item.kind === "config" && itemLower.endsWith(`.${nameLower}`);
+}
+
+function cell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\s+/g, " ").trim() || "-";
+}
+
+/**
+ * Looks up config items and system variables by name in every given repo variant (TiDB sysvar
+ * tables, `toml`-tagged config structs of tidb/pd/ticdc/dm) and renders one compact table per
+ * name: variant, definition, default and citation, with the variants the question asked about
+ * marked. Names found nowhere are left out.
+ */
+export async function lookupConfigItems(opts: {
+  repos: RepoTarget[];
+  // Ids of the variants selected for the question (`selectReposForSearch`).
+  askedRepoIds: string[];
+  names: string[];
+  maxFiles: number;
+  maxFileBytes: number;
+  maxContextChars: number;
+  signal?: AbortSignal;
+}): Promise<ConfigLookupResult> {
+  if (opts.names.length === 0) return { contextText: "", sources: [] };
+
+  const normalized = normalizeRepos(opts.repos);
+  const catalogsByRepo: Array<{ repo: RepoWithName; asked: boolean; items: ConfigItem[] }> = [];
+  for (const repo of normalized) {
+    opts.signal?.throwIfAborted();
+    const target = opts.repos.find((r) => path.resolve(r.path) === repo.repoPath && (r.ref ?? "") === (repo.ref ?? ""));
+    try {
+      const { items, commit } = await loadCatalog(repo, opts);
+      const asked = target ? opts.askedRepoIds.includes(target.id) : false;
+      catalogsByRepo.push({ repo: await withPermalinkBase(repo, commit), asked, items });
+    } catch (error) {
+      logger.warn({ err: error, repo: repo.repoLabel }, "Config item catalog unavailable");
+    }
+  }
+
+  const blocks: string[] = [];
+  const sources: string[] = [];
+  for (const name of opts.names) {
+    const nameLower = name.toLowerCase();
+    const rows: string[] = [];
+    const docs: string[] = [];
+    // A variant without the item only gets a row when another variant of the same repo has it.
+    const definedIn = new Set(
+      catalogsByRepo.filter((c) => c.items.some((item) => matches(item, nameLower))).map((c) => c.repo.repoPath)
+    );
+    if (definedIn.size === 0) continue;
+    for (const { repo, asked, items } of catalogsByRepo) {
+      if (!definedIn.has(repo.repoPath)) continue;
+      const matched = items.filter((item) => matches(item, nameLower));
+      const variant = `${repo.repoLabel}${asked ? " (asked)" : ""}`;
+      if (matched.length === 0) {
+        rows.push(`| ${cell(variant)} | not defined | - | - |`);
+        continue;
+      }
+      for (const item of matched.slice(0, 3)) {
+        const source = repoSource(repo, item.filePath, item.line);
+        const what = item.kind === "sysvar" ? `sysvar ${item.name}${item.detail ? ` (${item.detail})` : ""}` : `config ${item.name} (${item.detail})`;
+        rows.push(`| ${cell(variant)} | ${cell(what)} | ${cell(item.defaultValue ?? "?")} | File: ${source} |`);
+        sources.push(source);
+        if (item.doc && !docs.includes(item.doc)) docs.push(item.doc);
+      }
+    }
+    blocks.push(
+      [
+        `\`${name}\`:`,
+        "| Variant | Definition | Default | Source |",
+        "| --- | --- | --- | --- |",
+        ...rows,
+        ...docs.slice(0, 2).map((d) => `Doc: ${d}`)
+      ].join("\n")
+    );
+  }
+  if (blocks.length === 0) return { contextText: "", sources: [] };
+
+  let contextText = `Config items and system variables (default per variant):\n\n${blocks.join("\n\n")}`;
+  if (contextText.length > opts.maxContextChars) {
+    contextText = `${contextText.slice(0, Math.max(0, opts.maxContextChars - 20))}\n\n…(truncated)`;
+  }
+  return { contextText, sources };
+}
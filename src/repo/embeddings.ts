@@ -0,0 +1,64 @@
+import OpenAI from "openai";
+
+import type { AppConfig } from "../config.js";
+
+/**
+ * OpenAI-compatible embeddings endpoint used for semantic repo search. Plain data (no client
+ * instance) so it can travel with a search payload to the worker pool.
+ */
+export type RepoEmbeddingOptions = {
+  model: string;
+  apiKey: string;
+  baseUrl?: string;
+  // Per-repo cap on embedded chunks (bounds the API spend and the vector store size).
+  maxChunks: number;
+};
+
+// Inputs per embeddings request.
+const EMBED_BATCH = 64;
+
+// Undefined (semantic search off) unless `[openai] embedding_model` is set and an API key is available.
+export function repoEmbeddingOptions(config: AppConfig): RepoEmbeddingOptions | undefined {
+  if (!config.openaiEmbeddingModel || !config.openaiApiKey || config.repoEmbeddingMaxChunks <= 0) return undefined;
+  const baseUrl = config.openaiEmbeddingBaseUrl ?? config.openaiBaseUrl;
+  return {
+    model: config.openaiEmbeddingModel,
+    apiKey: config.openaiApiKey,
+    ...(baseUrl ? { baseUrl } : {}),
+    maxChunks: config.repoEmbeddingMaxChunks
+  };
+}
+
+// Unit-length vectors, so cosine similarity is a dot product.
+function normalize(values: number[]): Float32Array {
+  const out = Float32Array.from(values);
+  let norm = 0;
+  for (const v of out) norm += v * v;
+  norm = Math.sqrt(norm);
+  if (norm > 0) for (let i = 0; i < out.length; i += 1) out[i]! /= norm;
+  return out;
+}
+
+export async function embedTexts(
+  opts: RepoEmbeddingOptions,
+  texts: string[],
+  signal?: AbortSignal
+): Promise<Float32Array[]> {
+  const client = new OpenAI({ apiKey: opts.apiKey, ...(opts.baseUrl ? { baseURL: opts.baseUrl } : {}) });
+
+  const out: Float32Array[] = [];
+  for (let i = 0; i < texts.length; i += EMBED_BATCH) {
+    const batch = texts.slice(i, i + EMBED_BATCH);
+    const res = await client.embeddings.create({ model: opts.model, input: batch }, signal ? { signal } : undefined);
+    const ordered = [...res.data].sort((a, b) => a.index - b.index);
+    if (ordered.length !== batch.length) throw new Error(`Embeddings endpoint returned ${ordered.length} of ${batch.length} vectors`);
+    for (const d of ordered) out.push(normalize(d.embedding));
+  }
+  return out;
+}
+
+export function dotProduct(a: Float32Array, b: Float32Array, bOffset = 0): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i += 1) sum += a[i]! * b[bOffset + i]!;
+  return sum;
+}
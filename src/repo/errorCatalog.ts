@@ -0,0 +1,252 @@
+import path from "node:path";
+
+import type { RepoTarget } from "../config.js";
+import { logger } from "../logger.js";
+import { normalizeRepos, repoSource, withPermalinkBase, type RepoWithName } from "./multiSearchLocal.js";
+import { getRepoIndex, listRepoFilesMatching } from "./search.js";
+
+export type ErrorCatalogResult = {
+  contextText: string;
+  sources: string[];
+  // Go names of the matched errors (`ErrInfoSchemaExpired`), for finding where they are raised.
+  goNames: string[];
+};
+
+type CatalogEntry = {
+  // `kv:8027`, `PD:client:ErrClientGetTSO`; the Go name for errno constants.
+  key: string;
+  code?: number;
+  goName?: string;
+  message?: string;
+  description?: string;
+  workaround?: string;
+  filePath: string;
+  line: number;
+  // errno: where the message is defined (`errname.go`), next to the code (`errcode.go`).
+  messageAt?: { filePath: string; line: number };
+};
+
+// TiDB's errno/mysql packages: `ErrInfoSchemaExpired = 8027` and `ErrInfoSchemaExpired: mysql.Message("...", nil)`.
+const ERRNO_FILE_RE = /(?:^|\/)(?:errno|mysql)\/err(code|name)\.go$/;
+// The catalog files, listed past the file index's `maxFiles` cap.
+const CATALOG_PATHSPECS = [":(glob)**/errors.toml", ":(glob)**/errno/err*.go", ":(glob)**/mysql/err*.go"];
+const ERRNO_CODE_RE = /^\s*(Err\w+)\s*=\s*(\d+)\b/;
+const ERRNO_NAME_RE = /^\s*(Err\w+)\s*:\s*(?:(?:\w+\.)?Message\(\s*)?("(?:[^"\\]|\\.)*")/;
+const TOML_SECTION_RE = /^\[\s*(?:"([^"]+)"|([\w.:-]+))\s*\]\s*$/;
+const TOML_KEY_RE = /^(error|description|workaround)\s*=\s*(.*)$/;
+// Per field; descriptions and workarounds can run long.
+const MAX_FIELD_CHARS = 600;
+const MAX_CACHED_CATALOGS = 16;
+
+// Per repo file list (working tree HEAD or variant commit).
+const catalogs = new Map<string, Promise<CatalogEntry[]>>();
+
+function goString(literal: string): string {
+  try {
+    return JSON.parse(literal) as string;
+  } catch {
+    return literal.slice(1, -1);
+  }
+}
+
+// `kv:8027` → 8027, `PD:client:ErrClientGetTSO` → ErrClientGetTSO.
+function keyParts(key: string): { code?: number; goName?: string } {
+  const last = key.split(":").pop() ?? "";
+  if (/^\d+$/.test(last)) return { code: Number.parseInt(last, 10) };
+  return /^Err/.test(last) ? { goName: last } : {};
+}
+
+/**
+ * Entries of an `errors.toml` as generated by pingcap/errors (`["kv:8027"]` sections with
+ * `error`, `description` and `workaround` strings, multi-line ones in `'''`).
+ */
+function parseErrorsToml(filePath: string, text: string): CatalogEntry[] {
+  const lines = text.split(/\r?\n/g);
+  const out: CatalogEntry[] = [];
+  let current: CatalogEntry | undefined;
+  for (let i = 0; i < lines.length; i += 1) {
+    const line = lines[i]!.trim();
+    const section = TOML_SECTION_RE.exec(line);
+    if (section) {
+      const key = section[1] ?? section[2]!;
+      current = { key, ...keyParts(key), filePath, line: i + 1 };
+      out.push(current);
+      continue;
+    }
+    const kv = current ? TOML_KEY_RE.exec(line) : undefined;
+    if (!current || !kv) continue;
+
+    let value = kv[2]!.trim();
+    const fence = value.startsWith("'''") ? "'''" : value.startsWith('"""') ? '"""' : undefined;
+    if (fence) {
+      const parts = [value.slice(3)];
+      while (!parts[parts.length - 1]!.includes(fence) && i + 1 < lines.length) parts.push(lines[++i]!);
+      value = parts.join("\n");
+      value = value.slice(0, value.lastIndexOf(fence));
+    } else if (value.startsWith('"')) {
+      value = goString(value);
+    } else if (value.startsWith("'")) {
+      value = value.slice(1, value.lastIndexOf("'"));
+    }
+    const field = kv[1] === "error" ? "message" : (kv[1] as "description" | "workaround");
+    current[field] = value.trim();
+  }
+  return out;
+}
+
+// errcode.go + errname.go of one package, joined by constant name.
+function parseErrno(files: Array<{ filePath: string; kind: string; text: string }>): CatalogEntry[] {
+  const byName = new Map<string, CatalogEntry>();
+  const messages = new Map<string, { message: string; filePath: string; line: number }>();
+  for (const f of files) {
+    f.text.split(/\r?\n/g).forEach((line, i) => {
+      if (f.kind === "code") {
+        const m = ERRNO_CODE_RE.exec(line);
+        if (m && !byName.has(m[1]!)) {
+          byName.set(m[1]!, { key: m[1]!, goName: m[1]!, code: Number.parseInt(m[2]!, 10), filePath: f.filePath, line: i + 1 });
+        }
+      } else {
+        const m = ERRNO_NAME_RE.exec(line);
+        if (m && !messages.has(m[1]!)) messages.set(m[1]!, { message: goString(m[2]!), filePath: f.filePath, line: i + 1 });
+      }
+    });
+  }
+  for (const [name, entry] of byName) {
+    const msg = messages.get(name);
+    if (msg) byName.set(name, { ...entry, message: msg.message, messageAt: { filePath: msg.filePath, line: msg.line } });
+  }
+  return Array.from(byName.values());
+}
+
+async function loadCatalog(repo: RepoWithName, opts: { maxFiles: number; maxFileBytes: number }) {
+  const index = await getRepoIndex(repo.repoPath, opts.maxFiles, repo.pathFilter, repo.ref);
+  const cacheKey = `${index.reader.key}\0${index.fingerprint.head ?? index.builtAtMs}`;
+  let entries = catalogs.get(cacheKey);
+  if (!entries) {
+    entries = (async () => {
+      const files = await listRepoFilesMatching(index, {
+        repoPath: repo.repoPath,
+        ref: repo.ref,
+        filter: repo.pathFilter,
+        pathspecs: CATALOG_PATHSPECS,
+        match: (f) => path.posix.basename(f) === "errors.toml" || ERRNO_FILE_RE.test(f)
+      });
+      const tomlFiles = files.filter((f) => path.posix.basename(f) === "errors.toml");
+      const errnoFiles = files.filter((f) => ERRNO_FILE_RE.test(f));
+      const texts = await index.reader.read([...tomlFiles, ...errnoFiles], opts.maxFileBytes);
+
+      const out: CatalogEntry[] = [];
+      for (const f of tomlFiles) {
+        const text = texts.get(f)?.text;
+        if (text) out.push(...parseErrorsToml(f, text));
+      }
+      const byDir = new Map<string, Array<{ filePath: string; kind: string; text: string }>>();
+      for (const f of errnoFiles) {
+        const text = texts.get(f)?.text;
+        const dir = path.posix.dirname(f);
+        if (text) byDir.set(dir, [...(byDir.get(dir) ?? []), { filePath: f, kind: ERRNO_FILE_RE.exec(f)![1]!, text }]);
+      }
+      for (const files of byDir.values()) out.push(...parseErrno(files));
+      logger.info({ repo: repo.repoLabel, entries: out.length, files: tomlFiles.length + errnoFiles.length }, "Built error code catalog");
+      return out;
+    })();
+    catalogs.set(cacheKey, entries);
+    entries.catch(() => catalogs.delete(cacheKey));
+    while (catalogs.size > MAX_CACHED_CATALOGS) catalogs.delete(catalogs.keys().next().value!);
+  }
+  return { entries: await entries, commit: index.fingerprint.head };
+}
+
+// Entries for one reference: a code, an RFC name, or a Go name (plus the entries sharing its errno code).
+function matchEntries(entries: CatalogEntry[], ref: number | string): CatalogEntry[] {
+  if (typeof ref === "number") return entries.filter((e) => e.code === ref);
+  const lower = ref.toLowerCase();
+  if (ref.includes(":")) {
+    const { code } = keyParts(ref);
+    return entries.filter((e) => e.key.toLowerCase() === lower || (code !== undefined && e.code === code && !e.key.includes(":")));
+  }
+  const direct = entries.filter((e) => e.goName === ref);
+  const codes = new Set(direct.flatMap((e) => (e.code !== undefined ? [e.code] : [])));
+  return entries.filter((e) => direct.includes(e) || (e.code !== undefined && codes.has(e.code)));
+}
+
+function clip(text: string): string {
+  return text.length > MAX_FIELD_CHARS ? `${text.slice(0, MAX_FIELD_CHARS)}…` : text;
+}
+
+/**
+ * Looks up error codes and names in the error catalogs of the selected repos and variants: the
+ * `errors.toml` files (tidb, pd, ticdc, tiflow) and tidb's `errno` constants with their
+ * messages. Each match is rendered with its message, description and workaround and cited by
+ * `path:line`; identical entries of several variants are shown once.
+ */
+export async function lookupErrorCodes(opts: {
+  repos: RepoTarget[];
+  codes: number[];
+  names: string[];
+  maxFiles: number;
+  maxFileBytes: number;
+  maxContextChars: number;
+  signal?: AbortSignal;
+}): Promise<ErrorCatalogResult> {
+  const refs: Array<number | string> = [...opts.names, ...opts.codes];
+  if (refs.length === 0) return { contextText: "", sources: [], goNames: [] };
+
+  const catalogsByRepo: Array<{ repo: RepoWithName; entries: CatalogEntry[] }> = [];
+  for (const repo of normalizeRepos(opts.repos)) {
+    opts.signal?.throwIfAborted();
+    try {
+      const { entries, commit } = await loadCatalog(repo, opts);
+      if (entries.length > 0) catalogsByRepo.push({ repo: await withPermalinkBase(repo, commit), entries });
+    } catch (error) {
+      logger.warn({ err: error, repo: repo.repoLabel }, "Error code catalog unavailable");
+    }
+  }
+  if (catalogsByRepo.length === 0) return { contextText: "", sources: [], goNames: [] };
+
+  const blocks: string[] = [];
+  const sources: string[] = [];
+  const goNames: string[] = [];
+  for (const ref of refs) {
+    // Same entry text in several variants: one item listing every variant.
+    const items = new Map<string, { entry: CatalogEntry; repo: RepoWithName; alsoIn: string[] }>();
+    for (const { repo, entries } of catalogsByRepo) {
+      for (const entry of matchEntries(entries, ref)) {
+        const sig = JSON.stringify([entry.key, entry.code, entry.message, entry.description, entry.workaround]);
+        const existing = items.get(sig);
+        if (existing) existing.alsoIn.push(repo.repoLabel);
+        else items.set(sig, { entry, repo, alsoIn: [] });
+      }
+    }
+
+    const title = typeof ref === "number" ? `Error ${ref}` : ref;
+    if (items.size === 0) {
+      blocks.push(`${title}: not found in the error catalogs of the searched repos.`);
+      continue;
+    }
+
+    const lines = [`${title}:`];
+    for (const { entry, repo, alsoIn } of items.values()) {
+      const source = repoSource(repo, entry.filePath, entry.line);
+      const code = entry.code !== undefined && !entry.key.endsWith(`:${entry.code}`) ? ` = ${entry.code}` : "";
+      const also = alsoIn.length > 0 ? `; also in ${alsoIn.join(", ")}` : "";
+      lines.push(`- ${entry.key}${code} (${repo.repoLabel}${also}) File: ${source}`);
+      sources.push(source);
+      if (entry.message) {
+        const messageSource = entry.messageAt ? repoSource(repo, entry.messageAt.filePath, entry.messageAt.line) : undefined;
+        lines.push(`  Message: ${clip(entry.message)}${messageSource ? ` (File: ${messageSource})` : ""}`);
+        if (messageSource) sources.push(messageSource);
+      }
+      if (entry.description) lines.push(`  Description: ${clip(entry.description)}`);
+      if (entry.workaround) lines.push(`  Workaround: ${clip(entry.workaround)}`);
+      if (entry.goName && !goNames.includes(entry.goName)) goNames.push(entry.goName);
+    }
+    blocks.push(lines.join("\n"));
+  }
+
+  let contextText = `Error code catalog:\n\n${blocks.join("\n\n")}`;
+  if (contextText.length > opts.maxContextChars) {
+    contextText = `${contextText.slice(0, Math.max(0, opts.maxContextChars - 20))}\n\n…(truncated)`;
+  }
+  return { contextText, sources, goNames };
+}
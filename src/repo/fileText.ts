@@ -0,0 +1,52 @@
+import fs from "node:fs";
+
+export type RepoTextFile = {
+  text: string;
+  size: number;
+  mtimeMs: number;
+};
+
+export function isProbablyBinary(buf: Buffer): boolean {
+  if (buf.length === 0) return false;
+  let suspicious = 0;
+  const sample = buf.subarray(0, Math.min(buf.length, 8000));
+  for (const byte of sample) {
+    if (byte === 0) return true;
+    // Allow common whitespace and UTF-8 bytes; count other control chars.
+    if (byte < 7 || (byte > 14 && byte < 32)) suspicious += 1;
+  }
+  return suspicious / sample.length > 0.05;
+}
+
+export function statRepoFile(absPath: string): fs.Stats | undefined {
+  try {
+    const stat = fs.statSync(absPath);
+    return stat.isFile() ? stat : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Shared size/binary policy for working-tree files and git blobs.
+export function decodeRepoText(buf: Buffer, maxFileBytes: number): string | undefined {
+  if (buf.length <= 0 || buf.length > maxFileBytes) return undefined;
+  if (isProbablyBinary(buf)) return undefined;
+  return buf.toString("utf8");
+}
+
+export function readRepoTextFile(absPath: string, maxFileBytes: number, stat?: fs.Stats): RepoTextFile | undefined {
+  const st = stat ?? statRepoFile(absPath);
+  if (!st) return undefined;
+  if (st.size <= 0 || st.size > maxFileBytes) return undefined;
+
+  let buf: Buffer;
+  try {
+    buf = fs.readFileSync(absPath);
+  } catch {
+    return undefined;
+  }
+  const text = decodeRepoText(buf, maxFileBytes);
+  if (text === undefined) return undefined;
+
+  return { text, size: st.size, mtimeMs: st.mtimeMs };
+}
@@ -0,0 +1,135 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+import process from "node:process";
+
+export function isGitRepo(repoPath: string): boolean {
+  return fs.existsSync(path.join(repoPath, ".git"));
+}
+
+export type GitRunOptions = { timeoutMs?: number; signal?: AbortSignal };
+
+export type GitChildListener = { spawned: (pid: number) => void; exited: (pid: number) => void };
+
+let childListener: GitChildListener | undefined;
+
+/**
+ * Reports every git process this thread spawns, and its exit. A search worker forwards them to
+ * the pool, which kills the ones still running when it terminates the worker: terminating a
+ * thread leaves its child processes alive.
+ */
+export function watchGitChildren(listener: GitChildListener | undefined): void {
+  childListener = listener;
+}
+
+function trackChild(child: ChildProcess): void {
+  const pid = child.pid;
+  const listener = childListener;
+  if (pid === undefined || !listener) return;
+  listener.spawned(pid);
+  child.once("close", () => listener.exited(pid));
+}
+
+// Runs `git -C <repoPath> ...args` and resolves stdout, or undefined on spawn failure / non-zero exit / timeout / abort.
+export function runGit(repoPath: string, args: string[], opts: GitRunOptions = {}): Promise<Buffer | undefined> {
+  return new Promise((resolve) => {
+    const child = spawn("git", ["-C", repoPath, ...args], {
+      stdio: ["ignore", "pipe", "pipe"],
+      // Never block on a credential prompt (background fetches have no terminal).
+      env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
+      ...(opts.timeoutMs && opts.timeoutMs > 0 ? { timeout: opts.timeoutMs } : {}),
+      ...(opts.signal ? { signal: opts.signal } : {})
+    });
+    trackChild(child);
+    const chunks: Buffer[] = [];
+    child.stdout.on("data", (b) => chunks.push(Buffer.from(b)));
+    child.on("close", (code) => {
+      if (code !== 0) return resolve(undefined);
+      resolve(Buffer.concat(chunks));
+    });
+    child.on("error", () => resolve(undefined));
+  });
+}
+
+export async function resolveGitHead(repoPath: string): Promise<string | undefined> {
+  if (!isGitRepo(repoPath)) return undefined;
+  const out = await runGit(repoPath, ["rev-parse", "HEAD"]);
+  const sha = out?.toString("utf8").trim();
+  return sha && /^[0-9a-f]{40,64}$/.test(sha) ? sha : undefined;
+}
+
+export function gitIndexMtimeMs(repoPath: string): number | undefined {
+  try {
+    return fs.statSync(path.join(repoPath, ".git", "index")).mtimeMs;
+  } catch {
+    return undefined;
+  }
+}
+
+export function shortSha(sha: string): string {
+  return sha.slice(0, 12);
+}
+
+// Resolves a branch/tag/sha to a commit, also trying `origin/<ref>` for branches that only exist remotely.
+export async function resolveGitRef(repoPath: string, ref: string): Promise<string | undefined> {
+  for (const candidate of [ref, `origin/${ref}`]) {
+    const out = await runGit(repoPath, ["rev-parse", "--verify", "--quiet", `${candidate}^{commit}`]);
+    const sha = out?.toString("utf8").trim();
+    if (sha && /^[0-9a-f]{40,64}$/.test(sha)) return sha;
+  }
+  return undefined;
+}
+
+export type GitTreeEntry = {
+  oid: string;
+  size: number;
+};
+
+// Lists all blobs reachable from `commit` (`git ls-tree -r -l`), keyed by repo-relative path.
+export async function listGitTree(repoPath: string, commit: string): Promise<Map<string, GitTreeEntry> | undefined> {
+  const stdout = await runGit(repoPath, ["ls-tree", "-r", "-l", "-z", commit]);
+  if (!stdout) return undefined;
+
+  const out = new Map<string, GitTreeEntry>();
+  for (const record of stdout.toString("utf8").split("\0")) {
+    // "<mode> blob <oid> <size>\t<path>"; submodules ("commit") and symlinks are skipped.
+    const m = /^(\d+) blob ([0-9a-f]+)\s+(\d+)\t(.+)$/s.exec(record);
+    if (!m || m[1] === "120000") continue;
+    out.set(m[4]!, { oid: m[2]!, size: Number.parseInt(m[3]!, 10) });
+  }
+  return out;
+}
+
+// Reads blobs through one `git cat-file --batch` process. Missing objects are left out of the result.
+export function readGitBlobs(repoPath: string, oids: string[]): Promise<Map<string, Buffer>> {
+  return new Promise((resolve) => {
+    const out = new Map<string, Buffer>();
+    if (oids.length === 0) return resolve(out);
+
+    const child = spawn("git", ["-C", repoPath, "cat-file", "--batch"], { stdio: ["pipe", "pipe", "ignore"] });
+    trackChild(child);
+    const chunks: Buffer[] = [];
+    child.stdout.on("data", (b) => chunks.push(Buffer.from(b)));
+    child.on("error", () => resolve(out));
+    child.on("close", () => {
+      const buf = Buffer.concat(chunks);
+      let pos = 0;
+      while (pos < buf.length) {
+        const eol = buf.indexOf(0x0a, pos);
+        if (eol === -1) break;
+        const header = buf.subarray(pos, eol).toString("utf8");
+        pos = eol + 1;
+        const m = /^([0-9a-f]+) (\w+) (\d+)$/.exec(header);
+        if (!m) continue; // "<oid> missing"
+        const size = Number.parseInt(m[3]!, 10);
+        if (m[2] === "blob") out.set(m[1]!, buf.subarray(pos, pos + size));
+        pos += size + 1;
+      }
+      resolve(out);
+    });
+    child.stdin.on("error", () => {
+      // The process may exit early; `close` still resolves with what was read.
+    });
+    child.stdin.end(`${oids.join("\n")}\n`);
+  });
+}
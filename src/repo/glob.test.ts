@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+
+import { matchesPathPattern } from "./glob.js";
+
+describe("matchesPathPattern", () => {
+  it("matches plain patterns as a path or directory at any level", () => {
+    expect(matchesPathPattern("pkg/sink/mysql.go", "pkg/sink")).toBe(true);
+    expect(matchesPathPattern("cdc/pkg/sink/mysql.go", "pkg/sink")).toBe(true);
+    expect(matchesPathPattern("pkg/sink/mysql.go", "mysql.go")).toBe(true);
+    expect(matchesPathPattern("pkg/sinkv2/mysql.go", "pkg/sink")).toBe(false);
+    expect(matchesPathPattern("./pkg\\sink\\mysql.go", "pkg/sink/")).toBe(true);
+  });
+
+  it("anchors patterns that start with a slash", () => {
+    expect(matchesPathPattern("pkg/sink/mysql.go", "/pkg")).toBe(true);
+    expect(matchesPathPattern("cdc/pkg/sink/mysql.go", "/pkg")).toBe(false);
+    expect(matchesPathPattern("docs/a.md", "/*.md")).toBe(false);
+    expect(matchesPathPattern("a.md", "/*.md")).toBe(true);
+  });
+
+  it("matches single-segment wildcards at any level", () => {
+    expect(matchesPathPattern("docs/design/a.md", "*.md")).toBe(true);
+    expect(matchesPathPattern("docs/a.mdx", "*.md")).toBe(false);
+    expect(matchesPathPattern("pkg/a_test.go", "pkg/?_test.go")).toBe(true);
+    expect(matchesPathPattern("pkg/ab_test.go", "pkg/?_test.go")).toBe(false);
+  });
+
+  it("lets ** span zero or more directories", () => {
+    expect(matchesPathPattern("owner.go", "**/owner*.go")).toBe(true);
+    expect(matchesPathPattern("cdc/owner/owner_test.go", "**/owner*.go")).toBe(true);
+    expect(matchesPathPattern("pkg/a/b/c.go", "pkg/**")).toBe(true);
+  });
+
+  it("treats a glob matching a directory as covering everything below it", () => {
+    expect(matchesPathPattern("contrib/tools/x/main.go", "contrib/*")).toBe(true);
+    expect(matchesPathPattern("pkg/contrib.go", "contrib/*")).toBe(false);
+  });
+
+  it("supports character classes and negated classes", () => {
+    expect(matchesPathPattern("v1/a.go", "v[0-9]/*.go")).toBe(true);
+    expect(matchesPathPattern("vx/a.go", "v[!0-9]/*.go")).toBe(true);
+    expect(matchesPathPattern("v1/a.go", "v[!0-9]/*.go")).toBe(false);
+  });
+
+  it("never matches an empty pattern and always matches a bare slash", () => {
+    expect(matchesPathPattern("a.go", "  ")).toBe(false);
+    expect(matchesPathPattern("a.go", "/")).toBe(true);
+  });
+});
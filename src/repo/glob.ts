@@ -0,0 +1,88 @@
+const globCache = new Map<string, RegExp>();
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function hasGlobChars(pattern: string): boolean {
+  return /[*?[]/.test(pattern);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const cached = globCache.get(pattern);
+  if (cached) return cached;
+
+  let out = "";
+  for (let i = 0; i < pattern.length; i += 1) {
+    const ch = pattern[i]!;
+    if (ch === "*") {
+      if (pattern[i + 1] === "*") {
+        // `**/` matches zero or more directories; a trailing `**` matches everything below.
+        if (pattern[i + 2] === "/") {
+          out += "(?:.*/)?";
+          i += 2;
+        } else {
+          out += ".*";
+          i += 1;
+        }
+      } else {
+        out += "[^/]*";
+      }
+    } else if (ch === "?") {
+      out += "[^/]";
+    } else if (ch === "[") {
+      const end = pattern.indexOf("]", i + 1);
+      if (end === -1) {
+        out += "\\[";
+      } else {
+        out += `[${pattern.slice(i + 1, end).replace(/^!/, "^")}]`;
+        i = end;
+      }
+    } else {
+      out += escapeRegExp(ch);
+    }
+  }
+
+  const re = new RegExp(`^${out}$`);
+  globCache.set(pattern, re);
+  return re;
+}
+
+function normalizeRelPath(relPath: string): string {
+  return relPath.replace(/\\/g, "/").replace(/^\.\//, "");
+}
+
+/**
+ * Matches a repo-relative path against a user/config pattern.
+ *
+ * - Plain patterns without wildcards (`pkg/sink`, `owner.go`) match that path or anything below it,
+ *   at any directory level.
+ * - Glob patterns (`*`, `**`, `?`, `[...]`) match the whole path; unless they start with `/`
+ *   they may also match starting at any directory level (`*.md` matches `docs/a.md`).
+ */
+export function matchesPathPattern(relPath: string, pattern: string): boolean {
+  const p = normalizeRelPath(relPath);
+  const raw = pattern.trim().replace(/\\/g, "/");
+  if (!raw) return false;
+
+  const anchored = raw.startsWith("/");
+  const pat = raw.replace(/^\/+/, "").replace(/\/+$/, "");
+  if (!pat) return true;
+
+  if (!hasGlobChars(pat)) {
+    if (p === pat || p.startsWith(`${pat}/`)) return true;
+    if (anchored) return false;
+    return p.endsWith(`/${pat}`) || p.includes(`/${pat}/`);
+  }
+
+  // A glob matching a directory (`contrib/*`) also covers everything below it.
+  const re = globToRegExp(pat);
+  const segments = p.split("/");
+  const starts = anchored ? 1 : segments.length;
+  for (let i = 0; i < starts; i += 1) {
+    for (let j = segments.length; j > i; j -= 1) {
+      if (re.test(segments.slice(i, j).join("/"))) return true;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+
+import { posixRegex } from "./history.js";
+
+describe("posixRegex", () => {
+  it("rewrites JS class escapes as POSIX brackets", () => {
+    expect(posixRegex(/func \w+Owner\(\d\)\s*\{/)).toEqual({ pattern: "func [A-Za-z0-9_]+Owner\\([0-9]\\)[[:space:]]*\\{", ignoreCase: false });
+    expect(posixRegex(/\W\D\S/)?.pattern).toBe("[^A-Za-z0-9_][^0-9][^[:space:]]");
+    expect(posixRegex(/[\w.-]+/)?.pattern).toBe("[A-Za-z0-9_.-]+");
+    expect(posixRegex(/[^\d\[]/)?.pattern).toBe("[^0-9[]");
+  });
+
+  it("drops non-capturing and named group syntax and lazy quantifiers", () => {
+    expect(posixRegex(/(?:get|set)(?<field>Owner)/)?.pattern).toBe("(get|set)(Owner)");
+    expect(posixRegex(/a.*?b+?c??d{1,2}?/)?.pattern).toBe("a.*b+c?d{1,2}");
+  });
+
+  it("keeps word boundaries, literal escapes and the i flag", () => {
+    expect(posixRegex(/\bOwner\b\.\/path\t/i)).toEqual({ pattern: "\\bOwner\\b\\./path\t", ignoreCase: true });
+  });
+
+  it("gives up on what POSIX can't express", () => {
+    expect(posixRegex(/Owner(?=ID)/)).toBeUndefined();
+    expect(posixRegex(/(a)\1/)).toBeUndefined();
+    expect(posixRegex(/\n/)).toBeUndefined();
+    expect(posixRegex(/[\]]/)).toBeUndefined();
+    expect(posixRegex(/[^]/)).toBeUndefined();
+  });
+});
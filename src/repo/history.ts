@@ -0,0 +1,385 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import type { RepoTarget } from "../config.js";
+import { logger } from "../logger.js";
+import { isGitRepo, resolveGitRef, runGit, shortSha, type GitRunOptions } from "./git.js";
+import { matchesRepoFilters, parseRepoQuery, type RepoQuery } from "./query.js";
+import { scanDeadline, tokenizeQuery } from "./search.js";
+import { waitForRepoSync } from "./sync.js";
+
+export type HistoryBlameRange = {
+  // Absolute path of a file inside one of the searched repos.
+  filePath: string;
+  // Ref of the variant the lines were read from; blamed at that ref's commit, not the working tree.
+  ref?: string;
+  startLine: number;
+  endLine: number;
+};
+
+export type HistorySearchResult = {
+  query: string;
+  contextText: string;
+  sources: string[];
+};
+
+type HistoryCommit = {
+  sha: string;
+  author: string;
+  date: string;
+  subject: string;
+  files: string[];
+  // Why the commit was picked, e.g. `pickaxe "WriteEvents"`, `blame pkg/sink/mysql.go:120-140 (8 lines)`.
+  matched: string[];
+  // Added/removed lines mentioning the pickaxe term.
+  diffLines: string[];
+};
+
+const FIELD = "\x1f";
+const RECORD = "\x1e";
+const LOG_FORMAT = `--format=${RECORD}%H${FIELD}%an${FIELD}%ad${FIELD}%s`;
+
+const MAX_PICKAXE_TERMS = 2;
+// `--all-match` requires every word in the message; more than two rarely all appear.
+const MAX_MESSAGE_WORDS = 2;
+const MAX_FILES_PER_COMMIT = 4;
+const MAX_DIFF_LINES = 6;
+
+function parseLog(stdout: Buffer | undefined): Array<Omit<HistoryCommit, "matched" | "diffLines">> {
+  if (!stdout) return [];
+  const out: Array<Omit<HistoryCommit, "matched" | "diffLines">> = [];
+  for (const record of stdout.toString("utf8").split(RECORD)) {
+    const [header, ...rest] = record.split("\n");
+    const [sha, author, date, subject] = (header ?? "").split(FIELD);
+    if (!sha || !/^[0-9a-f]{40,64}$/.test(sha)) continue;
+    const files = rest.map((l) => l.trim()).filter(Boolean);
+    out.push({ sha, author: author ?? "", date: date ?? "", subject: subject ?? "", files });
+  }
+  return out;
+}
+
+// Maps `path:` / `-path:` filters to git pathspecs (same "any level" semantics as matchesPathPattern).
+function pathspecs(q: RepoQuery): string[] {
+  const toGlobs = (raw: string): string[] => {
+    const anchored = raw.startsWith("/");
+    const pat = raw.replace(/^\/+/, "").replace(/\/+$/, "");
+    if (!pat) return [];
+    // Plain names and globs alike also cover everything below a matching directory.
+    const prefix = anchored ? "" : "**/";
+    return [`${prefix}${pat}`, `${prefix}${pat}/**`];
+  };
+
+  const out: string[] = [];
+  for (const p of q.paths) out.push(...toGlobs(p).map((g) => `:(glob)${g}`));
+  for (const p of q.exclude.paths) out.push(...toGlobs(p).map((g) => `:(exclude,glob)${g}`));
+  // An exclude-only pathspec needs a positive one to subtract from.
+  if (out.length > 0 && q.paths.length === 0) out.unshift(".");
+  return out;
+}
+
+// Identifier-looking tokens (camelCase, snake_case, qualified names) and phrases are worth a pickaxe run;
+// plain words would match half the history.
+function pickaxeTerms(q: RepoQuery, tokens: string[]): string[] {
+  const out: string[] = [];
+  const candidates = [...q.phrases.map((p) => tokens.find((t) => t.toLowerCase() === p) ?? p), ...tokens];
+  for (const t of candidates) {
+    const looksLikeCode = /^\w.*[A-Z_]|::|\w\.\w|\w\(/.test(t) || q.phrases.includes(t.toLowerCase());
+    if (t.length < 4 || !looksLikeCode || out.includes(t)) continue;
+    out.push(t);
+    if (out.length >= MAX_PICKAXE_TERMS) break;
+  }
+  return out;
+}
+
+// The longest words are the most specific ones; kept in query order.
+function messageWords(tokens: string[]): string[] {
+  const words = tokens.filter((t) => !/\s/.test(t));
+  const picked = new Set(words.slice().sort((a, b) => b.length - a.length).slice(0, MAX_MESSAGE_WORDS));
+  return words.filter((w) => picked.has(w));
+}
+
+// JS class escapes spelled as POSIX bracket contents.
+const CLASS_ESCAPES: Record<string, string> = { d: "0-9", w: "A-Za-z0-9_", s: "[:space:]" };
+const NEGATED_CLASS_ESCAPES: Record<string, string> = { D: "0-9", W: "A-Za-z0-9_", S: "[:space:]" };
+
+/**
+ * `re:` operators are JS regexes while `git log -G` takes POSIX extended ones (GNU flavor, so `\b`
+ * works). Rewrites what has an equivalent: `\d`/`\w`/`\s` classes, `(?:` and named groups, lazy
+ * quantifiers (greediness doesn't change whether a line matches) and the `i` flag. Undefined for
+ * the rest (lookarounds, backreferences, other escapes); those aren't run against history.
+ */
+export function posixRegex(rx: RegExp): { pattern: string; ignoreCase: boolean } | undefined {
+  const src = rx.source;
+  let out = "";
+  let inClass = false;
+  let afterQuantifier = false;
+  for (let i = 0; i < src.length; i += 1) {
+    const c = src[i]!;
+    if (c === "\\") {
+      const e = src[i + 1];
+      i += 1;
+      afterQuantifier = false;
+      if (e === undefined) return undefined;
+      if (inClass) {
+        // POSIX brackets have no escapes: `\]`, `\-`, `\^` and negated classes can't be spelled.
+        if (CLASS_ESCAPES[e]) out += CLASS_ESCAPES[e];
+        else if (/[.*+?(){}|$/[]/.test(e)) out += e;
+        else return undefined;
+      } else if (CLASS_ESCAPES[e]) out += `[${CLASS_ESCAPES[e]}]`;
+      else if (NEGATED_CLASS_ESCAPES[e]) out += `[^${NEGATED_CLASS_ESCAPES[e]}]`;
+      else if (e === "/") out += "/";
+      else if (e === "t") out += "\t";
+      else if (/[bB.*+?()[\]{}|^$\\]/.test(e)) out += `\\${e}`;
+      else return undefined;
+      continue;
+    }
+    if (inClass) {
+      if (c === "]") inClass = false;
+      out += c;
+      continue;
+    }
+    if (c === "[") {
+      inClass = true;
+      afterQuantifier = false;
+      out += c;
+      if (src[i + 1] === "^") {
+        out += "^";
+        i += 1;
+      }
+      // `[]` / `[^]` are JS-only; a leading `]` is literal in POSIX.
+      if (src[i + 1] === "]") return undefined;
+      continue;
+    }
+    if (c === "(" && src[i + 1] === "?") {
+      const group = /^\(\?(?::|<[A-Za-z_$][\w$]*>)/.exec(src.slice(i));
+      if (!group) return undefined;
+      out += "(";
+      i += group[0].length - 1;
+      afterQuantifier = false;
+      continue;
+    }
+    if (c === "?" && afterQuantifier) {
+      afterQuantifier = false;
+      continue;
+    }
+    afterQuantifier = c === "*" || c === "+" || c === "?" || c === "}";
+    out += c;
+  }
+  return { pattern: out, ignoreCase: rx.flags.includes("i") };
+}
+
+function parseBlame(stdout: Buffer | undefined): Map<string, { author: string; date: string; subject: string; lines: number }> {
+  const out = new Map<string, { author: string; date: string; subject: string; lines: number }>();
+  if (!stdout) return out;
+
+  let current: { author: string; date: string; subject: string; lines: number } | undefined;
+  for (const line of stdout.toString("utf8").split("\n")) {
+    const header = /^([0-9a-f]{40,64}) \d+ \d+/.exec(line);
+    if (header) {
+      const sha = header[1]!;
+      current = out.get(sha);
+      if (!current) {
+        current = { author: "", date: "", subject: "", lines: 0 };
+        // All-zero SHA = uncommitted local change; not a citable commit.
+        if (!/^0+$/.test(sha)) out.set(sha, current);
+      }
+      current.lines += 1;
+      continue;
+    }
+    if (!current) continue;
+    if (line.startsWith("author ")) current.author = line.slice("author ".length);
+    else if (line.startsWith("author-time ")) {
+      const secs = Number.parseInt(line.slice("author-time ".length), 10);
+      if (Number.isFinite(secs)) current.date = new Date(secs * 1000).toISOString().slice(0, 10);
+    } else if (line.startsWith("summary ")) current.subject = line.slice("summary ".length);
+  }
+  return out;
+}
+
+// Lines of the file as blame will see it: the blob at `rev`, else the working-tree file.
+async function lineCountOf(repoPath: string, rel: string, rev: string | undefined, git: GitRunOptions): Promise<number> {
+  if (rev) {
+    const blob = await runGit(repoPath, ["show", `${rev}:${rel}`], git);
+    return blob ? blob.toString("utf8").split("\n").length : 0;
+  }
+  try {
+    return fs.readFileSync(path.join(repoPath, rel), "utf8").split("\n").length;
+  } catch {
+    return 0;
+  }
+}
+
+async function diffLinesMentioning(repoPath: string, sha: string, term: string, git: GitRunOptions): Promise<string[]> {
+  const stdout = await runGit(repoPath, ["show", "--format=", "--no-color", "-U0", sha], git);
+  if (!stdout) return [];
+  const out: string[] = [];
+  for (const line of stdout.toString("utf8").split("\n")) {
+    if (!/^[+-]/.test(line) || /^(\+\+\+|---) /.test(line)) continue;
+    if (!line.includes(term)) continue;
+    out.push(line.length > 200 ? `${line.slice(0, 200)}…` : line);
+    if (out.length >= MAX_DIFF_LINES) break;
+  }
+  return out;
+}
+
+async function searchOneRepo(opts: {
+  repoPath: string;
+  // A ref-backed variant's ref and its commit; history is walked from it instead of HEAD.
+  ref?: string;
+  rev?: string;
+  parsed: RepoQuery;
+  tokens: string[];
+  blameRanges: HistoryBlameRange[];
+  maxCommits: number;
+  // The whole search's deadline; every git command is killed when it fires.
+  signal?: AbortSignal;
+}): Promise<HistoryCommit[]> {
+  const { repoPath, parsed, tokens, maxCommits } = opts;
+  const git: GitRunOptions = { signal: opts.signal };
+  const commits = new Map<string, HistoryCommit>();
+  const note = (c: Omit<HistoryCommit, "matched" | "diffLines">, reason: string) => {
+    const existing = commits.get(c.sha);
+    if (!existing) commits.set(c.sha, { ...c, matched: [reason], diffLines: [] });
+    else if (!existing.matched.includes(reason)) existing.matched.push(reason);
+  };
+  const spec = pathspecs(parsed);
+  const rev = opts.rev ? [opts.rev] : [];
+  const logArgs = (extra: string[]) =>
+    ["log", "-n", String(maxCommits), "--date=short", "--name-only", LOG_FORMAT, ...extra, ...rev, "--", ...spec];
+
+  // Blame first: it answers "who/when" for the exact code the repo search surfaced, in the
+  // working tree or at the variant's commit, whichever the lines were read from.
+  for (const range of opts.blameRanges) {
+    if ((range.ref ?? "") !== (opts.ref ?? "")) continue;
+    const rel = path.relative(repoPath, range.filePath);
+    if (!rel || rel.startsWith("..") || path.isAbsolute(rel)) continue;
+    // `git blame -L` fails outright if the range runs past the end of the file.
+    const lineCount = await lineCountOf(repoPath, rel, opts.rev, git);
+    const startLine = Math.max(1, range.startLine);
+    const endLine = Math.min(range.endLine, lineCount);
+    if (endLine < startLine) continue;
+    const stdout = await runGit(repoPath, ["blame", "--line-porcelain", "-L", `${startLine},${endLine}`, ...rev, "--", rel], git);
+    const bySha = Array.from(parseBlame(stdout).entries()).sort((a, b) => b[1].date.localeCompare(a[1].date));
+    for (const [sha, info] of bySha.slice(0, 3)) {
+      note(
+        { sha, author: info.author, date: info.date, subject: info.subject, files: [rel] },
+        `blame ${rel}:${startLine}-${endLine} (${info.lines} line${info.lines === 1 ? "" : "s"})`
+      );
+    }
+  }
+
+  for (const term of pickaxeTerms(parsed, tokens)) {
+    const found = parseLog(await runGit(repoPath, logArgs([`-S${term}`]), git));
+    for (const c of found) note(c, `pickaxe "${term}"`);
+  }
+  for (const rx of parsed.regexes) {
+    const posix = posixRegex(rx);
+    if (!posix) continue;
+    const flags = posix.ignoreCase ? ["--regexp-ignore-case"] : [];
+    const found = parseLog(await runGit(repoPath, logArgs([...flags, `-G${posix.pattern}`]), git));
+    for (const c of found) note(c, `changed lines matching /${rx.source}/`);
+  }
+
+  const words = messageWords(tokens);
+  if (words.length > 0) {
+    const grep = words.map((w) => `--grep=${w}`);
+    const found = parseLog(
+      await runGit(repoPath, logArgs(["--all-match", "--regexp-ignore-case", "--fixed-strings", ...grep]), git)
+    );
+    for (const c of found) note(c, `message "${words.join(" ")}"`);
+  }
+
+  const selected = Array.from(commits.values()).slice(0, maxCommits);
+  for (const c of selected) {
+    const term = c.matched.map((m) => /^pickaxe "(.*)"$/.exec(m)?.[1]).find(Boolean);
+    if (term) c.diffLines = await diffLinesMentioning(repoPath, c.sha, term, git);
+  }
+  return selected;
+}
+
+function formatCommit(repoLabel: string, c: HistoryCommit): string {
+  const files =
+    c.files.length > MAX_FILES_PER_COMMIT
+      ? `${c.files.slice(0, MAX_FILES_PER_COMMIT).join(", ")} (+${c.files.length - MAX_FILES_PER_COMMIT} more)`
+      : c.files.join(", ");
+  return [
+    `Repo: ${repoLabel}`,
+    `Commit: ${shortSha(c.sha)} (${c.date}, ${c.author}) ${c.subject}`,
+    `Matched: ${c.matched.join("; ")}`,
+    ...(files ? [`Files: ${files}`] : []),
+    ...(c.diffLines.length > 0 ? ["Diff:", ...c.diffLines] : [])
+  ].join("\n");
+}
+
+/**
+ * Searches git history of the given repos: `git blame` on the given line ranges, pickaxe
+ * (`git log -S` for identifiers/phrases, `-G` for `re:` operators) and commit message search.
+ * Query operators `path:`, `repo:` and their negations apply. Non-git trees are skipped.
+ */
+export async function searchRepoHistory(opts: {
+  repos: RepoTarget[];
+  query: string;
+  blameRanges?: HistoryBlameRange[];
+  maxCommits: number;
+  maxContextChars: number;
+  // One deadline for the whole search (all repos and git commands); commits found before it are kept.
+  timeoutMs: number;
+  // Kills the running git commands; the search then rejects with the signal's reason.
+  signal?: AbortSignal;
+}): Promise<HistorySearchResult> {
+  const query = opts.query.trim();
+  const parsed = parseRepoQuery(query);
+  const tokens = tokenizeQuery(parsed.text);
+  const blameRanges = opts.blameRanges ?? [];
+  const empty: HistorySearchResult = { query, contextText: "", sources: [] };
+  if (tokens.length === 0 && parsed.regexes.length === 0 && blameRanges.length === 0) return empty;
+
+  const repos = opts.repos.filter((r) => matchesRepoFilters(parsed, r) && isGitRepo(r.path));
+  const maxCommits = Math.max(1, opts.maxCommits);
+  const deadline = scanDeadline(opts.timeoutMs, opts.signal);
+  let results: Array<{ repo: RepoTarget; commits: HistoryCommit[] }>;
+  try {
+    // Like searchRepos: a running fetch gets at most half the deadline, then the current checkout is searched.
+    await waitForRepoSync(repos, { signal: opts.signal, timeoutMs: Math.ceil(Math.max(0, opts.timeoutMs) / 2) });
+    results = await Promise.all(
+      repos.map(async (repo) => {
+        try {
+          const rev = repo.ref ? await resolveGitRef(repo.path, repo.ref) : undefined;
+          if (repo.ref && !rev) return { repo, commits: [] as HistoryCommit[] };
+          const commits = await searchOneRepo({
+            repoPath: repo.path,
+            ...(repo.ref ? { ref: repo.ref } : {}),
+            rev,
+            parsed,
+            tokens,
+            blameRanges,
+            maxCommits,
+            signal: deadline.signal
+          });
+          return { repo, commits };
+        } catch (error) {
+          logger.warn({ err: error, repoPath: repo.path }, "Git history search failed");
+          return { repo, commits: [] as HistoryCommit[] };
+        }
+      })
+    );
+  } finally {
+    deadline.clear();
+  }
+  opts.signal?.throwIfAborted();
+  if (deadline.signal?.aborted) logger.warn({ timeoutMs: opts.timeoutMs, query }, "Git history search hit its deadline");
+
+  const sources: string[] = [];
+  let contextText = "";
+  for (const { repo, commits } of results) {
+    const label = repo.displayName || repo.name;
+    for (const c of commits) {
+      const block = formatCommit(label, c);
+      if (contextText.length + block.length > opts.maxContextChars) break;
+      contextText += `${contextText ? "\n\n" : ""}${block}`;
+      sources.push(`${label} commit ${shortSha(c.sha)}`);
+    }
+  }
+
+  return { query, contextText, sources };
+}
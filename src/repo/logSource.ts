@@ -0,0 +1,225 @@
+import path from "node:path";
+
+import type { RepoTarget } from "../config.js";
+import { logger } from "../logger.js";
+import { enclosingBlockFinder } from "./blocks.js";
+import { normalizeRepos, repoSource, withPermalinkBase, type RepoWithName } from "./multiSearchLocal.js";
+import { isTestPath } from "./query.js";
+import { blockExcerpt, getRepoIndex, scanDeadline, scanStopped } from "./search.js";
+import { narrowFilesWithTrigramIndex } from "./trigramIndex.js";
+
+// What a pasted log line says about the statement that emitted it.
+export type LoggedLine = {
+  // The log line as shown in the context header.
+  label: string;
+  file?: string;
+  line?: number;
+  message: string;
+};
+
+export type LogSourcesResult = {
+  contextText: string;
+  sources: string[];
+};
+
+// Multi-line calls: Go may report a later line of the call than the message literal's, Rust
+// macros the line of `info!(` with the literal on the next one.
+const CALLER_SLACK_BEFORE = 5;
+const CALLER_SLACK_AFTER = 1;
+// Shorter messages ("ok", "start") match too many unrelated literals.
+const MIN_MESSAGE_CHARS = 6;
+const READ_BATCH = 256;
+
+// Lower is better: caller file:line confirmed by the message, message in a file named like the
+// caller, message anywhere, caller file:line alone.
+type MatchRank = 0 | 1 | 2 | 3;
+
+const RANK_NOTES: Record<MatchRank, string> = {
+  0: "matched by file:line and message",
+  1: "matched by message in the logged file",
+  2: "matched by message only",
+  3: "matched by file:line only; the message was not found nearby"
+};
+
+type StatementMatch = {
+  repo: RepoWithName;
+  filePath: string;
+  line: number;
+  lines: string[];
+  rank: MatchRank;
+};
+
+// The message as a Go/Rust string literal, quotes included.
+function messageLiteral(message: string): string | undefined {
+  return message.length >= MIN_MESSAGE_CHARS ? JSON.stringify(message) : undefined;
+}
+
+function isCallerFile(filePath: string, file: string): boolean {
+  return filePath === file || filePath.endsWith(`/${file}`);
+}
+
+// Line of `literal` around the reported caller line, nearest first.
+function literalNear(lines: string[], line: number, literal: string): number | undefined {
+  const candidates: number[] = [line];
+  for (let d = 1; d <= Math.max(CALLER_SLACK_BEFORE, CALLER_SLACK_AFTER); d += 1) {
+    if (d <= CALLER_SLACK_BEFORE) candidates.push(line - d);
+    if (d <= CALLER_SLACK_AFTER) candidates.push(line + d);
+  }
+  return candidates.find((n) => n >= 1 && (lines[n - 1] ?? "").includes(literal));
+}
+
+async function findInRepo(
+  repo: RepoWithName,
+  logs: LoggedLine[],
+  opts: { maxFiles: number; maxFileBytes: number; indexDir?: string; signal?: AbortSignal }
+): Promise<Array<StatementMatch | undefined>> {
+  const index = await getRepoIndex(repo.repoPath, opts.maxFiles, repo.pathFilter, repo.ref);
+  const sourceRepo = await withPermalinkBase(repo, index.fingerprint.head);
+  const found: Array<StatementMatch | undefined> = logs.map(() => undefined);
+  const better = (i: number, m: StatementMatch) => {
+    if (!found[i] || m.rank < found[i]!.rank) found[i] = m;
+  };
+
+  // By caller: the logged file at the logged line.
+  const callerFiles = Array.from(
+    new Set(logs.flatMap((l) => (l.file && l.line ? index.files.filter((f) => isCallerFile(f, l.file!)) : [])))
+  );
+  const callerTexts = await index.reader.read(callerFiles, opts.maxFileBytes);
+  logs.forEach((log, i) => {
+    if (!log.file || !log.line) return;
+    for (const filePath of callerFiles.filter((f) => isCallerFile(f, log.file!))) {
+      const text = callerTexts.get(filePath)?.text;
+      if (!text) continue;
+      const lines = text.split(/\r?\n/g);
+      if (log.line > lines.length) continue;
+      const literal = messageLiteral(log.message);
+      const near = literal ? literalNear(lines, log.line, literal) : undefined;
+      better(i, { repo: sourceRepo, filePath, line: log.line, lines, rank: near !== undefined ? 0 : 3 });
+    }
+  });
+
+  // By message literal, for the logs whose caller didn't confirm (or wasn't logged).
+  const pending = logs
+    .map((log, i) => ({ i, log, literal: messageLiteral(log.message) }))
+    .filter((p) => p.literal && (found[p.i]?.rank ?? 3) > 0);
+  if (pending.length === 0) return found;
+
+  const narrowed = opts.indexDir
+    ? await narrowFilesWithTrigramIndex({
+        indexDir: opts.indexDir,
+        reader: index.reader,
+        files: index.files,
+        maxFileBytes: opts.maxFileBytes,
+        tokensLower: pending.map((p) => p.log.message.toLowerCase()),
+        ...index.trigramScope
+      })
+    : undefined;
+  // Non-test files first, so a test asserting on the message doesn't shadow the statement.
+  const files = (narrowed?.files ?? index.files)
+    .slice()
+    .sort((a, b) => Number(isTestPath(a)) - Number(isTestPath(b)));
+
+  for (let start = 0; start < files.length; start += READ_BATCH) {
+    if (await scanStopped(opts.signal)) break;
+    const texts = await index.reader.read(files.slice(start, start + READ_BATCH), opts.maxFileBytes);
+    for (const [filePath, file] of texts) {
+      const hits = pending.filter((p) => file.text.includes(p.literal!));
+      if (hits.length === 0) continue;
+      const lines = file.text.split(/\r?\n/g);
+      for (const p of hits) {
+        const idx = lines.findIndex((l) => l.includes(p.literal!));
+        if (idx < 0) continue;
+        const rank: MatchRank = p.log.file && path.posix.basename(filePath) === path.posix.basename(p.log.file) ? 1 : 2;
+        better(p.i, { repo: sourceRepo, filePath, line: idx + 1, lines, rank });
+      }
+    }
+    if (pending.every((p) => (found[p.i]?.rank ?? 3) <= 1)) break;
+  }
+  return found;
+}
+
+/**
+ * Locates the logging statements behind pasted log lines in the selected repos and variants: the
+ * logged `file:line` when the message literal is there (or a few lines above, for multi-line
+ * calls), else the message literal. Per log line the best match wins, the earlier repo on ties;
+ * other variants with the same confirmed statement are listed too.
+ */
+export async function locateLogStatements(opts: {
+  repos: RepoTarget[];
+  logs: LoggedLine[];
+  maxFiles: number;
+  maxFileBytes: number;
+  indexDir?: string;
+  // Lines around the statement when its enclosing block doesn't fit `excerptMaxLines`.
+  contextLines: number;
+  excerptMaxLines: number;
+  maxContextChars: number;
+  // The message scan reads files on this thread: it stops at the deadline with what it found so
+  // far, and rejects when `signal` fires.
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}): Promise<LogSourcesResult> {
+  if (opts.logs.length === 0) return { contextText: "", sources: [] };
+
+  const perRepo: Array<Array<StatementMatch | undefined>> = [];
+  const deadline = scanDeadline(opts.timeoutMs, opts.signal);
+  try {
+    for (const repo of normalizeRepos(opts.repos)) {
+      if (deadline.signal?.aborted) break;
+      try {
+        perRepo.push(await findInRepo(repo, opts.logs, { ...opts, signal: deadline.signal }));
+      } catch (error) {
+        logger.warn({ err: error, repo: repo.repoLabel }, "Log statement lookup failed");
+      }
+    }
+  } finally {
+    deadline.clear();
+  }
+  opts.signal?.throwIfAborted();
+  const stopped = deadline.signal?.aborted ?? false;
+  if (stopped) logger.warn({ timeoutMs: opts.timeoutMs, logs: opts.logs.length }, "Log statement lookup hit its deadline");
+
+  const blocks: string[] = [];
+  const sources: string[] = [];
+  opts.logs.forEach((log, i) => {
+    const matches = perRepo.map((r) => r[i]).filter((m): m is StatementMatch => Boolean(m));
+    const best = matches.reduce<StatementMatch | undefined>((acc, m) => (!acc || m.rank < acc.rank ? m : acc), undefined);
+    if (!best) {
+      const why = stopped ? " (the scan stopped at its deadline)" : "";
+      blocks.push(`Log line: ${log.label}\nNo logging statement found in the searched repos${why}.`);
+      return;
+    }
+
+    const block = enclosingBlockFinder(best.filePath, best.lines)?.(best.line);
+    const cluster = {
+      startLine: Math.max(1, best.line - opts.contextLines),
+      endLine: Math.min(best.lines.length, best.line + opts.contextLines),
+      matchLine: best.line
+    };
+    const excerpt = blockExcerpt(best.lines, cluster, block, opts.excerptMaxLines);
+    const source = repoSource(best.repo, best.filePath, best.line);
+    const inSymbol = excerpt.enclosingSymbol ? ` [in ${excerpt.enclosingSymbol}]` : "";
+    const parts = [
+      `Log line: ${log.label}`,
+      `Logged at (${RANK_NOTES[best.rank]}): File: ${source}${inSymbol}`,
+      excerpt.excerpt
+    ];
+    sources.push(source);
+
+    if (best.rank === 0) {
+      for (const m of matches) {
+        if (m === best || m.rank !== 0) continue;
+        const other = repoSource(m.repo, m.filePath, m.line);
+        parts.push(`Same statement in ${m.repo.repoLabel}: File: ${other}`);
+        sources.push(other);
+      }
+    }
+    blocks.push(parts.join("\n"));
+  });
+
+  let contextText = blocks.length > 0 ? `Logging statements behind the pasted log lines:\n\n${blocks.join("\n\n")}` : "";
+  if (contextText.length > opts.maxContextChars) {
+    contextText = `${contextText.slice(0, Math.max(0, opts.maxContextChars - 20))}\n\n…(truncated)`;
+  }
+  return { contextText, sources };
+}
@@ -0,0 +1,488 @@
+import path from "node:path";
+
+import type { RepoTarget } from "../config.js";
+import { logger } from "../logger.js";
+import { enclosingBlockFinder } from "./blocks.js";
+import { normalizeRepos, repoSource, withPermalinkBase, type RepoWithName } from "./multiSearchLocal.js";
+import { isTestPath } from "./query.js";
+import { getRepoIndex, listRepoFilesMatching, scanDeadline, scanStopped } from "./search.js";
+import { narrowFilesWithTrigramIndex } from "./trigramIndex.js";
+
+export type MetricLookupResult = {
+  contextText: string;
+  sources: string[];
+};
+
+type MetricDef = {
+  // Exported name: `namespace_subsystem_name` for Go opts, the registered string for Rust macros.
+  fullName: string;
+  // `histogram vec`, `int counter`.
+  kind: string;
+  // Variable holding the collector (`TxnExecDuration`, `GRPC_MSG_HISTOGRAM_VEC`).
+  variable: string;
+  language: "go" | "rust";
+  // Package clause of the defining Go file, for `pkg.Var` references from other packages.
+  goPackage?: string;
+  // Go opts as written, resolved (`ticdc`, `sink`, `txn_exec_duration`).
+  parts?: { namespace?: string; subsystem?: string; name: string };
+  help?: string;
+  labels: string[];
+  filePath: string;
+  line: number;
+};
+
+type DashboardPanel = {
+  title: string;
+  exprs: string[];
+  filePath: string;
+  line: number;
+};
+
+type MetricCatalog = {
+  metrics: MetricDef[];
+  panels: DashboardPanel[];
+};
+
+type UseSite = {
+  filePath: string;
+  line: number;
+  // `observe`, `inc`, ...; `reference` when the line only takes a handle (`WithLabelValues`).
+  action: string;
+  code: string;
+  symbol?: string;
+};
+
+// Registrations live next to the code they measure, in `metrics.go` / `metrics.rs` or a `metrics/` package.
+const METRIC_FILE_RE = /metric[^/]*\.(?:go|rs)$|(?:^|\/)metrics?\/[^/]+\.(?:go|rs)$/i;
+const DASHBOARD_FILE_RE = /(?:grafana|dashboard)[^/]*\/(?:[^/]+\/)*[^/]+\.json$|dashboard[^/]*\.json$/i;
+// git pathspecs covering both, so a large repo's registrations don't depend on the index's file cap.
+const CATALOG_PATHSPECS = [
+  ":(glob,icase)**/*metric*.go",
+  ":(glob,icase)**/*metric*.rs",
+  ":(glob,icase)**/metric/*",
+  ":(glob,icase)**/metrics/*",
+  ":(glob,icase)**/*grafana*/**/*.json",
+  ":(glob,icase)**/*dashboard*/**/*.json",
+  ":(glob,icase)**/*dashboard*.json"
+];
+// `TxnExecDuration = prometheus.NewHistogramVec(`, also through wrappers (`metricscommon.NewCounterVec(`).
+const GO_REGISTRATION_RE =
+  /^\s*(?:var\s+)?(\w+)(?:\s+[\w.*]+)?\s*:?=\s*(?:\w+(?:\([^()]*\))?\.)*New(Counter|Gauge|Histogram|Summary)(Vec|Func)?\(/;
+// `pub static ref GRPC_MSG_HISTOGRAM_VEC: HistogramVec = register_histogram_vec!(`.
+const RUST_REGISTRATION_RE = /\b(\w+)\s*:\s*[^=;]+=\s*(?:\w+::)*register_(\w+)!\s*\(/;
+const GO_OPT_RE = /\b(Namespace|Subsystem|Name|Help)\s*:\s*("(?:[^"\\]|\\.)*"|`[^`]*`|[\w.]+)/g;
+const GO_CONST_RE = /^\s*(?:const\s+|var\s+)?(\w+)\s*(?:string\s*)?=\s*("(?:[^"\\]|\\.)*")\s*(?:\/\/.*)?$/;
+const GO_PACKAGE_RE = /^package\s+(\w+)/m;
+const STRING_RE = /"((?:[^"\\]|\\.)*)"/g;
+// Series a histogram/summary/counter exposes besides its registered name.
+const SERIES_SUFFIX_RE = /_(?:bucket|sum|count|total|created)$/;
+const ACTION_RE =
+  /\.(Observe|Inc|Dec|Add|Sub|Set|observe|inc|dec|inc_by|add|sub|set|observe_duration|start_timer|start_coarse_timer)\s*\(/;
+const REGISTRY_CALL_RE = /\b(?:MustRegister|Register|Unregister)\s*\(/;
+const MAX_CALL_LINES = 40;
+const MAX_HELP_CHARS = 400;
+const MAX_SITES = 6;
+const MAX_PANELS = 3;
+const MAX_METRICS = 6;
+const MAX_CACHED_CATALOGS = 16;
+const READ_BATCH = 256;
+
+// Per repo file list (working tree HEAD or variant commit).
+const catalogs = new Map<string, Promise<MetricCatalog>>();
+
+function unquote(literal: string): string {
+  if (literal.startsWith("`")) return literal.slice(1, -1);
+  try {
+    return JSON.parse(literal) as string;
+  } catch {
+    return literal.slice(1, -1);
+  }
+}
+
+// A call starting at `lines[start]` (from its first `(`) up to the matching `)`.
+function callText(lines: string[], start: number): string {
+  const out: string[] = [];
+  let depth = 0;
+  let quote: string | undefined;
+  for (let i = start; i < lines.length && i < start + MAX_CALL_LINES; i += 1) {
+    const line = lines[i]!;
+    out.push(line);
+    for (let j = 0; j < line.length; j += 1) {
+      const c = line[j]!;
+      if (quote) {
+        if (c === "\\" && quote === '"') j += 1;
+        else if (c === quote) quote = undefined;
+        continue;
+      }
+      if (c === '"' || c === "`") quote = c;
+      else if (c === "/" && line[j + 1] === "/") break;
+      else if (c === "(") depth += 1;
+      else if (c === ")" && --depth === 0) return out.join("\n");
+    }
+    if (quote === '"') quote = undefined;
+  }
+  return out.join("\n");
+}
+
+function resolveGoString(expr: string, consts: Map<string, string>): string | undefined {
+  if (expr.startsWith('"') || expr.startsWith("`")) return unquote(expr);
+  return consts.get(expr.split(".").pop()!);
+}
+
+function parseGoMetrics(filePath: string, text: string, consts: Map<string, string>): MetricDef[] {
+  const lines = text.split(/\r?\n/g);
+  const goPackage = GO_PACKAGE_RE.exec(text)?.[1];
+  const out: MetricDef[] = [];
+  lines.forEach((line, i) => {
+    const m = GO_REGISTRATION_RE.exec(line);
+    if (!m) return;
+    const call = callText(lines, i);
+    const opts: Record<string, string | undefined> = {};
+    for (const o of call.matchAll(GO_OPT_RE)) {
+      if (!(o[1]! in opts)) opts[o[1]!] = resolveGoString(o[2]!, consts);
+    }
+    if (!opts.Name) return;
+    const labels = /\[\]string\s*\{([^}]*)\}/.exec(call)?.[1] ?? "";
+    out.push({
+      fullName: [opts.Namespace, opts.Subsystem, opts.Name].filter(Boolean).join("_"),
+      kind: `${m[2]!.toLowerCase()}${m[3] ? ` ${m[3].toLowerCase()}` : ""}`,
+      variable: m[1]!,
+      language: "go",
+      goPackage,
+      parts: { namespace: opts.Namespace, subsystem: opts.Subsystem, name: opts.Name },
+      help: opts.Help,
+      labels: labels
+        .split(",")
+        .map((l) => l.trim())
+        .flatMap((l) => {
+          const v = l ? resolveGoString(l, consts) : undefined;
+          return v ? [v] : [];
+        }),
+      filePath,
+      line: i + 1
+    });
+  });
+  return out;
+}
+
+function parseRustMetrics(filePath: string, text: string): MetricDef[] {
+  const lines = text.split(/\r?\n/g);
+  const out: MetricDef[] = [];
+  lines.forEach((line, i) => {
+    const m = RUST_REGISTRATION_RE.exec(line);
+    if (!m || line.trimStart().startsWith("//")) return;
+    const call = callText(lines, i).slice(m.index + m[0].length - 1);
+    const strings = Array.from(call.matchAll(STRING_RE), (s) => unquote(`"${s[1]!}"`));
+    if (!strings[0]) return;
+    const labels = /&\[([^\]]*)\]/.exec(call)?.[1] ?? "";
+    out.push({
+      fullName: strings[0],
+      kind: m[2]!.replace(/_/g, " "),
+      variable: m[1]!,
+      language: "rust",
+      help: strings[1],
+      labels: Array.from(labels.matchAll(STRING_RE), (s) => s[1]!),
+      filePath,
+      line: i + 1
+    });
+  });
+  return out;
+}
+
+// Panels (also inside rows) with their PromQL targets.
+function parseDashboard(filePath: string, text: string): DashboardPanel[] {
+  let root: unknown;
+  try {
+    root = JSON.parse(text);
+  } catch {
+    return [];
+  }
+  const lines = text.split(/\r?\n/g);
+  const out: DashboardPanel[] = [];
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (!node || typeof node !== "object") return;
+    const obj = node as Record<string, unknown>;
+    if (typeof obj.title === "string" && Array.isArray(obj.targets)) {
+      const title = obj.title;
+      const exprs = obj.targets.flatMap((t) =>
+        t && typeof t === "object" && typeof (t as { expr?: unknown }).expr === "string" ? [(t as { expr: string }).expr] : []
+      );
+      if (exprs.length > 0 && !out.some((p) => p.title === title)) {
+        const quoted = JSON.stringify(title);
+        const idx = lines.findIndex((l) => l.includes(`"title": ${quoted}`) || l.includes(`"title":${quoted}`));
+        out.push({ title, exprs, filePath, line: idx + 1 || 1 });
+      }
+    }
+    for (const value of Object.values(obj)) {
+      if (value && typeof value === "object") visit(value);
+    }
+  };
+  visit(root);
+  return out;
+}
+
+async function loadCatalog(repo: RepoWithName, opts: { maxFiles: number; maxFileBytes: number }) {
+  const index = await getRepoIndex(repo.repoPath, opts.maxFiles, repo.pathFilter, repo.ref);
+  const cacheKey = `${index.reader.key}\0${index.fingerprint.head ?? index.builtAtMs}`;
+  let catalog = catalogs.get(cacheKey);
+  if (!catalog) {
+    catalog = (async () => {
+      const files = await listRepoFilesMatching(index, {
+        repoPath: repo.repoPath,
+        ref: repo.ref,
+        filter: repo.pathFilter,
+        pathspecs: CATALOG_PATHSPECS,
+        match: (f) => (METRIC_FILE_RE.test(f) && !isTestPath(f)) || DASHBOARD_FILE_RE.test(f)
+      });
+      const metricFiles = files.filter((f) => METRIC_FILE_RE.test(f) && !isTestPath(f));
+      const dashboardFiles = files.filter((f) => DASHBOARD_FILE_RE.test(f));
+      const texts = await index.reader.read([...metricFiles, ...dashboardFiles], opts.maxFileBytes);
+
+      // Namespace/subsystem constants are shared within a Go package.
+      const constsByDir = new Map<string, Map<string, string>>();
+      for (const f of metricFiles.filter((f) => f.endsWith(".go"))) {
+        const dir = path.posix.dirname(f);
+        const consts = constsByDir.get(dir) ?? new Map<string, string>();
+        for (const line of (texts.get(f)?.text ?? "").split(/\r?\n/g)) {
+          const c = GO_CONST_RE.exec(line);
+          if (c && !consts.has(c[1]!)) consts.set(c[1]!, unquote(c[2]!));
+        }
+        constsByDir.set(dir, consts);
+      }
+
+      const metrics: MetricDef[] = [];
+      for (const f of metricFiles) {
+        const text = texts.get(f)?.text;
+        if (!text) continue;
+        if (f.endsWith(".go")) metrics.push(...parseGoMetrics(f, text, constsByDir.get(path.posix.dirname(f)) ?? new Map()));
+        else metrics.push(...parseRustMetrics(f, text));
+      }
+      const panels: DashboardPanel[] = [];
+      for (const f of dashboardFiles) {
+        const text = texts.get(f)?.text;
+        if (text) panels.push(...parseDashboard(f, text));
+      }
+      logger.info({ repo: repo.repoLabel, metrics: metrics.length, panels: panels.length }, "Built metric catalog");
+      return { metrics, panels };
+    })();
+    catalogs.set(cacheKey, catalog);
+    catalog.catch(() => catalogs.delete(cacheKey));
+    while (catalogs.size > MAX_CACHED_CATALOGS) catalogs.delete(catalogs.keys().next().value!);
+  }
+  return { catalog: await catalog, commit: index.fingerprint.head };
+}
+
+// Registrations exporting `name`: the registered name itself, or one of its `_bucket`/`_count`/... series.
+function findMetrics(metrics: MetricDef[], name: string): MetricDef[] {
+  const exact = metrics.filter((m) => m.fullName === name);
+  if (exact.length > 0) return exact;
+  const base = name.replace(SERIES_SUFFIX_RE, "");
+  return base === name ? [] : metrics.filter((m) => m.fullName === base);
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Where the collectors are observed or incremented: same-package bare references and `pkg.Var`
+// elsewhere for Go, the static's name for Rust.
+async function findUseSites(
+  repo: RepoWithName,
+  defs: MetricDef[],
+  opts: { maxFiles: number; maxFileBytes: number; indexDir?: string; signal?: AbortSignal }
+): Promise<Map<MetricDef, UseSite[]>> {
+  const index = await getRepoIndex(repo.repoPath, opts.maxFiles, repo.pathFilter, repo.ref);
+  const matchers = defs.map((def) => {
+    const dir = path.posix.dirname(def.filePath);
+    const bare = new RegExp(`(?<![\\w.])${escapeRegExp(def.variable)}\\b`);
+    const qualified = def.goPackage ? new RegExp(`\\b${escapeRegExp(def.goPackage)}\\.${escapeRegExp(def.variable)}\\b`) : undefined;
+    const ext = def.language === "go" ? ".go" : ".rs";
+    return {
+      def,
+      ext,
+      test: (filePath: string, line: string) =>
+        def.language === "rust" || path.posix.dirname(filePath) === dir ? bare.test(line) : !!qualified?.test(line)
+    };
+  });
+  const exts = new Set(matchers.map((m) => m.ext));
+
+  const narrowed = opts.indexDir
+    ? await narrowFilesWithTrigramIndex({
+        indexDir: opts.indexDir,
+        reader: index.reader,
+        files: index.files,
+        maxFileBytes: opts.maxFileBytes,
+        tokensLower: defs.map((d) => d.variable.toLowerCase()),
+        ...index.trigramScope
+      })
+    : undefined;
+  const files = (narrowed?.files ?? index.files)
+    .filter((f) => exts.has(path.posix.extname(f)))
+    .sort((a, b) => Number(isTestPath(a)) - Number(isTestPath(b)));
+
+  const sites = new Map<MetricDef, UseSite[]>(defs.map((d) => [d, []]));
+  for (let start = 0; start < files.length; start += READ_BATCH) {
+    if (await scanStopped(opts.signal)) break;
+    const texts = await index.reader.read(files.slice(start, start + READ_BATCH), opts.maxFileBytes);
+    for (const [filePath, file] of texts) {
+      const candidates = matchers.filter((m) => filePath.endsWith(m.ext) && file.text.includes(m.def.variable));
+      if (candidates.length === 0) continue;
+      const lines = file.text.split(/\r?\n/g);
+      let findBlock: ReturnType<typeof enclosingBlockFinder> | null = null;
+      lines.forEach((line, i) => {
+        const trimmed = line.trim();
+        if (trimmed.startsWith("//") || REGISTRY_CALL_RE.test(line)) return;
+        for (const m of candidates) {
+          if (filePath === m.def.filePath && i + 1 === m.def.line) continue;
+          if (!m.test(filePath, line)) continue;
+          if (findBlock === null) findBlock = enclosingBlockFinder(filePath, lines);
+          const action = ACTION_RE.exec(line.slice(line.indexOf(m.def.variable)))?.[1]?.toLowerCase() ?? "reference";
+          sites.get(m.def)!.push({
+            filePath,
+            line: i + 1,
+            action,
+            code: trimmed.length > 160 ? `${trimmed.slice(0, 160)}…` : trimmed,
+            symbol: findBlock?.(i + 1)?.symbol
+          });
+        }
+      });
+    }
+    if (Array.from(sites.values()).every((s) => s.filter((x) => x.action !== "reference").length >= MAX_SITES)) break;
+  }
+  // Observations first, then handles taken for later use; production code before tests.
+  for (const [def, list] of sites) {
+    const rank = (s: UseSite) => Number(s.action === "reference") * 2 + Number(isTestPath(s.filePath));
+    sites.set(def, list.sort((a, b) => rank(a) - rank(b)).slice(0, MAX_SITES));
+  }
+  return sites;
+}
+
+/**
+ * Resolves Prometheus metric names (or the Grafana panels a question names) to their registrations
+ * in the selected repos and variants: Go `prometheus.New*` opts (namespace, subsystem, name, help,
+ * labels) and TiKV's `register_*!` macros. Each match is rendered with the places it is observed
+ * or incremented; identical registrations of several variants are shown once.
+ */
+export async function lookupMetrics(opts: {
+  repos: RepoTarget[];
+  names: string[];
+  // Question text to match Grafana panel titles in, when it talks about dashboards.
+  panelText?: string;
+  maxFiles: number;
+  maxFileBytes: number;
+  indexDir?: string;
+  maxContextChars: number;
+  // The use site scan reads files on this thread: it stops at the deadline with the sites found
+  // so far, and rejects when `signal` fires.
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}): Promise<MetricLookupResult> {
+  if (opts.names.length === 0 && !opts.panelText) return { contextText: "", sources: [] };
+
+  const catalogsByRepo: Array<{ repo: RepoWithName; catalog: MetricCatalog }> = [];
+  for (const repo of normalizeRepos(opts.repos)) {
+    try {
+      const { catalog, commit } = await loadCatalog(repo, opts);
+      if (catalog.metrics.length > 0) catalogsByRepo.push({ repo: await withPermalinkBase(repo, commit), catalog });
+    } catch (error) {
+      logger.warn({ err: error, repo: repo.repoLabel }, "Metric catalog unavailable");
+    }
+  }
+  if (catalogsByRepo.length === 0) return { contextText: "", sources: [] };
+
+  const blocks: string[] = [];
+  const sources: string[] = [];
+  const names = opts.names.slice();
+
+  // Panel titles quoted in the question: their queries, and the metrics those use.
+  if (opts.panelText) {
+    const text = opts.panelText.toLowerCase();
+    const seen = new Set<string>();
+    for (const { repo, catalog } of catalogsByRepo) {
+      for (const panel of catalog.panels) {
+        const title = panel.title.trim();
+        if (seen.size >= MAX_PANELS || title.length < 8 || !/\s/.test(title) || !text.includes(title.toLowerCase())) continue;
+        if (seen.has(title.toLowerCase())) continue;
+        seen.add(title.toLowerCase());
+        const source = repoSource(repo, panel.filePath, panel.line);
+        blocks.push([`Grafana panel "${title}" (File: ${source}) queries:`, ...panel.exprs.slice(0, 4).map((e) => `- ${e}`)].join("\n"));
+        sources.push(source);
+        for (const token of panel.exprs.join(" ").match(/[a-z_][a-z0-9_]*/g) ?? []) {
+          if (!names.includes(token) && findMetrics(catalog.metrics, token).length > 0) names.push(token);
+        }
+      }
+    }
+  }
+
+  const rendered: Array<{ name: string; items: Array<{ def: MetricDef; repo: RepoWithName; alsoIn: string[] }> }> = [];
+  for (const name of names.slice(0, MAX_METRICS)) {
+    const items = new Map<string, { def: MetricDef; repo: RepoWithName; alsoIn: string[] }>();
+    for (const { repo, catalog } of catalogsByRepo) {
+      for (const def of findMetrics(catalog.metrics, name)) {
+        const sig = JSON.stringify([def.fullName, def.kind, def.variable, def.help, def.labels, def.filePath]);
+        const existing = items.get(sig);
+        if (existing) existing.alsoIn.push(repo.repoLabel);
+        else items.set(sig, { def, repo, alsoIn: [] });
+      }
+    }
+    if (items.size > 0) rendered.push({ name, items: Array.from(items.values()) });
+  }
+
+  // One scan per repo for all of its matched collectors.
+  const sitesByDef = new Map<MetricDef, UseSite[]>();
+  const deadline = scanDeadline(opts.timeoutMs, opts.signal);
+  try {
+    for (const { repo } of catalogsByRepo) {
+      const defs = rendered.flatMap((r) => r.items.filter((item) => item.repo === repo).map((item) => item.def));
+      if (defs.length === 0 || deadline.signal?.aborted) continue;
+      try {
+        for (const [def, sites] of await findUseSites(repo, defs, { ...opts, signal: deadline.signal })) sitesByDef.set(def, sites);
+      } catch (error) {
+        logger.warn({ err: error, repo: repo.repoLabel }, "Metric use site lookup failed");
+      }
+    }
+  } finally {
+    deadline.clear();
+  }
+  opts.signal?.throwIfAborted();
+  if (deadline.signal?.aborted) logger.warn({ timeoutMs: opts.timeoutMs }, "Metric use site lookup hit its deadline");
+
+  for (const { name, items } of rendered) {
+    const lines: string[] = [];
+    for (const { def, repo, alsoIn } of items) {
+      const source = repoSource(repo, def.filePath, def.line);
+      const title = def.fullName === name ? `\`${name}\`` : `\`${name}\` (series of \`${def.fullName}\`)`;
+      const also = alsoIn.length > 0 ? `; also in ${alsoIn.join(", ")}` : "";
+      lines.push(`${title}: ${def.kind} \`${def.variable}\` (${repo.repoLabel}${also}) File: ${source}`);
+      sources.push(source);
+      if (def.parts) {
+        const parts = (["namespace", "subsystem", "name"] as const).flatMap((k) => (def.parts![k] ? [`${k} "${def.parts![k]}"`] : []));
+        lines.push(`  Opts: ${parts.join(", ")}`);
+      }
+      if (def.help) lines.push(`  Help: ${def.help.length > MAX_HELP_CHARS ? `${def.help.slice(0, MAX_HELP_CHARS)}…` : def.help}`);
+      if (def.labels.length > 0) lines.push(`  Labels: ${def.labels.join(", ")}`);
+      const sites = sitesByDef.get(def) ?? [];
+      if (sites.length > 0) {
+        lines.push("  Observed/updated at:");
+        for (const site of sites) {
+          const siteSource = repoSource(repo, site.filePath, site.line);
+          const inSymbol = site.symbol ? ` [in ${site.symbol}]` : "";
+          lines.push(`  - ${site.action}: File: ${siteSource}${inSymbol} \`${site.code}\``);
+          sources.push(siteSource);
+        }
+      }
+    }
+    blocks.push(lines.join("\n"));
+  }
+  if (blocks.length === 0) return { contextText: "", sources: [] };
+
+  let contextText = `Prometheus metrics:\n\n${blocks.join("\n\n")}`;
+  if (contextText.length > opts.maxContextChars) {
+    contextText = `${contextText.slice(0, Math.max(0, opts.maxContextChars - 20))}\n\n…(truncated)`;
+  }
+  return { contextText, sources };
+}
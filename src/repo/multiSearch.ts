@@ -1,20 +1,103 @@
+import path from "node:path";
 import { isMainThread } from "node:worker_threads";
 
+import type { RepoTarget } from "../config.js";
 import { logger } from "../logger.js";
-import { runRepoSearchInPool } from "./workerPool.js";
-import { searchReposLocal, type MultiRepoSearchOptions, type MultiRepoSearchResult } from "./multiSearchLocal.js";
+import { runRepoSearchInPool, type RepoSearchPriority, type RepoSearchRequester } from "./workerPool.js";
+import {
+  searchReposLocal,
+  searchTimeoutError,
+  type MultiRepoSearchOptions,
+  type MultiRepoSearchResult,
+  type RepoSearchControl
+} from "./multiSearchLocal.js";
+import { searchReferencesLocal } from "./references.js";
+import { cacheRepoSearch, getCachedRepoSearch, repoSearchCacheKey, type RepoSearchCacheOptions } from "./resultCache.js";
+import { repoLastSyncAtMs, waitForRepoSync } from "./sync.js";
 
-export type { MultiRepoSearchResult } from "./multiSearchLocal.js";
+export type { MultiRepoSearchResult, RepoHit, SearchedRepo } from "./multiSearchLocal.js";
+export type { RepoSearchPriority, RepoSearchRequester } from "./workerPool.js";
 
 export type MultiRepoSearchOptionsWithWorkers = MultiRepoSearchOptions & {
   workers?: number;
   queueMax?: number;
+  // Per-search deadline (0/undefined: none). A search that runs out of time returns the
+  // results of the repos finished so far plus a warning instead of failing.
+  timeoutMs?: number;
+  // Caller cancellation (e.g. the chat request was dropped); rejects with the signal's reason.
+  signal?: AbortSignal;
+  // Scheduling in the worker pool queue (see RepoSearchRunControl).
+  requester?: RepoSearchRequester;
+  priority?: RepoSearchPriority;
+  onQueuePosition?: (ahead: number | undefined) => void;
+  // Result cache shared by in-process and pooled searches (see resultCache.ts).
+  cache?: RepoSearchCacheOptions;
 };
 
+// Sync state lives on the main thread, so freshness is attached here rather than in the worker.
+function withSyncTimes(result: MultiRepoSearchResult, repos: RepoTarget[], syncing: RepoTarget[]): MultiRepoSearchResult {
+  const searchedRepos = result.searchedRepos.map((r) => {
+    const matches = (t: RepoTarget) => path.resolve(t.path) === r.path && (t.ref ?? "") === (r.ref ?? "");
+    const target = repos.find(matches);
+    const syncedAtMs = target ? repoLastSyncAtMs(target) : undefined;
+    return { ...r, ...(syncedAtMs !== undefined ? { syncedAtMs } : {}), ...(syncing.some(matches) ? { syncing: true } : {}) };
+  });
+  return { ...result, searchedRepos };
+}
+
 export async function searchRepos(opts: MultiRepoSearchOptionsWithWorkers): Promise<MultiRepoSearchResult> {
+  // A running fetch may take minutes: the wait gets at most half the deadline, the search the rest.
+  const timeoutMs = Math.max(0, Math.floor(opts.timeoutMs ?? 0));
+  const waitStartedAtMs = Date.now();
+  const syncing = await waitForRepoSync(opts.repos, { signal: opts.signal, timeoutMs: Math.ceil(timeoutMs / 2) });
+  const searchOpts = timeoutMs > 0 ? { ...opts, timeoutMs: Math.max(1, timeoutMs - (Date.now() - waitStartedAtMs)) } : opts;
+
+  // Keyed after the sync wait so a search right after a fetch sees the new HEAD; skipped while a
+  // fast-forward may still be changing the checkout under the search.
+  const cache = syncing.length === 0 ? opts.cache : undefined;
+  const cacheKey =
+    cache && cache.maxEntries > 0 && opts.query.trim() && opts.repos.length > 0 ? await repoSearchCacheKey(opts) : undefined;
+  const cached = cache && cacheKey ? getCachedRepoSearch(cacheKey, cache) : undefined;
+  if (cached) {
+    logger.debug({ query: opts.query, repos: cached.searchedRepos.length }, "Repo search cache hit");
+    return withSyncTimes({ ...cached, query: opts.query.trim() }, opts.repos, syncing);
+  }
+
+  const result = await searchReposNow(searchOpts);
+  if (cache && cacheKey) cacheRepoSearch(cacheKey, result, cache);
+  return withSyncTimes(result, opts.repos, syncing);
+}
+
+// In-process counterpart of the pool's deadline: the scan checks the signal between file batches.
+async function runLocalWithDeadline(
+  runLocal: (opts: MultiRepoSearchOptions, control: RepoSearchControl) => Promise<MultiRepoSearchResult>,
+  localOpts: MultiRepoSearchOptions,
+  opts: MultiRepoSearchOptionsWithWorkers
+): Promise<MultiRepoSearchResult> {
+  const timeoutMs = Math.max(0, Math.floor(opts.timeoutMs ?? 0));
+  if (timeoutMs <= 0 && !opts.signal) return runLocal(localOpts, {});
+  opts.signal?.throwIfAborted();
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(opts.signal?.reason);
+  opts.signal?.addEventListener("abort", onAbort, { once: true });
+  const timer = timeoutMs > 0 ? setTimeout(() => controller.abort(searchTimeoutError(timeoutMs)), timeoutMs) : undefined;
+
+  try {
+    const result = await runLocal(localOpts, { signal: controller.signal });
+    // Partial results are fine for a deadline, but a cancelled caller doesn't want them.
+    opts.signal?.throwIfAborted();
+    return result;
+  } finally {
+    if (timer) clearTimeout(timer);
+    opts.signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+async function searchReposNow(opts: MultiRepoSearchOptionsWithWorkers): Promise<MultiRepoSearchResult> {
   const workers = Math.max(0, Math.floor(opts.workers ?? 0));
   const query = opts.query.trim();
-  if (!query || opts.repos.length === 0) return { query, contextText: "", sources: [] };
+  if (!query || opts.repos.length === 0) return { query, contextText: "", sources: [], hits: [], searchedRepos: [] };
 
   const localOpts: MultiRepoSearchOptions = {
     repos: opts.repos,
@@ -22,25 +105,51 @@ export async function searchRepos(opts: MultiRepoSearchOptionsWithWorkers): Prom
     maxFiles: opts.maxFiles,
     maxFileBytes: opts.maxFileBytes,
     maxSnippets: opts.maxSnippets,
+    maxSnippetsPerFile: opts.maxSnippetsPerFile,
     snippetContextLines: opts.snippetContextLines,
-    maxContextChars: opts.maxContextChars
+    excerptMaxLines: opts.excerptMaxLines,
+    designDocBoost: opts.designDocBoost,
+    maxContextChars: opts.maxContextChars,
+    indexDir: opts.indexDir,
+    mode: opts.mode,
+    maxReferences: opts.maxReferences,
+    embeddings: opts.embeddings
   };
+  const runLocal = opts.mode === "references" ? searchReferencesLocal : searchReposLocal;
 
-  if (!isMainThread || workers <= 0) return searchReposLocal(localOpts);
+  if (!isMainThread || workers <= 0) return runLocalWithDeadline(runLocal, localOpts, opts);
 
   try {
-    return await runRepoSearchInPool(workers, {
-      repos: opts.repos,
-      query,
-      maxFiles: opts.maxFiles,
-      maxFileBytes: opts.maxFileBytes,
-      maxSnippets: opts.maxSnippets,
-      snippetContextLines: opts.snippetContextLines,
-      maxContextChars: opts.maxContextChars,
-      queueMax: opts.queueMax
-    });
+    return await runRepoSearchInPool(
+      workers,
+      {
+        repos: opts.repos,
+        query,
+        maxFiles: opts.maxFiles,
+        maxFileBytes: opts.maxFileBytes,
+        maxSnippets: opts.maxSnippets,
+        maxSnippetsPerFile: opts.maxSnippetsPerFile,
+        snippetContextLines: opts.snippetContextLines,
+        excerptMaxLines: opts.excerptMaxLines,
+        designDocBoost: opts.designDocBoost,
+        maxContextChars: opts.maxContextChars,
+        indexDir: opts.indexDir,
+        mode: opts.mode,
+        maxReferences: opts.maxReferences,
+        embeddings: opts.embeddings,
+        queueMax: opts.queueMax
+      },
+      {
+        signal: opts.signal,
+        timeoutMs: opts.timeoutMs,
+        requester: opts.requester,
+        priority: opts.priority,
+        onQueuePosition: opts.onQueuePosition
+      }
+    );
   } catch (error) {
+    if (opts.signal?.aborted) throw error;
     logger.warn({ err: error }, "Repo search worker pool failed; falling back to in-process scan");
-    return searchReposLocal(localOpts);
+    return runLocalWithDeadline(runLocal, localOpts, opts);
   }
 }
@@ -1,12 +1,43 @@
 import path from "node:path";
 
 import type { RepoTarget } from "../config.js";
-import { searchRepo, type RepoSnippet } from "./search.js";
+import { bm25Score, mergeCorpusStats, type CorpusStats } from "./bm25.js";
+import { matchesRepoFilters, parseRepoQuery } from "./query.js";
+import { logger } from "../logger.js";
+import type { RepoEmbeddingOptions } from "./embeddings.js";
+import { blobPermalink, repoWebUrl } from "./permalinks.js";
+import { describeSnippet, searchRepo, type RepoPathFilter, type RepoSnippet } from "./search.js";
+import { searchRepoSemantic } from "./vectorStore.js";
+
+export type SearchedRepo = {
+  label: string;
+  path: string;
+  ref?: string;
+  commit?: string;
+  // Last sync/fetch of the checkout (set by searchRepos on the main thread).
+  syncedAtMs?: number;
+  // A sync was still running when the search gave up waiting for it (set by searchRepos).
+  syncing?: boolean;
+};
+
+// A selected snippet in structured form, for lookups that start from search results (e.g. variant diffs).
+export type RepoHit = {
+  repoPath: string;
+  ref?: string;
+  filePath: string;
+  line: number;
+  // Declared symbol at `line` (see describeSnippet), for definitions.
+  symbol?: string;
+};
 
 export type MultiRepoSearchResult = {
   query: string;
   contextText: string;
   sources: string[];
+  hits: RepoHit[];
+  searchedRepos: SearchedRepo[];
+  // E.g. a timed-out search that only covers some of the repos.
+  warnings?: string[];
 };
 
 export type MultiRepoSearchOptions = {
@@ -15,70 +46,158 @@ export type MultiRepoSearchOptions = {
   maxFiles: number;
   maxFileBytes: number;
   maxSnippets: number;
+  maxSnippetsPerFile?: number;
   snippetContextLines: number;
+  // Snap excerpts to the enclosing function/type within this many lines (see searchRepo).
+  excerptMaxLines?: number;
+  // Bonus for design doc / RFC hits (see searchRepo).
+  designDocBoost?: number;
   maxContextChars: number;
+  indexDir?: string;
+  // "references" lists call sites / usages of the one identifier or config key named by the query.
+  mode?: "search" | "references";
+  // Per-repo cap on listed references (mode "references").
+  maxReferences?: number;
+  // Adds embedding matches to keyword hits (hybrid retrieval); keyword-only when unset.
+  embeddings?: RepoEmbeddingOptions;
 };
 
-type RepoWithName = {
+// Not structured-cloneable, so kept apart from MultiRepoSearchOptions (which is posted to workers).
+export type RepoSearchControl = {
+  // Stops the scan between file batches; repos that finished are still returned, with a warning.
+  signal?: AbortSignal;
+  // Receives the merged results of the repos finished so far, so a search cut off later isn't empty.
+  onPartial?: (result: MultiRepoSearchResult) => void;
+};
+
+export type RepoWithName = {
   repoPath: string;
   repoLabel: string;
+  pathFilter: RepoPathFilter;
+  ref?: string;
+  // For permalinks: the repo's GitHub URL and the commit that was searched (see withPermalinkBase).
+  webUrl?: string;
+  commit?: string;
 };
 
-function normalizeRepos(repos: RepoTarget[]): RepoWithName[] {
+export function normalizeRepos(repos: RepoTarget[]): RepoWithName[] {
   const out: RepoWithName[] = [];
   const seen = new Set<string>();
 
   for (const repo of repos) {
     const abs = path.resolve((repo.path ?? "").trim());
     if (!abs) continue;
-    if (seen.has(abs)) continue;
-    seen.add(abs);
+    const key = `${abs}\0${repo.ref ?? ""}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
 
     const fallbackName = path.basename(abs) || abs;
     const label = (repo.displayName ?? repo.name ?? "").trim() || fallbackName;
-    out.push({ repoPath: abs, repoLabel: label });
+    const pathFilter: RepoPathFilter = { include: repo.include, exclude: repo.exclude, maxDepth: repo.maxDepth };
+    out.push({
+      repoPath: abs,
+      repoLabel: label,
+      pathFilter,
+      ...(repo.ref ? { ref: repo.ref } : {}),
+      ...(repo.githubUrl ? { webUrl: repo.githubUrl } : {})
+    });
   }
   return out;
 }
 
-function snippetSource(repoPath: string, snippet: RepoSnippet): string {
-  return `${path.join(repoPath, snippet.filePath)}:${snippet.matchLine}`;
+// Resolves what repoSource needs for a GitHub permalink once the repo's search has pinned a commit.
+export async function withPermalinkBase(repo: RepoWithName, commit: string | undefined): Promise<RepoWithName> {
+  const webUrl = await repoWebUrl(repo.repoPath, repo.webUrl);
+  return { ...repo, ...(webUrl ? { webUrl } : {}), ...(commit ? { commit } : {}) };
 }
 
-export async function searchReposLocal(opts: MultiRepoSearchOptions): Promise<MultiRepoSearchResult> {
-  const query = opts.query.trim();
-  const repos = normalizeRepos(opts.repos);
-  if (!query || repos.length === 0) return { query, contextText: "", sources: [] };
+/**
+ * A GitHub blob permalink (`.../blob/<sha>/<path>#L120`) when the repo's web URL and searched
+ * commit are known; otherwise `name@variant:path:line`, since local checkout paths mean nothing
+ * to readers of the answer.
+ */
+export function repoSource(
+  repo: { repoLabel: string; webUrl?: string; commit?: string },
+  filePath: string,
+  line: number
+): string {
+  if (repo.webUrl && repo.commit) return blobPermalink(repo.webUrl, repo.commit, filePath, line);
+  return `${repo.repoLabel}:${filePath}:${line}`;
+}
 
-  const perRepoMaxSnippets = Math.max(opts.maxSnippets, 1);
+function snippetSource(repo: RepoWithName, snippet: RepoSnippet): string {
+  return repoSource(repo, snippet.filePath, snippet.matchLine);
+}
 
-  const results = await Promise.all(
-    repos.map(async (r) => {
-      const res = await searchRepo({
-        repoPath: r.repoPath,
-        query,
-        maxFiles: opts.maxFiles,
-        maxFileBytes: opts.maxFileBytes,
-        maxSnippets: perRepoMaxSnippets,
-        snippetContextLines: opts.snippetContextLines,
-        maxContextChars: opts.maxContextChars
-      });
-      return { repo: r, snippets: res.snippets };
-    })
-  );
+type RepoResult = {
+  repo: RepoWithName;
+  snippets: RepoSnippet[];
+  commit?: string;
+  corpus?: CorpusStats;
+  semantic?: RepoSnippet[];
+};
+
+type RankedSnippet = { repo: RepoWithName; snippet: RepoSnippet; score: number };
+
+// Reciprocal rank fusion constant; larger values flatten the advantage of the top ranks.
+const RRF_K = 60;
+
+/**
+ * Merges the keyword and semantic rankings by reciprocal rank fusion (BM25 and cosine scores
+ * aren't comparable, ranks are). A semantic hit overlapping a keyword excerpt boosts that excerpt
+ * instead of repeating the same lines.
+ */
+function fuseRankings(keyword: RankedSnippet[], semantic: RankedSnippet[]): RankedSnippet[] {
+  const fused = keyword.map((k, i) => ({ ...k, score: 1 / (RRF_K + i + 1) }));
+  semantic.forEach((s, i) => {
+    const contribution = 1 / (RRF_K + i + 1);
+    const overlap = fused.find(
+      (f) =>
+        f.snippet.kind !== "semantic" &&
+        f.repo === s.repo &&
+        f.snippet.filePath === s.snippet.filePath &&
+        f.snippet.startLine <= s.snippet.endLine &&
+        s.snippet.startLine <= f.snippet.endLine
+    );
+    if (overlap) overlap.score += contribution;
+    else fused.push({ ...s, score: contribution });
+  });
+  // Stable sort: on equal scores the keyword hit stays ahead.
+  return fused.sort((a, b) => b.score - a.score);
+}
 
-  const all: Array<{ repo: RepoWithName; snippet: RepoSnippet }> = [];
+export function searchTimeoutError(timeoutMs: number): Error {
+  const limit = timeoutMs >= 1000 ? `${Math.round(timeoutMs / 1000)}s` : `${timeoutMs}ms`;
+  return new Error(`Repo search timed out after ${limit}`);
+}
+
+// "Repo search timed out after 60s; results are partial (2 of 3 repos searched)".
+export function partialSearchWarning(reason: unknown, searched: number, total: number): string {
+  const why = reason instanceof Error && reason.message ? reason.message : "Repo search was stopped";
+  return `${why}; results are partial (${searched} of ${total} repos searched)`;
+}
+
+function mergeRepoResults(query: string, results: RepoResult[], opts: MultiRepoSearchOptions): MultiRepoSearchResult {
+  // Per-repo scores use per-repo IDF; re-score against the combined corpus so they are comparable.
+  const corpus = mergeCorpusStats(results.map((r) => r.corpus));
+  const keyword: RankedSnippet[] = [];
   for (const r of results) {
-    for (const s of r.snippets) all.push({ repo: r.repo, snippet: s });
+    for (const s of r.snippets) keyword.push({ repo: r.repo, snippet: s, score: bm25Score(s.scoring, corpus) });
   }
+  keyword.sort((a, b) => b.score - a.score);
 
-  all.sort((a, b) => b.snippet.score - a.snippet.score);
-  const selected = all.slice(0, Math.max(opts.maxSnippets, 1));
+  const semantic: RankedSnippet[] = results.flatMap((r) =>
+    (r.semantic ?? []).map((s) => ({ repo: r.repo, snippet: s, score: s.score }))
+  );
+  semantic.sort((a, b) => b.score - a.score);
+
+  const ranked = semantic.length > 0 ? fuseRankings(keyword, semantic) : keyword;
+  const selected = ranked.slice(0, Math.max(opts.maxSnippets, 1));
 
   const sources: string[] = [];
   const seenSources = new Set<string>();
   for (const { repo, snippet } of selected) {
-    const src = snippetSource(repo.repoPath, snippet);
+    const src = snippetSource(repo, snippet);
     if (seenSources.has(src)) continue;
     seenSources.add(src);
     sources.push(src);
@@ -86,11 +205,112 @@ export async function searchReposLocal(opts: MultiRepoSearchOptions): Promise<Mu
 
   let contextText = "";
   for (const { repo, snippet } of selected) {
-    const src = snippetSource(repo.repoPath, snippet);
-    const block = `Repo: ${repo.repoLabel}\nFile: ${src}\n${snippet.excerpt}\n`;
+    const src = snippetSource(repo, snippet);
+    const block = `Repo: ${repo.repoLabel}\nFile: ${src}${describeSnippet(snippet)}\n${snippet.excerpt}\n`;
     if (contextText.length + block.length > opts.maxContextChars) break;
     contextText += `${contextText ? "\n" : ""}${block}`;
   }
 
-  return { query, contextText: contextText.trim(), sources };
+  const hits: RepoHit[] = selected.map(({ repo, snippet }) => ({
+    repoPath: repo.repoPath,
+    ...(repo.ref ? { ref: repo.ref } : {}),
+    filePath: snippet.filePath,
+    line: snippet.matchLine,
+    ...(snippet.kind === "definition" && snippet.symbol ? { symbol: snippet.symbol } : {})
+  }));
+
+  const searchedRepos = results.map((r) => ({
+    label: r.repo.repoLabel,
+    path: r.repo.repoPath,
+    ...(r.repo.ref ? { ref: r.repo.ref } : {}),
+    commit: r.commit
+  }));
+
+  return { query, contextText: contextText.trim(), sources, hits, searchedRepos };
+}
+
+export async function searchReposLocal(
+  opts: MultiRepoSearchOptions,
+  control: RepoSearchControl = {}
+): Promise<MultiRepoSearchResult> {
+  const query = opts.query.trim();
+  const parsed = parseRepoQuery(query);
+  const repos = normalizeRepos(opts.repos.filter((r) => matchesRepoFilters(parsed, r)));
+  if (!query || repos.length === 0) return { query, contextText: "", sources: [], hits: [], searchedRepos: [] };
+
+  const perRepoMaxSnippets = Math.max(opts.maxSnippets, 1);
+
+  const finished: RepoResult[] = [];
+  // Keyword-only or still-indexing semantic results; they make the result partial, so it isn't cached.
+  const semanticWarnings: string[] = [];
+  const settled = await Promise.all(
+    repos.map(async (r): Promise<RepoResult | undefined> => {
+      try {
+        const semanticPromise = opts.embeddings
+          ? searchRepoSemantic({
+              repoPath: r.repoPath,
+              query,
+              maxFiles: opts.maxFiles,
+              maxFileBytes: opts.maxFileBytes,
+              maxHits: perRepoMaxSnippets,
+              embeddings: opts.embeddings,
+              indexDir: opts.indexDir,
+              pathFilter: r.pathFilter,
+              ref: r.ref,
+              signal: control.signal
+            }).catch((error: unknown) => {
+              // The embeddings endpoint is optional; keyword results still stand without it.
+              if (control.signal?.aborted) throw error;
+              logger.warn({ err: error, repo: r.repoLabel }, "Semantic repo search failed; using keyword hits only");
+              const msg = error instanceof Error ? error.message : String(error);
+              semanticWarnings.push(`Semantic search of ${r.repoLabel} failed (${msg}); keyword results only`);
+              return undefined;
+            })
+          : undefined;
+        const keywordPromise = searchRepo({
+          repoPath: r.repoPath,
+          query,
+          maxFiles: opts.maxFiles,
+          maxFileBytes: opts.maxFileBytes,
+          maxSnippets: perRepoMaxSnippets,
+          maxSnippetsPerFile: opts.maxSnippetsPerFile,
+          snippetContextLines: opts.snippetContextLines,
+          excerptMaxLines: opts.excerptMaxLines,
+          designDocBoost: opts.designDocBoost,
+          maxContextChars: opts.maxContextChars,
+          indexDir: opts.indexDir,
+          pathFilter: r.pathFilter,
+          ref: r.ref,
+          signal: control.signal
+        });
+        const [res, semantic] = await Promise.all([keywordPromise, semanticPromise]);
+        if (semantic && semantic.deferredFiles > 0) {
+          semanticWarnings.push(`Semantic index of ${r.repoLabel} is still being built; results may be incomplete`);
+        }
+        const repo = await withPermalinkBase(r, res.commit);
+        const result: RepoResult = {
+          repo,
+          snippets: res.snippets,
+          commit: res.commit,
+          corpus: res.corpus,
+          semantic: semantic?.snippets
+        };
+        finished.push(result);
+        if (control.onPartial && finished.length < repos.length) control.onPartial(mergeRepoResults(query, finished, opts));
+        return result;
+      } catch (error) {
+        // Stopped repos are left out; whatever finished is still returned.
+        if (control.signal?.aborted) return undefined;
+        throw error;
+      }
+    })
+  );
+
+  const results = settled.filter((r): r is RepoResult => !!r);
+  const merged = mergeRepoResults(query, results, opts);
+  const warnings =
+    results.length === repos.length
+      ? semanticWarnings
+      : [partialSearchWarning(control.signal?.reason, results.length, repos.length), ...semanticWarnings];
+  return warnings.length > 0 ? { ...merged, warnings } : merged;
 }
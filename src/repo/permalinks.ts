@@ -0,0 +1,34 @@
+import { isGitRepo, runGit } from "./git.js";
+
+// Per checkout; remotes practically never change while the bot runs.
+const originUrls = new Map<string, Promise<string | undefined>>();
+
+/**
+ * `https://github.com/<org>/<repo>` for a GitHub remote URL (`git@github.com:org/repo.git`,
+ * `https://github.com/org/repo`, `ssh://git@github.com/org/repo.git`); undefined otherwise.
+ */
+export function githubWebUrl(remoteUrl: string): string | undefined {
+  const m = /^(?:(?:https?|ssh|git):\/\/)?(?:[^@/\s]+@)?github\.com[:/]([\w.-]+)\/([\w.-]+?)(?:\.git)?\/?$/.exec(remoteUrl.trim());
+  return m ? `https://github.com/${m[1]}/${m[2]}` : undefined;
+}
+
+function originWebUrl(repoPath: string): Promise<string | undefined> {
+  let cached = originUrls.get(repoPath);
+  if (!cached) {
+    cached = isGitRepo(repoPath)
+      ? runGit(repoPath, ["remote", "get-url", "origin"]).then((out) => (out ? githubWebUrl(out.toString("utf8")) : undefined))
+      : Promise.resolve(undefined);
+    originUrls.set(repoPath, cached);
+  }
+  return cached;
+}
+
+// Web URL permalinks point into: the `github_url` override (mirrors), else the GitHub `origin` remote.
+export async function repoWebUrl(repoPath: string, override?: string): Promise<string | undefined> {
+  return override?.trim().replace(/\/+$/, "") || originWebUrl(repoPath);
+}
+
+export function blobPermalink(webUrl: string, commit: string, filePath: string, line: number): string {
+  const encodedPath = filePath.split("/").map(encodeURIComponent).join("/");
+  return `${webUrl}/blob/${commit}/${encodedPath}#L${line}`;
+}
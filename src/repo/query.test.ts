@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+
+import { matchContentFilters, matchesPathFilters, matchesRepoFilters, parseRepoQuery } from "./query.js";
+
+describe("parseRepoQuery", () => {
+  it("keeps bare words and phrases as text", () => {
+    const q = parseRepoQuery('owner election "changefeed state" ok');
+    expect(q.text).toBe('owner election "changefeed state" ok');
+    expect(q.phrases).toEqual(["changefeed state"]);
+    expect(q.paths).toEqual([]);
+  });
+
+  it("parses path, file, lang and repo operators", () => {
+    const q = parseRepoQuery("path:pkg/sink file:**/*_test.go lang:golang lang:nope repo:TiCDC owner");
+    expect(q.paths).toEqual(["pkg/sink", "**/*_test.go"]);
+    expect(q.langs).toEqual(["go"]);
+    expect(q.repos).toEqual(["ticdc"]);
+    expect(q.text).toBe("owner");
+  });
+
+  it("parses re: in slash, quoted and bare forms", () => {
+    const q = parseRepoQuery('re:/func .*Owner/i re:"Campaign\\(" re:Resign\\w+ re:/(/');
+    expect(q.regexes.map((rx) => [rx.source, rx.flags])).toEqual([
+      ["func .*Owner", "i"],
+      ["Campaign\\(", ""],
+      ["Resign\\w+", ""]
+    ]);
+    expect(q.text).toBe("");
+  });
+
+  it("parses negations", () => {
+    const q = parseRepoQuery('-path:tests -lang:md -re:/mock/ -repo:tidb -Mock -"fake sink" owner');
+    expect(q.exclude).toEqual({
+      terms: ["mock", "fake sink"],
+      paths: ["tests"],
+      langs: ["markdown"],
+      regexes: [/mock/],
+      repos: ["tidb"]
+    });
+    expect(q.text).toBe("owner");
+  });
+
+  it("keeps a lone dash and flag-looking words as text", () => {
+    expect(parseRepoQuery("a - b --force").text).toBe("a - b --force");
+  });
+});
+
+describe("matchesPathFilters", () => {
+  it("applies path and language filters", () => {
+    const q = parseRepoQuery("path:pkg lang:go -path:**/*_test.go");
+    expect(matchesPathFilters(q, "pkg/sink/mysql.go")).toBe(true);
+    expect(matchesPathFilters(q, "pkg/sink/mysql_test.go")).toBe(false);
+    expect(matchesPathFilters(q, "pkg/sink/README.md")).toBe(false);
+    expect(matchesPathFilters(q, "cmd/main.go")).toBe(false);
+  });
+
+  it("excludes languages", () => {
+    const q = parseRepoQuery("-lang:md");
+    expect(matchesPathFilters(q, "docs/a.md")).toBe(false);
+    expect(matchesPathFilters(q, "Makefile")).toBe(true);
+  });
+});
+
+describe("matchContentFilters", () => {
+  it("requires phrases and every regex, and returns the regex lines", () => {
+    const q = parseRepoQuery('"owner id" re:/Campaign/ re:/Resign/');
+    const lines = ["// owner ID", "func Campaign() {}", "func Resign() {}"];
+    const text = lines.join("\n").toLowerCase();
+    expect(matchContentFilters(q, lines, text)).toEqual(new Set([2, 3]));
+    expect(matchContentFilters(q, lines.slice(0, 2), lines.slice(0, 2).join("\n").toLowerCase())).toBeUndefined();
+  });
+
+  it("rejects files with negated terms or regexes", () => {
+    const lines = ["func Campaign() {}", "mockOwner := 1"];
+    const text = lines.join("\n").toLowerCase();
+    expect(matchContentFilters(parseRepoQuery("-mock"), lines, text)).toBeUndefined();
+    expect(matchContentFilters(parseRepoQuery("-re:/^mock/"), lines, text)).toBeUndefined();
+    expect(matchContentFilters(parseRepoQuery("-fake"), lines, text)).toEqual(new Set());
+  });
+});
+
+describe("matchesRepoFilters", () => {
+  it("matches the name or name@variant", () => {
+    const q = parseRepoQuery("repo:ticdc");
+    expect(matchesRepoFilters(q, { name: "ticdc" })).toBe(true);
+    expect(matchesRepoFilters(q, { name: "x", displayName: "TiCDC@release-8.5" })).toBe(true);
+    expect(matchesRepoFilters(q, { name: "ticdc-ng" })).toBe(false);
+    expect(matchesRepoFilters(parseRepoQuery("-repo:ticdc"), { name: "ticdc@master" })).toBe(false);
+    expect(matchesRepoFilters(parseRepoQuery("owner"), { name: "tidb" })).toBe(true);
+  });
+});
@@ -0,0 +1,223 @@
+import path from "node:path";
+
+import { matchesPathPattern } from "./glob.js";
+
+/**
+ * Repo search query syntax (understood by `searchRepo` / `searchReposLocal`):
+ *
+ * - bare words: keywords, ranked by how often they hit (same as before)
+ * - `"exact phrase"`: the file must contain the phrase (case-insensitive)
+ * - `path:pkg/sink` / `path:**\/owner*.go`: only files under / matching the path or glob (`file:` is an alias)
+ * - `lang:go` / `lang:rust`: only files of that language
+ * - `re:/func .*Owner/` or `re:"func .*Owner"` or `re:Owner\w+`: the file must have a line matching the regex
+ * - `repo:ticdc`: only that configured repo (matched against name or name@variant)
+ * - `-word`, `-"phrase"`, `-path:...`, `-lang:...`, `-re:...`, `-repo:...`: negations
+ */
+export type RepoQuery = {
+  // Free text (bare words and quoted phrases) used for keyword scoring.
+  text: string;
+  phrases: string[];
+  regexes: RegExp[];
+  paths: string[];
+  langs: string[];
+  repos: string[];
+  exclude: {
+    terms: string[];
+    paths: string[];
+    langs: string[];
+    regexes: RegExp[];
+    repos: string[];
+  };
+};
+
+export const QUERY_SYNTAX_HELP = [
+  "Repo query syntax (optional operators, combine with plain keywords):",
+  '- "exact phrase" (must appear), path:pkg/sink or path:**/*_test.go (path prefix or glob), lang:go|rust|cpp|ts|py|md|proto|toml',
+  "- re:/regex/ (a line must match, e.g. re:/func .*Owner/), repo:ticdc (limit to a configured repo)",
+  "- prefix any of them (or a word) with - to exclude, e.g. -path:tests -lang:md -mock"
+].join("\n");
+
+const LANGUAGE_EXTENSIONS: Record<string, string[]> = {
+  go: [".go"],
+  rust: [".rs"],
+  cpp: [".cc", ".cpp", ".cxx", ".c", ".h", ".hh", ".hpp", ".hxx", ".ipp"],
+  ts: [".ts", ".tsx", ".mts", ".cts"],
+  js: [".js", ".jsx", ".mjs", ".cjs"],
+  python: [".py"],
+  java: [".java"],
+  proto: [".proto"],
+  markdown: [".md", ".markdown"],
+  toml: [".toml"],
+  yaml: [".yaml", ".yml"],
+  json: [".json"],
+  sql: [".sql", ".test", ".result"],
+  shell: [".sh", ".bash"]
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  golang: "go",
+  rs: "rust",
+  "c++": "cpp",
+  cc: "cpp",
+  c: "cpp",
+  typescript: "ts",
+  javascript: "js",
+  py: "python",
+  md: "markdown",
+  yml: "yaml",
+  sh: "shell",
+  bash: "shell"
+};
+
+function normalizeLanguage(raw: string): string | undefined {
+  const v = raw.trim().toLowerCase();
+  if (!v) return undefined;
+  const name = LANGUAGE_ALIASES[v] ?? v;
+  return LANGUAGE_EXTENSIONS[name] ? name : undefined;
+}
+
+// Test sources and fixtures, which usually rank after the code they exercise.
+export function isTestPath(relPath: string): boolean {
+  return /(?:_test\.go|_test\.rs|_test\.cpp|Test\.java)$/.test(relPath) || /(?:^|\/)(?:tests?|testdata)\//.test(relPath);
+}
+
+// Design docs / RFCs / proposals written in Markdown, e.g. `docs/design/2023-04-10-owner-election.md`.
+export function isDesignDocPath(relPath: string): boolean {
+  return /\.(?:md|markdown|mdx)$/i.test(relPath) && /design|rfc|proposal/i.test(relPath);
+}
+
+export function fileLanguage(relPath: string): string | undefined {
+  const ext = path.extname(relPath).toLowerCase();
+  if (!ext) return undefined;
+  for (const [lang, exts] of Object.entries(LANGUAGE_EXTENSIONS)) {
+    if (exts.includes(ext)) return lang;
+  }
+  return undefined;
+}
+
+function compileRegex(source: string, flags: string): RegExp | undefined {
+  try {
+    return new RegExp(source, flags.replace(/[gy]/g, ""));
+  } catch {
+    return undefined;
+  }
+}
+
+export function parseRepoQuery(query: string): RepoQuery {
+  const out: RepoQuery = {
+    text: "",
+    phrases: [],
+    regexes: [],
+    paths: [],
+    langs: [],
+    repos: [],
+    exclude: { terms: [], paths: [], langs: [], regexes: [], repos: [] }
+  };
+  const textParts: string[] = [];
+
+  const re = /(^|\s)(-?)(?:(path|file|lang|re|repo):)?(?:"([^"]*)"|\/((?:[^/\\]|\\.)+)\/([a-z]*)(?=\s|$)|(\S+))/g;
+  for (const m of query.matchAll(re)) {
+    const negated = m[2] === "-";
+    const op = m[3];
+    const quoted = m[4];
+    const slashed = m[5];
+    const flags = m[6] ?? "";
+    const bare = m[7];
+
+    if (op === "re") {
+      const rx = slashed !== undefined ? compileRegex(slashed, flags) : compileRegex(quoted ?? bare ?? "", "");
+      if (rx) (negated ? out.exclude.regexes : out.regexes).push(rx);
+      continue;
+    }
+
+    const value = (quoted ?? (slashed !== undefined ? `/${slashed}/${flags}` : bare) ?? "").trim();
+    if (!value) continue;
+
+    if (op === "path" || op === "file") {
+      (negated ? out.exclude.paths : out.paths).push(value);
+      continue;
+    }
+    if (op === "lang") {
+      const lang = normalizeLanguage(value);
+      if (lang) (negated ? out.exclude.langs : out.langs).push(lang);
+      continue;
+    }
+    if (op === "repo") {
+      (negated ? out.exclude.repos : out.repos).push(value.toLowerCase());
+      continue;
+    }
+
+    if (negated) {
+      // A lone "-" or "--flag"-looking word is kept as text rather than treated as a negation.
+      if (!quoted && (!bare || bare.startsWith("-"))) {
+        textParts.push(`-${value}`);
+        continue;
+      }
+      out.exclude.terms.push(value.toLowerCase());
+      continue;
+    }
+
+    if (quoted !== undefined) {
+      if (value.length >= 3) out.phrases.push(value.toLowerCase());
+      textParts.push(`"${value}"`);
+      continue;
+    }
+    textParts.push(slashed !== undefined ? `/${slashed}/` : value);
+  }
+
+  out.text = textParts.join(" ").trim();
+  return out;
+}
+
+export function hasQueryFilters(q: RepoQuery): boolean {
+  return q.phrases.length > 0 || q.regexes.length > 0 || q.paths.length > 0 || q.langs.length > 0;
+}
+
+export function matchesPathFilters(q: RepoQuery, relPath: string): boolean {
+  if (q.paths.length > 0 && !q.paths.some((p) => matchesPathPattern(relPath, p))) return false;
+  if (q.exclude.paths.some((p) => matchesPathPattern(relPath, p))) return false;
+
+  if (q.langs.length > 0 || q.exclude.langs.length > 0) {
+    const lang = fileLanguage(relPath);
+    if (q.langs.length > 0 && (!lang || !q.langs.includes(lang))) return false;
+    if (lang && q.exclude.langs.includes(lang)) return false;
+  }
+  return true;
+}
+
+/**
+ * Applies content filters (phrases, regexes, negated terms/regexes) to a file.
+ * Returns the 1-based lines matching the positive regexes (for scoring), or undefined if the file is rejected.
+ */
+export function matchContentFilters(q: RepoQuery, lines: string[], textLower: string): Set<number> | undefined {
+  for (const phrase of q.phrases) {
+    if (!textLower.includes(phrase)) return undefined;
+  }
+  for (const term of q.exclude.terms) {
+    if (textLower.includes(term)) return undefined;
+  }
+
+  const regexLines = new Set<number>();
+  if (q.regexes.length === 0 && q.exclude.regexes.length === 0) return regexLines;
+
+  const matchedRegexes = new Set<number>();
+  for (let i = 0; i < lines.length; i += 1) {
+    const line = lines[i] ?? "";
+    if (q.exclude.regexes.some((rx) => rx.test(line))) return undefined;
+    q.regexes.forEach((rx, idx) => {
+      if (!rx.test(line)) return;
+      matchedRegexes.add(idx);
+      regexLines.add(i + 1);
+    });
+  }
+  if (matchedRegexes.size < q.regexes.length) return undefined;
+  return regexLines;
+}
+
+export function matchesRepoFilters(q: RepoQuery, repo: { name?: string; displayName?: string }): boolean {
+  const names = [repo.name, repo.displayName].map((n) => (n ?? "").trim().toLowerCase()).filter(Boolean);
+  const hit = (pattern: string) => names.some((n) => n === pattern || n.startsWith(`${pattern}@`));
+  if (q.repos.length > 0 && !q.repos.some(hit)) return false;
+  if (q.exclude.repos.some(hit)) return false;
+  return true;
+}
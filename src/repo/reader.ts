@@ -0,0 +1,98 @@
+import path from "node:path";
+
+import { decodeRepoText, readRepoTextFile, statRepoFile, type RepoTextFile } from "./fileText.js";
+import { readGitBlobs, resolveGitRef, runGit, type GitTreeEntry } from "./git.js";
+
+export type RepoFileStat = {
+  size: number;
+  mtimeMs: number;
+  // Blob id when reading from a git ref; changes whenever the content does.
+  oid?: string;
+};
+
+/**
+ * Where a repo's files come from: the working tree, or the blobs of one git ref
+ * (`[repo.<name>] variants = [...]`), so several branches can share one clone.
+ */
+export type RepoFileReader = {
+  repoPath: string;
+  ref?: string;
+  // Identity for caches and on-disk indexes: the working tree path, or `<path>@<ref>`.
+  key: string;
+  stat(relPath: string): RepoFileStat | undefined;
+  // Texts of readable (non-binary, size-limited) files; unreadable paths are left out.
+  read(relPaths: string[], maxFileBytes: number): Promise<Map<string, RepoTextFile>>;
+};
+
+const BLOB_BATCH = 256;
+
+export function workingTreeReader(repoPath: string): RepoFileReader {
+  return {
+    repoPath,
+    key: repoPath,
+    stat(relPath) {
+      const st = statRepoFile(path.join(repoPath, relPath));
+      return st ? { size: st.size, mtimeMs: st.mtimeMs } : undefined;
+    },
+    async read(relPaths, maxFileBytes) {
+      const out = new Map<string, RepoTextFile>();
+      for (const relPath of relPaths) {
+        const file = readRepoTextFile(path.join(repoPath, relPath), maxFileBytes);
+        if (file) out.set(relPath, file);
+      }
+      return out;
+    }
+  };
+}
+
+export function gitRefReader(repoPath: string, ref: string, tree: Map<string, GitTreeEntry>): RepoFileReader {
+  return {
+    repoPath,
+    ref,
+    key: `${repoPath}@${ref}`,
+    stat(relPath) {
+      const entry = tree.get(relPath);
+      return entry ? { size: entry.size, mtimeMs: 0, oid: entry.oid } : undefined;
+    },
+    async read(relPaths, maxFileBytes) {
+      const out = new Map<string, RepoTextFile>();
+      const wanted = relPaths.filter((p) => {
+        const size = tree.get(p)?.size ?? 0;
+        return size > 0 && size <= maxFileBytes;
+      });
+
+      for (let i = 0; i < wanted.length; i += BLOB_BATCH) {
+        const batch = wanted.slice(i, i + BLOB_BATCH);
+        const blobs = await readGitBlobs(repoPath, batch.map((p) => tree.get(p)!.oid));
+        for (const relPath of batch) {
+          const entry = tree.get(relPath)!;
+          const buf = blobs.get(entry.oid);
+          const text = buf ? decodeRepoText(buf, maxFileBytes) : undefined;
+          if (text !== undefined) out.set(relPath, { text, size: entry.size, mtimeMs: 0 });
+        }
+      }
+      return out;
+    }
+  };
+}
+
+/**
+ * Reads one file of a repo variant without building its file index: from the working tree,
+ * or `git cat-file` on the commit the variant's ref points to (returned as `commit`).
+ */
+export async function readVariantFile(
+  repo: { path: string; ref?: string },
+  relPath: string,
+  maxFileBytes: number
+): Promise<{ text: string; commit?: string } | undefined> {
+  if (!repo.ref) {
+    const file = readRepoTextFile(path.join(repo.path, relPath), maxFileBytes);
+    return file ? { text: file.text } : undefined;
+  }
+
+  const commit = await resolveGitRef(repo.path, repo.ref);
+  if (!commit) return undefined;
+  const buf = await runGit(repo.path, ["cat-file", "blob", `${commit}:${relPath}`]);
+  const text = buf ? decodeRepoText(buf, maxFileBytes) : undefined;
+  return text !== undefined ? { text, commit } : undefined;
+}
@@ -0,0 +1,338 @@
+import path from "node:path";
+
+import {
+  hasQueryFilters,
+  isTestPath,
+  matchContentFilters,
+  matchesPathFilters,
+  matchesRepoFilters,
+  parseRepoQuery
+} from "./query.js";
+import {
+  normalizeRepos,
+  partialSearchWarning,
+  repoSource,
+  withPermalinkBase,
+  type MultiRepoSearchOptions,
+  type MultiRepoSearchResult,
+  type RepoHit,
+  type RepoSearchControl,
+  type RepoWithName
+} from "./multiSearchLocal.js";
+import { abortCheckpoint, getRepoIndex, type RepoPathFilter } from "./search.js";
+import { extractSymbols, formatSymbol, type RepoSymbol } from "./symbols.js";
+import { narrowFilesWithTrigramIndex } from "./trigramIndex.js";
+
+export type RepoReferenceKind = "call" | "field" | "config" | "reference";
+
+export type RepoReference = {
+  filePath: string;
+  line: number;
+  kind: RepoReferenceKind;
+  // The referencing line, trimmed.
+  text: string;
+  // Enclosing function/method (Go/Rust/C++), e.g. "method gcWorker.run".
+  caller?: string;
+};
+
+/**
+ * What to look for: an identifier (`UpdateGCSafePoint`, `Sink.WriteEvents`, `safeModeDuration`)
+ * or a config key (`"gc.ratio-threshold"`, `max-txn-ttl`): quoted or dashed names are config keys.
+ */
+export type ReferenceTarget =
+  | { kind: "symbol"; name: string; container?: string }
+  | { kind: "config"; key: string; leaf: string };
+
+const DEFAULT_MAX_REFERENCES = 60;
+const MAX_LINE_CHARS = 160;
+const READ_BATCH = 256;
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function parseReferenceTarget(text: string): ReferenceTarget | undefined {
+  const quoted = /"([^"]+)"|'([^']+)'/.exec(text);
+  const word = quoted ? (quoted[1] ?? quoted[2]) : text.split(/\s+/).find((w) => /[A-Za-z_]/.test(w));
+  const raw = word
+    ?.trim()
+    .replace(/^[`(]+|[`),;?]+$/g, "")
+    .replace(/\(\)$/, "");
+  if (!raw || /\s/.test(raw)) return undefined;
+
+  if (quoted || raw.includes("-")) {
+    const parts = raw.split(/[.:]/).filter(Boolean);
+    const leaf = parts[parts.length - 1] ?? raw;
+    return { kind: "config", key: raw, leaf };
+  }
+
+  const parts = raw.split(/::|\./g).filter((p) => /^[A-Za-z_]\w*$/.test(p));
+  const name = parts[parts.length - 1];
+  if (!name || name.length < 3) return undefined;
+  const container = parts.length >= 2 ? parts[parts.length - 2] : undefined;
+  return container ? { kind: "symbol", name, container } : { kind: "symbol", name };
+}
+
+export function describeReferenceTarget(target: ReferenceTarget): string {
+  if (target.kind === "config") return `config key "${target.key}"`;
+  return target.container ? `${target.container}.${target.name}` : target.name;
+}
+
+function isCommentLine(line: string): boolean {
+  return /^\s*(?:\/\/|\/\*|\*|#(?!\[)|--)/.test(line);
+}
+
+// Go packages are directories; for Rust/C++ the directory is the closest cheap equivalent.
+function packageOf(filePath: string): string {
+  const dir = path.posix.dirname(filePath);
+  return dir === "." ? "(root)" : dir;
+}
+
+function classifySymbolUse(line: string, match: RegExpExecArray): RepoReferenceKind {
+  const before = line.slice(0, match.index + match[1]!.length);
+  const after = line.slice(match.index + match[0].length);
+  // `Name(`, `Name[T](` (Go generics), `name::<T>(` (Rust turbofish).
+  if (/^\s*(?:\[[^\]]*\]|::<[^>]*>)?\s*\(/.test(after)) return "call";
+  if (/\.\s*$/.test(before)) return "field";
+  // Struct literal keys: `Name: value` (Go/Rust), but not `Name::path`.
+  if (/^\s*:(?!:)/.test(after)) return "field";
+  return "reference";
+}
+
+/**
+ * For `Sink.WriteEvents`: whether a use of `WriteEvents` is on a `Sink`. It is when qualified by
+ * it (`Sink.WriteEvents`, `Sink::write_events`), when its receiver names it (`sink.WriteEvents`,
+ * `s.mysqlSink.WriteEvents`), inside a method of `Sink`, or when the file refers to `Sink`
+ * elsewhere (e.g. a `Sink`-typed field or parameter). Calls on unrelated types are dropped.
+ */
+function isOnContainer(
+  line: string,
+  match: RegExpExecArray,
+  container: string,
+  caller: RepoSymbol | undefined,
+  fileMentionsContainer: boolean
+): boolean {
+  if (fileMentionsContainer || caller?.container === container) return true;
+  const before = line.slice(0, match.index + match[1]!.length);
+  const receiver = /([\w.]+?)\s*(?:\.|::)\s*$/.exec(before)?.[1];
+  return !!receiver && receiver.toLowerCase().includes(container.toLowerCase());
+}
+
+function findReferencesInFile(filePath: string, lines: string[], target: ReferenceTarget): RepoReference[] {
+  const out: RepoReference[] = [];
+  const symbols = extractSymbols(filePath, lines);
+  const callables = symbols.filter((s) => s.kind === "func" || s.kind === "method");
+  const declLines = new Set(
+    target.kind === "symbol" ? symbols.filter((s) => s.name === target.name).map((s) => s.line) : []
+  );
+
+  // Config keys are read through quoted strings and struct tags, which may carry options
+  // (`toml:"max-txn-ttl,omitempty"`, `json:"key,string"`).
+  const patterns =
+    target.kind === "symbol"
+      ? [new RegExp(`(^|[^\\w])${escapeRegex(target.name)}(?!\\w)`)]
+      : Array.from(new Set([target.key, target.leaf])).map(
+          (k) => new RegExp(`(["'\`])${escapeRegex(k)}(?:,[^"'\`\\s]*)?\\1`)
+        );
+  const container = target.kind === "symbol" ? target.container : undefined;
+  const containerRx = container ? new RegExp(`(^|[^\\w])${escapeRegex(container)}(?!\\w)`) : undefined;
+  const fileMentionsContainer = !!containerRx && lines.some((l) => !isCommentLine(l) && containerRx.test(l));
+
+  let callerIdx = -1;
+  for (let i = 0; i < lines.length; i += 1) {
+    const lineNo = i + 1;
+    while (callerIdx + 1 < callables.length && callables[callerIdx + 1]!.line <= lineNo) callerIdx += 1;
+
+    const line = lines[i] ?? "";
+    if (declLines.has(lineNo) || isCommentLine(line)) continue;
+
+    for (const rx of patterns) {
+      const m = rx.exec(line);
+      if (!m) continue;
+      const caller: RepoSymbol | undefined = callerIdx >= 0 ? callables[callerIdx] : undefined;
+      if (container && !isOnContainer(line, m, container, caller, fileMentionsContainer)) continue;
+      const kind = target.kind === "config" ? "config" : classifySymbolUse(line, m);
+      const text = line.trim();
+      out.push({
+        filePath,
+        line: lineNo,
+        kind,
+        text: text.length > MAX_LINE_CHARS ? `${text.slice(0, MAX_LINE_CHARS)}…` : text,
+        ...(caller ? { caller: formatSymbol(caller) } : {})
+      });
+      break;
+    }
+  }
+  return out;
+}
+
+/**
+ * Finds references to a function/method (call sites), struct field (selector and literal uses)
+ * or config key (quoted occurrences, e.g. `toml:"max-txn-ttl,omitempty"` or
+ * `cfg.Get("gc.ratio-threshold")`) in one repo. A qualified target (`Sink.WriteEvents`) only
+ * matches uses on that container. Declarations and comment lines are skipped; non-test files
+ * come first.
+ */
+export async function findRepoReferences(opts: {
+  repoPath: string;
+  query: string;
+  maxFiles: number;
+  maxFileBytes: number;
+  maxReferences: number;
+  indexDir?: string;
+  pathFilter?: RepoPathFilter;
+  ref?: string;
+  signal?: AbortSignal;
+}): Promise<{ target?: ReferenceTarget; references: RepoReference[]; commit?: string }> {
+  const parsed = parseRepoQuery(opts.query.trim());
+  const target = parseReferenceTarget(parsed.text);
+  if (!target) return { references: [] };
+
+  // A quoted config key is the target, not a phrase every file must contain (tags often hold only the leaf).
+  const filters = target.kind === "config" ? { ...parsed, phrases: [] } : parsed;
+  const index = await getRepoIndex(opts.repoPath, opts.maxFiles, opts.pathFilter, opts.ref);
+  const termsLower =
+    target.kind === "symbol" ? [target.name.toLowerCase()] : Array.from(new Set([target.key, target.leaf])).map((t) => t.toLowerCase());
+  const narrowed = opts.indexDir
+    ? await narrowFilesWithTrigramIndex({
+        indexDir: opts.indexDir,
+        reader: index.reader,
+        files: index.files,
+        maxFileBytes: opts.maxFileBytes,
+        tokensLower: termsLower,
+        requiredLower: filters.phrases,
+        ...index.trigramScope
+      })
+    : undefined;
+  const files = (narrowed?.files ?? index.files).filter((p) => matchesPathFilters(filters, p));
+
+  const references: RepoReference[] = [];
+  for (let i = 0; i < files.length; i += READ_BATCH) {
+    await abortCheckpoint(opts.signal);
+    const texts = await index.reader.read(files.slice(i, i + READ_BATCH), opts.maxFileBytes);
+    for (const [relPath, file] of texts) {
+      const textLower = file.text.toLowerCase();
+      if (!termsLower.some((t) => textLower.includes(t))) continue;
+      const lines = file.text.split(/\r?\n/g);
+      if (hasQueryFilters(filters) && !matchContentFilters(filters, lines, textLower)) continue;
+      references.push(...findReferencesInFile(relPath, lines, target));
+    }
+  }
+
+  const kindRank: Record<RepoReferenceKind, number> = { call: 0, config: 0, field: 1, reference: 2 };
+  references.sort(
+    (a, b) =>
+      Number(isTestPath(a.filePath)) - Number(isTestPath(b.filePath)) ||
+      kindRank[a.kind] - kindRank[b.kind] ||
+      a.filePath.localeCompare(b.filePath) ||
+      a.line - b.line
+  );
+  return { target, references: references.slice(0, Math.max(1, opts.maxReferences)), commit: index.fingerprint.head };
+}
+
+function formatReferences(repoLabel: string, target: ReferenceTarget, refs: RepoReference[], source: (r: RepoReference) => string): string {
+  const byPackage = new Map<string, RepoReference[]>();
+  for (const r of refs) {
+    const pkg = packageOf(r.filePath);
+    const list = byPackage.get(pkg) ?? [];
+    list.push(r);
+    byPackage.set(pkg, list);
+  }
+
+  const lines = [
+    `Repo: ${repoLabel}`,
+    `References to ${describeReferenceTarget(target)}: ${refs.length} in ${byPackage.size} package${byPackage.size === 1 ? "" : "s"}`
+  ];
+  for (const [pkg, list] of byPackage) {
+    lines.push(`Package ${pkg} (${list.length}):`);
+    for (const r of list) {
+      const where = r.caller ? ` in ${r.caller}` : "";
+      lines.push(`- ${source(r)} [${r.kind}${where}] ${r.text}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+type RepoReferences = {
+  repo: RepoWithName;
+  target?: ReferenceTarget;
+  references: RepoReference[];
+  commit?: string;
+};
+
+function mergeReferenceResults(query: string, results: RepoReferences[], opts: MultiRepoSearchOptions): MultiRepoSearchResult {
+  const sources: string[] = [];
+  const hits: RepoHit[] = [];
+  let contextText = "";
+  for (const { repo, target, references } of results) {
+    if (!target || references.length === 0) continue;
+    const source = (r: RepoReference) => repoSource(repo, r.filePath, r.line);
+    const block = formatReferences(repo.repoLabel, target, references, source);
+    const clipped =
+      contextText.length + block.length > opts.maxContextChars
+        ? block.slice(0, Math.max(0, opts.maxContextChars - contextText.length - 20))
+        : block;
+    if (!clipped.trim()) break;
+    contextText += `${contextText ? "\n\n" : ""}${clipped}${clipped.length < block.length ? "\n…(truncated)" : ""}`;
+
+    for (const r of references) {
+      if (sources.length < Math.max(opts.maxSnippets, 1)) sources.push(source(r));
+      hits.push({ repoPath: repo.repoPath, ...(repo.ref ? { ref: repo.ref } : {}), filePath: r.filePath, line: r.line });
+    }
+  }
+
+  const searchedRepos = results.map((r) => ({
+    label: r.repo.repoLabel,
+    path: r.repo.repoPath,
+    ...(r.repo.ref ? { ref: r.repo.ref } : {}),
+    commit: r.commit
+  }));
+  return { query, contextText, sources, hits, searchedRepos };
+}
+
+/**
+ * `mode: "references"` counterpart of searchReposLocal: the query names one identifier or config
+ * key (plus optional `path:`/`lang:`/`repo:` operators) and the result lists its references per
+ * repo, grouped by package, with `path:line` sources.
+ */
+export async function searchReferencesLocal(
+  opts: MultiRepoSearchOptions,
+  control: RepoSearchControl = {}
+): Promise<MultiRepoSearchResult> {
+  const query = opts.query.trim();
+  const parsed = parseRepoQuery(query);
+  const repos = normalizeRepos(opts.repos.filter((r) => matchesRepoFilters(parsed, r)));
+  if (!query || repos.length === 0) return { query, contextText: "", sources: [], hits: [], searchedRepos: [] };
+
+  const maxReferences = Math.max(1, opts.maxReferences ?? DEFAULT_MAX_REFERENCES);
+  const finished: RepoReferences[] = [];
+  const settled = await Promise.all(
+    repos.map(async (r): Promise<RepoReferences | undefined> => {
+      try {
+        const res = await findRepoReferences({
+          repoPath: r.repoPath,
+          query,
+          maxFiles: opts.maxFiles,
+          maxFileBytes: opts.maxFileBytes,
+          maxReferences,
+          indexDir: opts.indexDir,
+          pathFilter: r.pathFilter,
+          ref: r.ref,
+          signal: control.signal
+        });
+        const result: RepoReferences = { ...res, repo: await withPermalinkBase(r, res.commit) };
+        finished.push(result);
+        if (control.onPartial && finished.length < repos.length) control.onPartial(mergeReferenceResults(query, finished, opts));
+        return result;
+      } catch (error) {
+        if (control.signal?.aborted) return undefined;
+        throw error;
+      }
+    })
+  );
+
+  const results = settled.filter((r): r is RepoReferences => !!r);
+  const merged = mergeReferenceResults(query, results, opts);
+  if (results.length === repos.length) return merged;
+  return { ...merged, warnings: [partialSearchWarning(control.signal?.reason, results.length, repos.length)] };
+}
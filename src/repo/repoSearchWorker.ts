@@ -1,18 +1,34 @@
 import { parentPort } from "node:worker_threads";
 
-import { searchReposLocal, type MultiRepoSearchOptions } from "./multiSearchLocal.js";
+import { watchGitChildren } from "./git.js";
+import { searchReposLocal, type MultiRepoSearchOptions, type RepoSearchControl } from "./multiSearchLocal.js";
+import { searchReferencesLocal } from "./references.js";
 
 type WorkerRequest = { id: number; payload: MultiRepoSearchOptions };
-type WorkerResponse = { id: number; result?: unknown; error?: string };
+type WorkerResponse = { id: number; result?: unknown; partial?: boolean; error?: string };
+// Git processes spawned / exited by this worker, for the pool to kill when it terminates it.
+type WorkerChildMessage = { childPid: number; exited?: boolean };
 
 if (!parentPort) {
   throw new Error("repoSearchWorker started without parentPort");
 }
 
+watchGitChildren({
+  spawned: (pid) => parentPort!.postMessage({ childPid: pid } satisfies WorkerChildMessage),
+  exited: (pid) => parentPort!.postMessage({ childPid: pid, exited: true } satisfies WorkerChildMessage)
+});
+
 parentPort.on("message", async (msg: WorkerRequest) => {
   const id = msg?.id;
+  // Results so far, kept by the pool in case the task hits its deadline and this worker is terminated.
+  const control: RepoSearchControl = {
+    onPartial: (result) => parentPort!.postMessage({ id, result, partial: true } satisfies WorkerResponse)
+  };
   try {
-    const res = await searchReposLocal(msg.payload);
+    const res =
+      msg.payload.mode === "references"
+        ? await searchReferencesLocal(msg.payload, control)
+        : await searchReposLocal(msg.payload, control);
     const out: WorkerResponse = { id, result: res };
     parentPort!.postMessage(out);
   } catch (error) {
@@ -0,0 +1,120 @@
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import type { RepoTarget } from "../config.js";
+import type { MultiRepoSearchOptions, MultiRepoSearchResult } from "./multiSearchLocal.js";
+import { cacheRepoSearch, getCachedRepoSearch, repoSearchCacheKey } from "./resultCache.js";
+
+let tmp = "";
+
+function git(cwd: string, ...args: string[]): void {
+  execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], { cwd, stdio: "ignore" });
+}
+
+function makeRepo(name: string): string {
+  const dir = path.join(tmp, name);
+  fs.mkdirSync(dir);
+  git(dir, "init", "-q", "-b", "master");
+  fs.writeFileSync(path.join(dir, "owner.go"), "package owner\n");
+  git(dir, "add", "-A");
+  git(dir, "commit", "-q", "-m", "init");
+  return dir;
+}
+
+function target(name: string, dir: string, extra: Partial<RepoTarget> = {}): RepoTarget {
+  return { id: name, name, variant: "", path: dir, displayName: name, ...extra };
+}
+
+function options(repos: RepoTarget[], extra: Partial<MultiRepoSearchOptions> = {}): MultiRepoSearchOptions {
+  return { repos, query: "owner election", maxFiles: 100, maxFileBytes: 1 << 20, maxSnippets: 5, snippetContextLines: 2, maxContextChars: 8000, ...extra };
+}
+
+function result(extra: Partial<MultiRepoSearchResult> = {}): MultiRepoSearchResult {
+  return { query: "owner election", contextText: "", sources: [], hits: [], searchedRepos: [{ label: "a", path: "/a" }], ...extra };
+}
+
+beforeAll(() => {
+  tmp = fs.mkdtempSync(path.join(os.tmpdir(), "repo-cache-test-"));
+});
+
+afterAll(() => {
+  fs.rmSync(tmp, { recursive: true, force: true });
+});
+
+describe("repoSearchCacheKey", () => {
+  it("ignores whitespace differences and repo order but not query case", async () => {
+    const a = target("a", makeRepo("a"));
+    const b = target("b", makeRepo("b"));
+    const key = await repoSearchCacheKey(options([a, b]));
+    expect(key).toBeDefined();
+    expect(await repoSearchCacheKey(options([b, a], { query: "  owner \n election " }))).toBe(key);
+    expect(await repoSearchCacheKey(options([a, b], { query: "Owner election" }))).not.toBe(key);
+  });
+
+  it("changes with the limits and the repo scoping", async () => {
+    const a = target("limits", makeRepo("limits"));
+    const key = await repoSearchCacheKey(options([a]));
+    expect(await repoSearchCacheKey(options([a], { maxSnippets: 6 }))).not.toBe(key);
+    expect(await repoSearchCacheKey(options([a], { mode: "references" }))).not.toBe(key);
+    expect(await repoSearchCacheKey(options([{ ...a, exclude: ["vendor"] }]))).not.toBe(key);
+  });
+
+  it("changes when the repo moves to a new commit", async () => {
+    const dir = makeRepo("moving");
+    const key = await repoSearchCacheKey(options([target("moving", dir)]));
+    fs.writeFileSync(path.join(dir, "owner.go"), "package owner\n\nfunc Campaign() {}\n");
+    git(dir, "commit", "-q", "-am", "campaign");
+    expect(await repoSearchCacheKey(options([target("moving", dir)]))).not.toBe(key);
+  });
+
+  it("pins ref variants to the ref's commit", async () => {
+    const dir = makeRepo("variant");
+    git(dir, "branch", "release");
+    const release = target("variant", dir, { variant: "release", ref: "release", displayName: "variant@release" });
+    const key = await repoSearchCacheKey(options([release]));
+    fs.writeFileSync(path.join(dir, "owner.go"), "package owner // changed\n");
+    git(dir, "commit", "-q", "-am", "change master");
+    expect(await repoSearchCacheKey(options([release]))).toBe(key);
+    expect(await repoSearchCacheKey(options([{ ...release, ref: "missing" }]))).toBeUndefined();
+  });
+
+  it("is undefined when a repo is not a git checkout", async () => {
+    const dir = path.join(tmp, "plain");
+    fs.mkdirSync(dir);
+    const repo = target("git", makeRepo("git"));
+    expect(await repoSearchCacheKey(options([repo, target("plain", dir)]))).toBeUndefined();
+  });
+});
+
+describe("cacheRepoSearch", () => {
+  it("keeps complete results and skips partial or empty ones", () => {
+    const cache = { maxEntries: 2 };
+    cacheRepoSearch("complete", result(), cache);
+    cacheRepoSearch("partial", result({ warnings: ["timed out"] }), cache);
+    cacheRepoSearch("skipped", result({ searchedRepos: [] }), cache);
+    expect(getCachedRepoSearch("complete", cache)).toEqual(result());
+    expect(getCachedRepoSearch("partial", cache)).toBeUndefined();
+    expect(getCachedRepoSearch("skipped", cache)).toBeUndefined();
+  });
+
+  it("evicts the least recently used entry", () => {
+    const cache = { maxEntries: 2 };
+    cacheRepoSearch("lru-1", result(), cache);
+    cacheRepoSearch("lru-2", result(), cache);
+    getCachedRepoSearch("lru-1", cache);
+    cacheRepoSearch("lru-3", result(), cache);
+    expect(getCachedRepoSearch("lru-2", cache)).toBeUndefined();
+    expect(getCachedRepoSearch("lru-1", cache)).toBeDefined();
+  });
+
+  it("reads entries back from disk", () => {
+    const dir = path.join(tmp, "cache");
+    cacheRepoSearch("disk", result({ contextText: "persisted" }), { maxEntries: 1, dir });
+    cacheRepoSearch("other", result(), { maxEntries: 1 });
+    expect(getCachedRepoSearch("disk", { maxEntries: 1, dir })?.contextText).toBe("persisted");
+  });
+});
@@ -0,0 +1,171 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import zlib from "node:zlib";
+
+import { logger } from "../logger.js";
+import { isGitRepo, resolveGitHead, resolveGitRef } from "./git.js";
+import type { MultiRepoSearchOptions, MultiRepoSearchResult } from "./multiSearchLocal.js";
+
+const CACHE_VERSION = 2;
+// Disk entries beyond the limit are pruned (oldest first) every this many writes.
+const PRUNE_EVERY_WRITES = 20;
+
+export type RepoSearchCacheOptions = {
+  // In-memory LRU size; also the number of files kept on disk (0 disables the cache).
+  maxEntries: number;
+  // Optional directory for persisting entries across restarts / processes.
+  dir?: string;
+};
+
+type SerializedEntry = { version: number; key: string; result: MultiRepoSearchResult };
+
+const memory = new Map<string, MultiRepoSearchResult>();
+let writesSincePrune = 0;
+
+// Same query modulo whitespace; case is kept since `re:` filters and phrases depend on it.
+function normalizeQuery(query: string): string {
+  return query.trim().replace(/\s+/g, " ");
+}
+
+/**
+ * Cache key of a search: normalized query, selected repos with the commit each one resolves to,
+ * and every limit that shapes the result. Undefined when a repo has no commit to pin it to
+ * (not a git checkout, or an unresolvable variant ref), since its content can change unnoticed.
+ * Uncommitted working-tree edits are not tracked; searched checkouts are expected to be clean.
+ */
+export async function repoSearchCacheKey(opts: MultiRepoSearchOptions): Promise<string | undefined> {
+  const repos = await Promise.all(
+    opts.repos.map(async (r) => {
+      if (!isGitRepo(r.path)) return undefined;
+      const commit = r.ref ? await resolveGitRef(r.path, r.ref) : await resolveGitHead(r.path);
+      if (!commit) return undefined;
+      // Path, label and scoping show up in / shape the result, so a config edit invalidates too.
+      return JSON.stringify([
+        r.id,
+        commit,
+        r.path,
+        r.displayName,
+        r.include ?? [],
+        r.exclude ?? [],
+        r.maxDepth ?? null,
+        r.githubUrl ?? null
+      ]);
+    })
+  );
+  if (repos.some((r) => !r)) return undefined;
+
+  return JSON.stringify({
+    query: normalizeQuery(opts.query),
+    repos: (repos as string[]).sort(),
+    mode: opts.mode ?? "search",
+    maxFiles: opts.maxFiles,
+    maxFileBytes: opts.maxFileBytes,
+    maxSnippets: opts.maxSnippets,
+    maxSnippetsPerFile: opts.maxSnippetsPerFile ?? null,
+    snippetContextLines: opts.snippetContextLines,
+    excerptMaxLines: opts.excerptMaxLines ?? null,
+    designDocBoost: opts.designDocBoost ?? null,
+    maxContextChars: opts.maxContextChars,
+    maxReferences: opts.maxReferences ?? null,
+    embeddingModel: opts.embeddings?.model ?? null
+  });
+}
+
+function entryFilePath(dir: string, key: string): string {
+  const hash = createHash("sha1").update(key).digest("hex");
+  return path.join(dir, `${hash}.search.json.gz`);
+}
+
+function readEntryFromDisk(filePath: string, key: string): MultiRepoSearchResult | undefined {
+  let raw: Buffer;
+  try {
+    raw = fs.readFileSync(filePath);
+  } catch {
+    return undefined;
+  }
+
+  try {
+    const parsed = JSON.parse(zlib.gunzipSync(raw).toString("utf8")) as SerializedEntry;
+    if (parsed.version !== CACHE_VERSION || parsed.key !== key) return undefined;
+    // Touch so disk pruning keeps recently used entries.
+    const now = new Date();
+    fs.utimesSync(filePath, now, now);
+    return parsed.result;
+  } catch (error) {
+    logger.warn({ err: error, filePath }, "Failed to load cached repo search result");
+    return undefined;
+  }
+}
+
+function pruneDisk(dir: string, maxEntries: number): void {
+  const files: Array<{ filePath: string; mtimeMs: number }> = [];
+  for (const name of fs.readdirSync(dir)) {
+    if (!name.endsWith(".search.json.gz")) continue;
+    const filePath = path.join(dir, name);
+    try {
+      files.push({ filePath, mtimeMs: fs.statSync(filePath).mtimeMs });
+    } catch {
+      // Removed concurrently.
+    }
+  }
+  if (files.length <= maxEntries) return;
+  files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+  for (const f of files.slice(0, files.length - maxEntries)) fs.rmSync(f.filePath, { force: true });
+}
+
+function writeEntryToDisk(dir: string, key: string, result: MultiRepoSearchResult, maxEntries: number): void {
+  const filePath = entryFilePath(dir, key);
+  const serialized: SerializedEntry = { version: CACHE_VERSION, key, result };
+
+  fs.mkdirSync(dir, { recursive: true });
+  // Write-then-rename so concurrent processes never observe a half-written entry.
+  const tmpPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  fs.writeFileSync(tmpPath, zlib.gzipSync(JSON.stringify(serialized)));
+  fs.renameSync(tmpPath, filePath);
+
+  writesSincePrune += 1;
+  if (writesSincePrune >= PRUNE_EVERY_WRITES) {
+    writesSincePrune = 0;
+    pruneDisk(dir, maxEntries);
+  }
+}
+
+function remember(key: string, result: MultiRepoSearchResult, maxEntries: number): void {
+  memory.delete(key);
+  memory.set(key, result);
+  while (memory.size > maxEntries) {
+    const oldest = memory.keys().next().value;
+    if (oldest === undefined) break;
+    memory.delete(oldest);
+  }
+}
+
+export function getCachedRepoSearch(key: string, cache: RepoSearchCacheOptions): MultiRepoSearchResult | undefined {
+  if (cache.maxEntries <= 0) return undefined;
+
+  const hit = memory.get(key);
+  if (hit) {
+    remember(key, hit, cache.maxEntries);
+    return hit;
+  }
+  if (!cache.dir) return undefined;
+
+  const fromDisk = readEntryFromDisk(entryFilePath(cache.dir, key), key);
+  if (fromDisk) remember(key, fromDisk, cache.maxEntries);
+  return fromDisk;
+}
+
+// Only complete results are kept: a timed-out/partial or skipped (queue full) search is retried next time.
+export function cacheRepoSearch(key: string, result: MultiRepoSearchResult, cache: RepoSearchCacheOptions): void {
+  if (cache.maxEntries <= 0) return;
+  if (result.warnings?.length || result.searchedRepos.length === 0) return;
+
+  remember(key, result, cache.maxEntries);
+  if (!cache.dir) return;
+  try {
+    writeEntryToDisk(cache.dir, key, result, cache.maxEntries);
+  } catch (error) {
+    logger.warn({ err: error, dir: cache.dir }, "Failed to persist repo search result");
+  }
+}
@@ -1,42 +1,87 @@
-import { spawn } from "node:child_process";
+import { createHash } from "node:crypto";
 import fs from "node:fs";
 import path from "node:path";
 
+import { logger } from "../logger.js";
+import { enclosingBlockFinder, isMarkdownPath, markdownSectionOf, type EnclosingBlock } from "./blocks.js";
+import { bm25Score, emptyCorpusStats, inverseDocumentFrequency, type CorpusStats, type TermScoring } from "./bm25.js";
+import { matchesPathPattern } from "./glob.js";
+import { gitIndexMtimeMs, isGitRepo, listGitTree, resolveGitHead, resolveGitRef, runGit } from "./git.js";
+import {
+  hasQueryFilters,
+  isDesignDocPath,
+  matchContentFilters,
+  matchesPathFilters,
+  parseRepoQuery
+} from "./query.js";
+import { gitRefReader, workingTreeReader, type RepoFileReader } from "./reader.js";
+import { extractSymbols, formatSymbol, symbolLanguage, symbolTermsFromQuery, type SymbolTerm } from "./symbols.js";
+import { narrowFilesWithTrigramIndex } from "./trigramIndex.js";
+
+// "semantic": an embeddings match (see vectorStore.ts) rather than a keyword hit.
+export type RepoSnippetKind = "definition" | "reference" | "semantic";
+
 export type RepoSnippet = {
   filePath: string;
   matchLine: number;
+  // Inclusive 1-based line range of `excerpt`. A block too long for the excerpt budget shows its
+  // declaration line, then a `...` gap, then the lines around matchLine.
+  startLine: number;
+  endLine: number;
   excerpt: string;
   score: number;
+  kind: RepoSnippetKind;
+  // Declared symbol at matchLine, e.g. "method mysqlSink.WriteEvents" (definitions only).
+  symbol?: string;
+  // Function/method/type block the excerpt was snapped to (see blocks.ts).
+  enclosingSymbol?: string;
+  // Raw BM25 inputs, so callers merging several repos can re-score against combined corpus stats.
+  scoring: TermScoring;
 };
 
+const DEFINITION_BOOST = 4;
+const CONTAINER_MATCH_BOOST = 3;
+// A matching Markdown section comes back whole up to this size, whatever excerptMaxLines is.
+const MAX_SECTION_CHARS = 6000;
+
 export type RepoSearchResult = {
   query: string;
   snippets: RepoSnippet[];
   contextText: string;
   sources: string[];
+  // HEAD commit of the searched checkout (undefined for non-git trees).
+  commit?: string;
+  // Document frequencies / lengths the snippet scores were computed with.
+  corpus?: CorpusStats;
+};
+
+// What the cached file list was built from; any difference triggers a rebuild.
+type RepoFingerprint = {
+  head?: string;
+  gitIndexMtimeMs?: number;
+  // Only for git working trees: tracked files with unstaged edits or deletions and their mtimes,
+  // so edits that touch neither HEAD nor the git index invalidate too.
+  worktreeStamp?: string;
+  // Only for non-git trees: directory mtimes change when entries are added/removed/renamed.
+  dirMtimes?: Map<string, number>;
 };
 
 type RepoIndex = {
   files: string[];
   builtAtMs: number;
   maxFiles: number;
+  // For ref-backed variants `head` is the commit the ref pointed to.
+  fingerprint: RepoFingerprint;
+  reader: RepoFileReader;
+  // For `narrowFilesWithTrigramIndex`: the path filter the list was built with and its fingerprint.
+  trigramScope: { scope?: string; fingerprint?: string };
 };
 
-const repoIndexCache = new Map<string, RepoIndex>();
+const READ_BATCH = 256;
 
-function isProbablyBinary(buf: Buffer): boolean {
-  if (buf.length === 0) return false;
-  let suspicious = 0;
-  const sample = buf.subarray(0, Math.min(buf.length, 8000));
-  for (const byte of sample) {
-    if (byte === 0) return true;
-    // Allow common whitespace and UTF-8 bytes; count other control chars.
-    if (byte < 7 || (byte > 14 && byte < 32)) suspicious += 1;
-  }
-  return suspicious / sample.length > 0.05;
-}
+const repoIndexCache = new Map<string, RepoIndex>();
 
-function tokenizeQuery(query: string): string[] {
+export function tokenizeQuery(query: string): string[] {
   const trimmed = query.trim();
   if (!trimmed) return [];
 
@@ -107,9 +152,18 @@ function tokenizeQuery(query: string): string[] {
   return out;
 }
 
-function shouldSkipPath(relPath: string): boolean {
-  const p = relPath.toLowerCase().replace(/\\/g, "/");
-  for (const dir of [".git", "node_modules", "vendor", "target", "dist", "build"]) {
+// Per-repo scoping from `[repo.<name>.<variant>] include / exclude / max_depth`.
+export type RepoPathFilter = {
+  include?: string[];
+  exclude?: string[];
+  // Maximum directory depth of a file (0 = repo root only).
+  maxDepth?: number;
+};
+
+const DEFAULT_SKIP_DIRS = [".git", "node_modules", "vendor", "target", "dist", "build"];
+
+function isDefaultSkipped(p: string): boolean {
+  for (const dir of DEFAULT_SKIP_DIRS) {
     if (p === dir) return true;
     if (p.startsWith(`${dir}/`)) return true;
     if (p.includes(`/${dir}/`)) return true;
@@ -118,28 +172,53 @@ function shouldSkipPath(relPath: string): boolean {
   return false;
 }
 
-async function runGitLsFiles(repoPath: string): Promise<string[] | undefined> {
-  const gitDir = path.join(repoPath, ".git");
-  if (!fs.existsSync(gitDir)) return undefined;
-
-  return new Promise((resolve) => {
-    const child = spawn("git", ["-C", repoPath, "ls-files", "-z"], { stdio: ["ignore", "pipe", "pipe"] });
-    const chunks: Buffer[] = [];
-    child.stdout.on("data", (b) => chunks.push(Buffer.from(b)));
-    child.on("close", (code) => {
-      if (code !== 0) return resolve(undefined);
-      const stdout = Buffer.concat(chunks).toString("utf8");
-      const files = stdout
-        .split("\0")
-        .map((s) => s.trim())
-        .filter(Boolean);
-      resolve(files);
-    });
-    child.on("error", () => resolve(undefined));
-  });
+function pathDepth(p: string): number {
+  return p.split("/").length - 1;
+}
+
+function shouldSkipPath(relPath: string, filter: RepoPathFilter = {}): boolean {
+  const rel = relPath.replace(/\\/g, "/");
+  const p = rel.toLowerCase();
+  if (typeof filter.maxDepth === "number" && pathDepth(p) > filter.maxDepth) return true;
+  if (filter.exclude?.some((pattern) => matchesPathPattern(rel, pattern))) return true;
+
+  // An explicit include wins over the built-in skip list (e.g. include = ["vendor/github.com/pingcap/**"]).
+  const include = filter.include ?? [];
+  const included = include.length > 0 && include.some((pattern) => matchesPathPattern(rel, pattern));
+  if (include.length > 0 && !included) return true;
+  return !included && isDefaultSkipped(p);
 }
 
-function walkFiles(repoPath: string, maxFiles: number): string[] {
+function shouldSkipDir(relDir: string, filter: RepoPathFilter): boolean {
+  const rel = relDir.replace(/\\/g, "/");
+  const p = rel.toLowerCase();
+  // Files directly inside a directory at depth N have depth N + 1.
+  if (typeof filter.maxDepth === "number" && pathDepth(p) + 1 > filter.maxDepth) return true;
+  if (filter.exclude?.some((pattern) => matchesPathPattern(rel, pattern))) return true;
+  if (!isDefaultSkipped(p)) return false;
+  // Keep descending into a default-skipped dir only if an include pattern points into it.
+  const base = path.basename(p);
+  return !(filter.include ?? []).some((pattern) => pattern.toLowerCase().split("/").includes(base));
+}
+
+async function runGitLsFiles(repoPath: string, filter: RepoPathFilter): Promise<string[] | undefined> {
+  if (!isGitRepo(repoPath)) return undefined;
+
+  const stdout = await runGit(repoPath, ["ls-files", "-z"]);
+  if (!stdout) return undefined;
+  return stdout
+    .toString("utf8")
+    .split("\0")
+    .map((s) => s.trim())
+    .filter((p) => p && !shouldSkipPath(p, filter));
+}
+
+function walkFiles(
+  repoPath: string,
+  maxFiles: number,
+  filter: RepoPathFilter,
+  dirMtimes?: Map<string, number>
+): string[] {
   const out: string[] = [];
   const queue: string[] = [repoPath];
 
@@ -148,6 +227,7 @@ function walkFiles(repoPath: string, maxFiles: number): string[] {
     let entries: fs.Dirent[];
     try {
       entries = fs.readdirSync(dir, { withFileTypes: true });
+      dirMtimes?.set(dir, fs.statSync(dir).mtimeMs);
     } catch {
       continue;
     }
@@ -156,12 +236,11 @@ function walkFiles(repoPath: string, maxFiles: number): string[] {
       if (out.length >= maxFiles) break;
       const abs = path.join(dir, entry.name);
       const rel = path.relative(repoPath, abs);
-      if (shouldSkipPath(rel)) continue;
 
       if (entry.isDirectory()) {
-        queue.push(abs);
+        if (!shouldSkipDir(rel, filter)) queue.push(abs);
       } else if (entry.isFile()) {
-        out.push(rel);
+        if (!shouldSkipPath(rel, filter)) out.push(rel);
       }
     }
   }
@@ -169,26 +248,172 @@ function walkFiles(repoPath: string, maxFiles: number): string[] {
   return out;
 }
 
-export async function getRepoIndex(repoPath: string, maxFiles: number): Promise<RepoIndex> {
-  const cached = repoIndexCache.get(repoPath);
-  if (cached && cached.maxFiles >= maxFiles) {
-    return { files: cached.files.slice(0, maxFiles), builtAtMs: cached.builtAtMs, maxFiles: cached.maxFiles };
+async function currentGitFingerprint(repoPath: string): Promise<RepoFingerprint | undefined> {
+  if (!isGitRepo(repoPath)) return undefined;
+  const [head, stamp] = await Promise.all([resolveGitHead(repoPath), worktreeStamp(repoPath)]);
+  return { head, gitIndexMtimeMs: gitIndexMtimeMs(repoPath), ...(stamp !== undefined ? { worktreeStamp: stamp } : {}) };
+}
+
+function dirMtimesChanged(dirMtimes: Map<string, number>): boolean {
+  for (const [dir, mtimeMs] of dirMtimes) {
+    try {
+      if (fs.statSync(dir).mtimeMs !== mtimeMs) return true;
+    } catch {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Files differing from the git index (unstaged edits, deletions) with their mtimes, hashed: one
+ * `git diff` (which compares against the index's stat cache off the main thread) plus a stat per
+ * changed file, rather than a stat per listed file. A file edited again while already dirty moves
+ * its mtime, so that invalidates too. Undefined when git fails.
+ */
+async function worktreeStamp(repoPath: string): Promise<string | undefined> {
+  // No optional locks: a refreshed `.git/index` would move gitIndexMtimeMs on every call.
+  const stdout = await runGit(repoPath, ["--no-optional-locks", "diff", "--name-only", "--no-renames", "-z"]);
+  if (!stdout) return undefined;
+  const hash = createHash("sha1");
+  for (const rel of stdout.toString("utf8").split("\0").filter(Boolean).sort()) {
+    let mtimeMs = -1;
+    try {
+      mtimeMs = fs.statSync(path.join(repoPath, rel)).mtimeMs;
+    } catch {
+      // Deleted.
+    }
+    hash.update(`${rel}\0${mtimeMs}\0`);
+  }
+  return hash.digest("hex");
+}
+
+function isFresh(cached: RepoIndex, git: RepoFingerprint | undefined): boolean {
+  if (git) {
+    return (
+      git.worktreeStamp !== undefined &&
+      cached.fingerprint.head === git.head &&
+      cached.fingerprint.gitIndexMtimeMs === git.gitIndexMtimeMs &&
+      cached.fingerprint.worktreeStamp === git.worktreeStamp
+    );
+  }
+  if (!cached.fingerprint.dirMtimes) return false;
+  return !dirMtimesChanged(cached.fingerprint.dirMtimes);
+}
+
+function trigramScope(filter: RepoPathFilter, fingerprint: RepoFingerprint): RepoIndex["trigramScope"] {
+  const scope = JSON.stringify(filter);
+  // Non-git trees have no fingerprint to trust; their files are stat'ed on every query.
+  const key =
+    fingerprint.head !== undefined
+      ? `${fingerprint.head}\0${fingerprint.gitIndexMtimeMs ?? ""}\0${fingerprint.worktreeStamp ?? ""}`
+      : undefined;
+  return { ...(scope !== "{}" ? { scope } : {}), ...(key !== undefined ? { fingerprint: key } : {}) };
+}
+
+async function getRefIndex(repoPath: string, ref: string, maxFiles: number, filter: RepoPathFilter): Promise<RepoIndex> {
+  const commit = isGitRepo(repoPath) ? await resolveGitRef(repoPath, ref) : undefined;
+  if (!commit) {
+    logger.warn({ repoPath, ref }, "Cannot resolve repo variant ref; nothing to search");
+    return {
+      files: [],
+      builtAtMs: Date.now(),
+      maxFiles,
+      fingerprint: {},
+      reader: gitRefReader(repoPath, ref, new Map()),
+      trigramScope: {}
+    };
   }
 
-  const gitFiles = await runGitLsFiles(repoPath);
-  const files = (gitFiles ?? walkFiles(repoPath, maxFiles))
-    .filter((p) => !shouldSkipPath(p))
+  const cacheKey = `${repoPath}\0${ref}\0${JSON.stringify(filter)}`;
+  const cached = repoIndexCache.get(cacheKey);
+  if (cached && cached.maxFiles >= maxFiles && cached.fingerprint.head === commit) {
+    return { ...cached, files: cached.files.slice(0, maxFiles) };
+  }
+
+  const tree = (await listGitTree(repoPath, commit)) ?? new Map();
+  const files = Array.from(tree.keys())
+    .filter((p) => !shouldSkipPath(p, filter))
     .slice(0, maxFiles);
+  const index: RepoIndex = {
+    files,
+    builtAtMs: Date.now(),
+    maxFiles,
+    fingerprint: { head: commit },
+    reader: gitRefReader(repoPath, ref, tree),
+    trigramScope: trigramScope(filter, { head: commit })
+  };
+  // A larger `maxFiles` also rebuilds the list; only a moved ref is worth logging.
+  if (cached && cached.fingerprint.head !== commit) {
+    logger.info({ repoPath, ref, from: cached.fingerprint.head, to: commit }, "Repo variant ref moved; rebuilt file index");
+  }
+  repoIndexCache.set(cacheKey, index);
+  return index;
+}
+
+/**
+ * Lists searchable files of a repo: the working tree (git ls-files or a directory walk), or,
+ * with `ref`, the tree of that branch/tag read straight from the object store.
+ */
+export async function getRepoIndex(
+  repoPath: string,
+  maxFiles: number,
+  filter: RepoPathFilter = {},
+  ref?: string
+): Promise<RepoIndex> {
+  if (ref) return getRefIndex(repoPath, ref, maxFiles, filter);
+  const git = await currentGitFingerprint(repoPath);
+
+  const cacheKey = `${repoPath}\0${JSON.stringify(filter)}`;
+  const cached = repoIndexCache.get(cacheKey);
+  if (cached && cached.maxFiles >= maxFiles && isFresh(cached, git)) {
+    return { ...cached, files: cached.files.slice(0, maxFiles) };
+  }
 
-  const index: RepoIndex = { files, builtAtMs: Date.now(), maxFiles };
-  repoIndexCache.set(repoPath, index);
+  const gitFiles = git ? await runGitLsFiles(repoPath, filter) : undefined;
+  const dirMtimes = gitFiles ? undefined : new Map<string, number>();
+  const files = (gitFiles ?? walkFiles(repoPath, maxFiles, filter, dirMtimes)).slice(0, maxFiles);
+
+  const fingerprint: RepoFingerprint = gitFiles && git ? git : { dirMtimes };
+  const index: RepoIndex = {
+    files,
+    builtAtMs: Date.now(),
+    maxFiles,
+    fingerprint,
+    reader: workingTreeReader(repoPath),
+    trigramScope: trigramScope(filter, fingerprint)
+  };
+  if (cached && cached.fingerprint.head !== fingerprint.head) {
+    logger.info({ repoPath, from: cached.fingerprint.head, to: fingerprint.head }, "Repo HEAD changed; rebuilt file index");
+  }
+  repoIndexCache.set(cacheKey, index);
   return index;
 }
 
-function makeExcerpt(lines: string[], matchLine: number, contextLines: number): string {
-  const total = lines.length;
-  const startIdx = Math.max(0, matchLine - 1 - contextLines);
-  const endIdx = Math.min(total - 1, matchLine - 1 + contextLines);
+/**
+ * Files matching `match` however many the repo has, for lookups of a few well-known files (error,
+ * config and metric catalogs) that a `maxFiles`-capped index can miss: `git ls-files` with
+ * `pathspecs`, or `git ls-tree` of the variant's commit, filtered like getRepoIndex. Non-git trees
+ * fall back to the index's own list.
+ */
+export async function listRepoFilesMatching(
+  index: RepoIndex,
+  opts: { repoPath: string; ref?: string; filter?: RepoPathFilter; pathspecs: string[]; match: (relPath: string) => boolean }
+): Promise<string[]> {
+  let listed: string[] | undefined;
+  if (opts.ref) {
+    const tree = index.fingerprint.head ? await listGitTree(opts.repoPath, index.fingerprint.head) : undefined;
+    listed = tree ? Array.from(tree.keys()) : undefined;
+  } else if (isGitRepo(opts.repoPath)) {
+    const stdout = await runGit(opts.repoPath, ["ls-files", "-z", "--", ...opts.pathspecs]);
+    listed = stdout?.toString("utf8").split("\0").filter(Boolean);
+  }
+  return (listed ?? index.files).filter((p) => opts.match(p) && !shouldSkipPath(p, opts.filter ?? {}));
+}
+
+export function makeExcerpt(lines: string[], startLine: number, endLine: number): string {
+  const startIdx = Math.max(0, startLine - 1);
+  const endIdx = Math.min(lines.length - 1, endLine - 1);
 
   const rendered: string[] = [];
   for (let i = startIdx; i <= endIdx; i += 1) {
@@ -198,33 +423,263 @@ function makeExcerpt(lines: string[], matchLine: number, contextLines: number):
   return rendered.join("\n");
 }
 
-function countMatchesInLine(line: string, tokensLower: string[]): number {
+type ExcerptRange = { startLine: number; endLine: number; excerpt: string; enclosingSymbol?: string };
+
+/**
+ * Snaps a hit cluster to its enclosing block so the excerpt starts at the signature. Blocks over
+ * `maxLines` keep the declaration line plus a window around the match; without a block (or a
+ * budget) the cluster's ±N lines are kept as is.
+ */
+export function blockExcerpt(
+  lines: string[],
+  cluster: { startLine: number; endLine: number; matchLine: number },
+  block: EnclosingBlock | undefined,
+  maxLines: number
+): ExcerptRange {
+  const plain = { startLine: cluster.startLine, endLine: cluster.endLine };
+  if (!block || maxLines <= 0) return { ...plain, excerpt: makeExcerpt(lines, plain.startLine, plain.endLine) };
+
+  const enclosingSymbol = block.symbol;
+  if (block.endLine - block.startLine + 1 <= maxLines) {
+    const { startLine, endLine } = block;
+    return { startLine, endLine, enclosingSymbol, excerpt: makeExcerpt(lines, startLine, endLine) };
+  }
+
+  // One line for the declaration, one for the gap marker.
+  const windowLines = Math.max(1, maxLines - 2);
+  let start = Math.max(block.startLine, cluster.startLine);
+  let end = Math.min(block.endLine, cluster.endLine);
+  if (end - start + 1 > windowLines) {
+    start = Math.max(block.startLine, cluster.matchLine - Math.floor(windowLines / 2));
+    end = Math.min(block.endLine, start + windowLines - 1);
+  }
+  if (start <= block.startLine + 2) {
+    return { startLine: block.startLine, endLine: end, enclosingSymbol, excerpt: makeExcerpt(lines, block.startLine, end) };
+  }
+  const excerpt = [
+    makeExcerpt(lines, block.startLine, block.startLine),
+    `${"...".padStart(5, " ")} |`,
+    makeExcerpt(lines, start, end)
+  ].join("\n");
+  return { startLine: block.startLine, endLine: end, enclosingSymbol, excerpt };
+}
+
+/**
+ * Markdown counterpart of blockExcerpt: the whole section under its heading, or past `maxChars`
+ * the heading plus as many lines around the match as fit.
+ */
+function sectionExcerpt(
+  lines: string[],
+  cluster: { matchLine: number },
+  section: EnclosingBlock,
+  maxChars: number
+): ExcerptRange {
+  const enclosingSymbol = section.symbol;
+  const whole = makeExcerpt(lines, section.startLine, section.endLine);
+  if (whole.length <= maxChars) return { startLine: section.startLine, endLine: section.endLine, enclosingSymbol, excerpt: whole };
+
+  const heading = makeExcerpt(lines, section.startLine, section.startLine);
+  const gap = `${"...".padStart(5, " ")} |`;
+  const lineChars = (n: number) => makeExcerpt(lines, n, n).length + 1;
+  const match = Math.min(Math.max(cluster.matchLine, section.startLine + 1), section.endLine);
+  let start = match;
+  let end = match;
+  let budget = maxChars - heading.length - gap.length - lineChars(match) - 2;
+  for (let grew = true; grew; ) {
+    grew = false;
+    if (end < section.endLine && lineChars(end + 1) <= budget) {
+      end += 1;
+      budget -= lineChars(end);
+      grew = true;
+    }
+    if (start > section.startLine + 1 && lineChars(start - 1) <= budget) {
+      start -= 1;
+      budget -= lineChars(start);
+      grew = true;
+    }
+  }
+  if (start <= section.startLine + 1) {
+    return { startLine: section.startLine, endLine: end, enclosingSymbol, excerpt: makeExcerpt(lines, section.startLine, end) };
+  }
+  const excerpt = [heading, gap, makeExcerpt(lines, start, end)].join("\n");
+  return { startLine: section.startLine, endLine: end, enclosingSymbol, excerpt };
+}
+
+function matchedTerms(line: string, tokensLower: string[]): number[] {
   const lower = line.toLowerCase();
-  let hits = 0;
-  for (const token of tokensLower) {
-    if (lower.includes(token)) hits += 1;
+  const out: number[] = [];
+  tokensLower.forEach((token, idx) => {
+    if (lower.includes(token)) out.push(idx);
+  });
+  return out;
+}
+
+type DefinitionHit = { symbol: string; boost: number };
+
+function findDefinitionLines(filePath: string, lines: string[], terms: SymbolTerm[]): Map<number, DefinitionHit> {
+  const out = new Map<number, DefinitionHit>();
+  if (terms.length === 0 || !symbolLanguage(filePath)) return out;
+
+  for (const sym of extractSymbols(filePath, lines)) {
+    const nameLower = sym.name.toLowerCase();
+    const containerLower = sym.container?.toLowerCase();
+
+    let boost = 0;
+    for (const term of terms) {
+      if (term.name !== nameLower) continue;
+      let b = DEFINITION_BOOST;
+      // `Sink.WriteEvents` should prefer `func (s *mysqlSink) WriteEvents` over an unrelated `WriteEvents`.
+      if (term.container && containerLower?.includes(term.container)) b += CONTAINER_MATCH_BOOST;
+      else if (term.container) b -= 1;
+      boost = Math.max(boost, b);
+    }
+    if (boost <= 0) continue;
+
+    const prev = out.get(sym.line);
+    if (!prev || prev.boost < boost) out.set(sym.line, { symbol: formatSymbol(sym), boost });
   }
-  return hits;
+  return out;
 }
 
-function scoreFile(lines: string[], tokensLower: string[]): { score: number; bestLine: number | undefined } {
-  let score = 0;
-  let bestLine: number | undefined;
-  let bestLineScore = 0;
+// A line with at least one query term, definition or regex hit; `terms` index into tokensLower.
+type HitLine = { line: number; terms: number[]; bonus: number };
 
+function hitLines(
+  lines: string[],
+  tokensLower: string[],
+  definitions: Map<number, DefinitionHit>,
+  regexLines: Set<number>
+): HitLine[] {
+  const out: HitLine[] = [];
   for (let i = 0; i < lines.length; i += 1) {
-    const hits = countMatchesInLine(lines[i] ?? "", tokensLower);
-    if (hits > 0) {
-      score += hits;
-      if (hits > bestLineScore) {
-        bestLineScore = hits;
-        bestLine = i + 1;
+    const terms = matchedTerms(lines[i] ?? "", tokensLower);
+    const bonus = (definitions.get(i + 1)?.boost ?? 0) + (regexLines.has(i + 1) ? 1 : 0);
+    if (terms.length > 0 || bonus > 0) out.push({ line: i + 1, terms, bonus });
+  }
+  return out;
+}
+
+type HitCluster = {
+  startLine: number;
+  endLine: number;
+  bestLine: number;
+  bestLineScore: number;
+  scoring: TermScoring;
+  score: number;
+  // Markdown section (heading line) the cluster lies in; see markdownSectionOf.
+  section?: number;
+};
+
+/**
+ * Groups hit lines into clusters: each hit's `±contextLines` window is merged with overlapping
+ * windows, so one excerpt covers a whole region. Clusters are capped so a file full of hits
+ * doesn't collapse into a single giant excerpt, and never span two Markdown sections. Each
+ * cluster is scored with BM25 (term frequency = matching lines in the cluster, document length =
+ * file size) plus definition/regex bonuses. Returns the best `maxClusters` by score.
+ */
+function scoreFile(
+  hits: HitLine[],
+  lineCount: number,
+  docLength: number,
+  tokensLower: string[],
+  stats: CorpusStats,
+  contextLines: number,
+  maxClusters: number,
+  sectionOf?: (line: number) => number
+): HitCluster[] {
+  const idf = tokensLower.map((t) => inverseDocumentFrequency(stats, t));
+  const maxClusterLines = Math.max(1, contextLines * 6 + 1);
+
+  const addHit = (cluster: HitCluster, hit: HitLine) => {
+    for (const idx of hit.terms) {
+      const term = tokensLower[idx]!;
+      cluster.scoring.termFreqs[term] = (cluster.scoring.termFreqs[term] ?? 0) + 1;
+    }
+    cluster.scoring.bonus += hit.bonus;
+  };
+
+  const clusters: HitCluster[] = [];
+  for (const hit of hits) {
+    const { line } = hit;
+    // Rare terms make a better anchor line than common ones.
+    const weight = hit.terms.reduce((sum, idx) => sum + (idf[idx] ?? 0), 0) + hit.bonus;
+    const start = Math.max(1, line - contextLines);
+    const end = Math.min(lineCount, line + contextLines);
+    const section = sectionOf?.(line);
+    const last = clusters[clusters.length - 1];
+
+    const overlaps = last && start <= last.endLine + 1 && last.section === section;
+    if (last && overlaps && (line <= last.endLine || end - last.startLine + 1 <= maxClusterLines)) {
+      last.endLine = Math.min(Math.max(last.endLine, end), Math.max(last.endLine, last.startLine + maxClusterLines - 1));
+      addHit(last, hit);
+      if (weight > last.bestLineScore) {
+        last.bestLineScore = weight;
+        last.bestLine = line;
       }
+      continue;
     }
+
+    const clampedStart = last ? Math.max(start, last.endLine + 1) : start;
+    const cluster: HitCluster = {
+      startLine: clampedStart,
+      endLine: end,
+      bestLine: line,
+      bestLineScore: weight,
+      scoring: { termFreqs: {}, docLength, bonus: 0 },
+      score: 0,
+      ...(section !== undefined ? { section } : {})
+    };
+    addHit(cluster, hit);
+    clusters.push(cluster);
   }
 
-  // Prefer docs slightly if everything else is equal.
-  return { score, bestLine };
+  for (const c of clusters) c.score = bm25Score(c.scoring, stats);
+  return clusters.sort((a, b) => b.score - a.score || a.startLine - b.startLine).slice(0, Math.max(1, maxClusters));
+}
+
+/**
+ * Yields to the event loop (working-tree reads are synchronous, so a deadline timer could
+ * otherwise never fire mid-scan), then throws the abort reason if `signal` was aborted.
+ */
+export async function abortCheckpoint(signal: AbortSignal | undefined): Promise<void> {
+  if (!signal) return;
+  await new Promise<void>((resolve) => setImmediate(resolve));
+  signal.throwIfAborted();
+}
+
+/**
+ * For scans outside the worker pool that stop early rather than fail: a signal that fires when
+ * the caller's `signal` does or after `timeoutMs` (0/undefined: never). `clear` releases the timer.
+ */
+export function scanDeadline(timeoutMs: number | undefined, signal: AbortSignal | undefined): { signal?: AbortSignal; clear: () => void } {
+  const ms = Math.max(0, Math.floor(timeoutMs ?? 0));
+  if (ms <= 0 && !signal) return { clear: () => undefined };
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", onAbort, { once: true });
+  if (signal?.aborted) onAbort();
+  const timer = ms > 0 ? setTimeout(() => controller.abort(new Error(`Scan stopped after ${ms}ms`)), ms) : undefined;
+  timer?.unref();
+  return {
+    signal: controller.signal,
+    clear: () => {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  };
+}
+
+/** Yields to the event loop between file batches; true once `signal` has fired. */
+export async function scanStopped(signal: AbortSignal | undefined): Promise<boolean> {
+  if (!signal) return false;
+  await new Promise<void>((resolve) => setImmediate(resolve));
+  return signal.aborted;
+}
+
+export function describeSnippet(snippet: RepoSnippet): string {
+  if (snippet.kind === "semantic") return " [semantic match]";
+  if (snippet.kind === "definition" && snippet.symbol) return ` [definition: ${snippet.symbol}]`;
+  return snippet.enclosingSymbol ? ` [in ${snippet.enclosingSymbol}]` : "";
 }
 
 export async function searchRepo(opts: {
@@ -233,72 +688,170 @@ export async function searchRepo(opts: {
   maxFiles: number;
   maxFileBytes: number;
   maxSnippets: number;
+  maxSnippetsPerFile?: number;
   snippetContextLines: number;
+  // Line budget for excerpts snapped to the enclosing function/type (0/undefined: fixed ±N windows).
+  excerptMaxLines?: number;
+  // Score bonus for hits in design docs / RFCs (set for "why" / "how is X designed" questions).
+  designDocBoost?: number;
   maxContextChars: number;
+  indexDir?: string;
+  pathFilter?: RepoPathFilter;
+  // Read this branch/tag from git objects instead of the working tree.
+  ref?: string;
+  signal?: AbortSignal;
 }): Promise<RepoSearchResult> {
   const query = opts.query.trim();
-  const tokens = tokenizeQuery(query);
-  if (!query || tokens.length === 0) {
+  const parsed = parseRepoQuery(query);
+  const tokens = tokenizeQuery(parsed.text);
+  if (!query || (tokens.length === 0 && !hasQueryFilters(parsed))) {
     return { query, snippets: [], contextText: "", sources: [] };
   }
 
+  // Qualified names like `Sink.WriteEvents` also search for their parts so definitions
+  // (`func (s *mysqlSink) WriteEvents`) are found even though the dotted form never appears.
+  const symbolTerms = symbolTermsFromQuery(parsed.text);
   const tokensLower = tokens.map((t) => t.toLowerCase());
-  const index = await getRepoIndex(opts.repoPath, opts.maxFiles);
+  for (const term of symbolTerms) {
+    for (const part of [term.container, term.name]) {
+      if (part && part.length >= 3 && !tokensLower.includes(part)) tokensLower.push(part);
+    }
+  }
+  const index = await getRepoIndex(opts.repoPath, opts.maxFiles, opts.pathFilter, opts.ref);
+
+  const maxClustersPerFile = Math.max(1, Math.floor(opts.maxSnippetsPerFile ?? 3));
+
+  // Narrow with the full file list: the trigram index drops entries for files it isn't given.
+  const narrowed = opts.indexDir
+    ? await narrowFilesWithTrigramIndex({
+        indexDir: opts.indexDir,
+        reader: index.reader,
+        files: index.files,
+        maxFileBytes: opts.maxFileBytes,
+        // Regex-only matches must survive narrowing, so token narrowing only applies without `re:`.
+        tokensLower: parsed.regexes.length > 0 ? [] : tokensLower,
+        requiredLower: parsed.phrases,
+        scoringTermsLower: tokensLower,
+        ...index.trigramScope
+      })
+    : undefined;
+  const files = (narrowed?.files ?? index.files).filter((p) => matchesPathFilters(parsed, p));
+
+  // Without the index, corpus statistics come from the files scanned below.
+  const scanStats = emptyCorpusStats();
+  const matchedFiles: Array<{
+    filePath: string;
+    hits: HitLine[];
+    lineCount: number;
+    size: number;
+    sectionOf?: (line: number) => number;
+  }> = [];
+  const definitionsByFile = new Map<string, Map<number, DefinitionHit>>();
+
+  for (let i = 0; i < files.length; i += READ_BATCH) {
+    await abortCheckpoint(opts.signal);
+    const texts = await index.reader.read(files.slice(i, i + READ_BATCH), opts.maxFileBytes);
+    for (const [relPath, file] of texts) {
+      const text = file.text;
+      const textLower = text.toLowerCase();
+      if (!narrowed) {
+        scanStats.docCount += 1;
+        scanStats.totalLength += file.size;
+        for (const token of tokensLower) {
+          if (textLower.includes(token)) scanStats.docFreq[token] = (scanStats.docFreq[token] ?? 0) + 1;
+        }
+      }
 
-  const candidates: Array<{ filePath: string; score: number; bestLine: number }> = [];
+      const lines = text.split(/\r?\n/g);
+      const regexLines = matchContentFilters(parsed, lines, textLower);
+      if (!regexLines) continue;
 
-  for (const relPath of index.files) {
-    const absPath = path.join(opts.repoPath, relPath);
-    let stat: fs.Stats;
-    try {
-      stat = fs.statSync(absPath);
-    } catch {
-      continue;
+      const definitions = findDefinitionLines(relPath, lines, symbolTerms);
+      const hits = hitLines(lines, tokensLower, definitions, regexLines);
+      if (hits.length === 0) continue;
+      const sectionOf = markdownSectionOf(relPath, lines);
+      matchedFiles.push({ filePath: relPath, hits, lineCount: lines.length, size: file.size, ...(sectionOf ? { sectionOf } : {}) });
+      if (definitions.size > 0) definitionsByFile.set(relPath, definitions);
     }
-    if (!stat.isFile()) continue;
-    if (stat.size <= 0 || stat.size > opts.maxFileBytes) continue;
+  }
 
-    let buf: Buffer;
-    try {
-      buf = fs.readFileSync(absPath);
-    } catch {
-      continue;
+  const corpus = narrowed?.stats ?? scanStats;
+  const candidates: Array<{ filePath: string; cluster: HitCluster; definition?: DefinitionHit }> = [];
+  for (const f of matchedFiles) {
+    const clusters = scoreFile(
+      f.hits,
+      f.lineCount,
+      f.size,
+      tokensLower,
+      corpus,
+      opts.snippetContextLines,
+      maxClustersPerFile,
+      f.sectionOf
+    );
+    const definitions = definitionsByFile.get(f.filePath);
+    const designBoost = opts.designDocBoost && isDesignDocPath(f.filePath) ? opts.designDocBoost : 0;
+    for (const cluster of clusters) {
+      if (designBoost > 0) {
+        cluster.scoring.bonus += designBoost;
+        cluster.score += designBoost;
+      }
+      candidates.push({ filePath: f.filePath, cluster, definition: definitions?.get(cluster.bestLine) });
     }
-    if (isProbablyBinary(buf)) continue;
-
-    const text = buf.toString("utf8");
-    const lines = text.split(/\r?\n/g);
-    const { score, bestLine } = scoreFile(lines, tokensLower);
-    if (!bestLine || score <= 0) continue;
-
-    candidates.push({ filePath: relPath, score, bestLine });
   }
 
-  candidates.sort((a, b) => b.score - a.score);
+  candidates.sort((a, b) => b.cluster.score - a.cluster.score);
   const top = candidates.slice(0, Math.max(opts.maxSnippets, 1));
 
-  const snippets: RepoSnippet[] = [];
+  // Keep each file's clusters together and in line order, ordered by the file's best cluster.
+  const byFile = new Map<string, typeof top>();
   for (const c of top) {
-    const absPath = path.join(opts.repoPath, c.filePath);
-    let text: string;
-    try {
-      text = fs.readFileSync(absPath, "utf8");
-    } catch {
-      continue;
+    const list = byFile.get(c.filePath) ?? [];
+    list.push(c);
+    byFile.set(c.filePath, list);
+  }
+
+  const snippets: RepoSnippet[] = [];
+  const snippetTexts = await index.reader.read(Array.from(byFile.keys()), opts.maxFileBytes);
+  for (const [filePath, group] of byFile) {
+    const file = snippetTexts.get(filePath);
+    if (!file) continue;
+    const lines = file.text.split(/\r?\n/g);
+    const maxLines = Math.max(0, Math.floor(opts.excerptMaxLines ?? 0));
+    const isDoc = isMarkdownPath(filePath);
+    const findBlock = maxLines > 0 || isDoc ? enclosingBlockFinder(filePath, lines) : undefined;
+    group.sort((a, b) => a.cluster.startLine - b.cluster.startLine);
+    let renderedEnd = 0;
+    for (const c of group) {
+      // Several clusters in one function snap to the same block; the first excerpt already shows it.
+      if (c.cluster.bestLine <= renderedEnd) continue;
+      const range = { startLine: c.cluster.startLine, endLine: c.cluster.endLine, matchLine: c.cluster.bestLine };
+      const block = findBlock?.(range.matchLine);
+      let excerpt =
+        isDoc && block ? sectionExcerpt(lines, range, block, MAX_SECTION_CHARS) : blockExcerpt(lines, range, block, maxLines);
+      if (excerpt.startLine <= renderedEnd) {
+        excerpt = blockExcerpt(lines, { ...range, startLine: Math.max(range.startLine, renderedEnd + 1) }, undefined, 0);
+      }
+      renderedEnd = excerpt.endLine;
+      snippets.push({
+        filePath,
+        matchLine: c.cluster.bestLine,
+        ...excerpt,
+        score: c.cluster.score,
+        scoring: c.cluster.scoring,
+        kind: c.definition ? "definition" : "reference",
+        ...(c.definition ? { symbol: c.definition.symbol } : {})
+      });
     }
-    const lines = text.split(/\r?\n/g);
-    const excerpt = makeExcerpt(lines, c.bestLine, opts.snippetContextLines);
-    snippets.push({ filePath: c.filePath, matchLine: c.bestLine, excerpt, score: c.score });
   }
 
   const sources = snippets.map((s) => `${s.filePath}:${s.matchLine}`);
 
   let contextText = "";
   for (const snippet of snippets) {
-    const block = `File: ${snippet.filePath}:${snippet.matchLine}\n${snippet.excerpt}\n`;
+    const block = `File: ${snippet.filePath}:${snippet.matchLine}${describeSnippet(snippet)}\n${snippet.excerpt}\n`;
     if (contextText.length + block.length > opts.maxContextChars) break;
     contextText += `${contextText ? "\n" : ""}${block}`;
   }
 
-  return { query, snippets, contextText: contextText.trim(), sources };
+  return { query, snippets, contextText: contextText.trim(), sources, commit: index.fingerprint.head, corpus };
 }
@@ -0,0 +1,178 @@
+import path from "node:path";
+
+import type { RepoTarget } from "../config.js";
+import { logger } from "../logger.js";
+import { enclosingBlockFinder } from "./blocks.js";
+import { normalizeRepos, repoSource, withPermalinkBase, type RepoWithName } from "./multiSearchLocal.js";
+import { blockExcerpt, getRepoIndex, scanDeadline, scanStopped } from "./search.js";
+
+// A stack frame to show code for.
+export type TraceFrame = {
+  // Frame as shown in the context header (`#0 cdc/owner.(*ownerImpl).Tick (goroutine 123)`).
+  label: string;
+  // Declared name of the function, checked against the block at `line`.
+  name: string;
+  // As printed in the trace, usually an absolute build path.
+  file: string;
+  line: number;
+  panicking: boolean;
+};
+
+export type StackFramesResult = {
+  contextText: string;
+  sources: string[];
+};
+
+type FrameMatch = {
+  repo: RepoWithName;
+  filePath: string;
+  lines: string[];
+  // Trailing path segments shared with the printed path.
+  suffix: number;
+  // The enclosing function at the line has the frame's name (the checkout matches the binary).
+  confirmed: boolean;
+  symbol?: string;
+};
+
+function pathSegments(p: string): string[] {
+  return p.replace(/\\/g, "/").split("/").filter(Boolean);
+}
+
+function sharedSuffix(a: string[], b: string[]): number {
+  let n = 0;
+  while (n < a.length && n < b.length && a[a.length - 1 - n] === b[b.length - 1 - n]) n += 1;
+  return n;
+}
+
+// Repo file a printed build path refers to: the same basename with the longest shared path
+// suffix; two segments at least, unless the trace printed a bare file name.
+function resolveFile(byBasename: Map<string, string[]>, printed: string): { filePath: string; suffix: number } | undefined {
+  const printedSegs = pathSegments(printed);
+  const minSuffix = printedSegs.length > 1 ? 2 : 1;
+  let best: { filePath: string; suffix: number } | undefined;
+  for (const filePath of byBasename.get(path.posix.basename(printed.replace(/\\/g, "/"))) ?? []) {
+    const suffix = sharedSuffix(pathSegments(filePath), printedSegs);
+    if (suffix >= minSuffix && (!best || suffix > best.suffix)) best = { filePath, suffix };
+  }
+  return best;
+}
+
+async function resolveInRepo(
+  repo: RepoWithName,
+  frames: TraceFrame[],
+  opts: { maxFiles: number; maxFileBytes: number; signal?: AbortSignal }
+): Promise<Array<FrameMatch | undefined>> {
+  const index = await getRepoIndex(repo.repoPath, opts.maxFiles, repo.pathFilter, repo.ref);
+  if (await scanStopped(opts.signal)) return frames.map(() => undefined);
+  const sourceRepo = await withPermalinkBase(repo, index.fingerprint.head);
+  const byBasename = new Map<string, string[]>();
+  for (const f of index.files) {
+    const base = path.posix.basename(f);
+    byBasename.set(base, [...(byBasename.get(base) ?? []), f]);
+  }
+
+  const resolved = frames.map((f) => resolveFile(byBasename, f.file));
+  if (await scanStopped(opts.signal)) return frames.map(() => undefined);
+  const texts = await index.reader.read(
+    Array.from(new Set(resolved.flatMap((r) => (r ? [r.filePath] : [])))),
+    opts.maxFileBytes
+  );
+  return frames.map((frame, i) => {
+    const r = resolved[i];
+    const text = r ? texts.get(r.filePath)?.text : undefined;
+    if (!r || !text) return undefined;
+    const lines = text.split(/\r?\n/g);
+    if (frame.line > lines.length) return undefined;
+    const block = enclosingBlockFinder(r.filePath, lines)?.(frame.line);
+    return {
+      repo: sourceRepo,
+      filePath: r.filePath,
+      lines,
+      suffix: r.suffix,
+      confirmed: block?.name === frame.name,
+      symbol: block?.symbol
+    };
+  });
+}
+
+/**
+ * Resolves stack frames to files of the selected repos and variants by the printed path's longest
+ * matching suffix, preferring the variant whose function at that line has the frame's name, and
+ * renders the code around each frame (the panicking one flagged).
+ */
+export async function locateStackFrames(opts: {
+  repos: RepoTarget[];
+  frames: TraceFrame[];
+  maxFiles: number;
+  maxFileBytes: number;
+  contextLines: number;
+  excerptMaxLines: number;
+  maxContextChars: number;
+  // Files are listed and read on this thread: the lookup stops at the deadline with the frames
+  // resolved so far, and rejects when `signal` fires.
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}): Promise<StackFramesResult> {
+  if (opts.frames.length === 0) return { contextText: "", sources: [] };
+
+  const perRepo: Array<Array<FrameMatch | undefined>> = [];
+  const deadline = scanDeadline(opts.timeoutMs, opts.signal);
+  try {
+    for (const repo of normalizeRepos(opts.repos)) {
+      if (deadline.signal?.aborted) break;
+      try {
+        perRepo.push(await resolveInRepo(repo, opts.frames, { ...opts, signal: deadline.signal }));
+      } catch (error) {
+        logger.warn({ err: error, repo: repo.repoLabel }, "Stack frame lookup failed");
+      }
+    }
+  } finally {
+    deadline.clear();
+  }
+  opts.signal?.throwIfAborted();
+  const stopped = deadline.signal?.aborted ?? false;
+  if (stopped) logger.warn({ timeoutMs: opts.timeoutMs, frames: opts.frames.length }, "Stack frame lookup hit its deadline");
+
+  const blocks: string[] = [];
+  const sources: string[] = [];
+  const unresolved: string[] = [];
+  opts.frames.forEach((frame, i) => {
+    let best: FrameMatch | undefined;
+    for (const r of perRepo) {
+      const m = r[i];
+      if (!m) continue;
+      if (!best || Number(m.confirmed) - Number(best.confirmed) > 0 || (m.confirmed === best.confirmed && m.suffix > best.suffix)) best = m;
+    }
+    if (!best) {
+      unresolved.push(frame.label);
+      return;
+    }
+
+    const block = enclosingBlockFinder(best.filePath, best.lines)?.(frame.line);
+    const cluster = {
+      startLine: Math.max(1, frame.line - opts.contextLines),
+      endLine: Math.min(best.lines.length, frame.line + opts.contextLines),
+      matchLine: frame.line
+    };
+    // The panicking frame gets its whole function when it fits; callers just the lines around the call.
+    const maxLines = frame.panicking ? opts.excerptMaxLines : Math.min(opts.excerptMaxLines, 2 * opts.contextLines + 3);
+    const excerpt = blockExcerpt(best.lines, cluster, block, maxLines);
+    const source = repoSource(best.repo, best.filePath, frame.line);
+    const inSymbol = best.symbol ? ` [in ${best.symbol}]` : "";
+    const note = best.confirmed ? "" : " (function name differs at this line; the checkout may not match the binary)";
+    blocks.push(
+      [`${frame.label}${frame.panicking ? " <- panicking frame" : ""}`, `File: ${source}${inSymbol}${note}`, excerpt.excerpt].join("\n")
+    );
+    sources.push(source);
+  });
+  if (unresolved.length > 0) {
+    const why = stopped ? " (the lookup stopped at its deadline)" : "";
+    blocks.push(`Not found in the searched repos${why}:\n${unresolved.map((l) => `- ${l}`).join("\n")}`);
+  }
+
+  let contextText = blocks.join("\n\n");
+  if (contextText.length > opts.maxContextChars) {
+    contextText = `${contextText.slice(0, Math.max(0, opts.maxContextChars - 20))}\n\n…(truncated)`;
+  }
+  return { contextText, sources };
+}
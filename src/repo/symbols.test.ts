@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+
+import { extractSymbols, formatSymbol, symbolEndLine, symbolTermsFromQuery } from "./symbols.js";
+
+describe("extractSymbols", () => {
+  it("finds Go funcs, methods, types and interface methods", () => {
+    const lines = [
+      "package sink",
+      "",
+      "type Sink interface {",
+      "\tWriteEvents(events ...Event) error",
+      "}",
+      "",
+      "type (",
+      "\tmysqlSink struct {",
+      "\t\tdb *sql.DB",
+      "\t}",
+      "\tOption func(*mysqlSink)",
+      ")",
+      "",
+      "func (s *mysqlSink) WriteEvents(events ...Event) error {",
+      '\tif s.db == nil { return errors.New("}") }',
+      "\treturn nil",
+      "}",
+      "",
+      "func NewSink() Sink { return &mysqlSink{} }"
+    ];
+    expect(extractSymbols("sink.go", lines)).toEqual([
+      { name: "Sink", kind: "interface", line: 3 },
+      { name: "WriteEvents", kind: "method", container: "Sink", line: 4 },
+      { name: "mysqlSink", kind: "struct", line: 8 },
+      { name: "Option", kind: "type", line: 11 },
+      { name: "WriteEvents", kind: "method", container: "mysqlSink", line: 14 },
+      { name: "NewSink", kind: "func", line: 19 }
+    ]);
+  });
+
+  it("tracks Rust impl and trait containers", () => {
+    const lines = [
+      "pub struct Peer {",
+      "    id: u64,",
+      "}",
+      "",
+      "impl Peer {",
+      "    pub fn handle_ready(&mut self) {}",
+      "}",
+      "",
+      "impl fmt::Display for Peer {",
+      "    fn fmt(&self, f: &mut fmt::Formatter) -> fmt::Result { Ok(()) }",
+      "}",
+      "",
+      "pub(crate) async fn spawn_peer() {}"
+    ];
+    const symbols = extractSymbols("peer.rs", lines);
+    expect(symbols).toEqual([
+      { name: "Peer", kind: "struct", line: 1 },
+      { name: "Peer", kind: "impl", line: 5 },
+      { name: "handle_ready", kind: "method", container: "Peer", line: 6 },
+      { name: "Peer", kind: "impl", container: "Display", line: 9 },
+      { name: "fmt", kind: "method", container: "Peer", line: 10 },
+      { name: "spawn_peer", kind: "func", line: 13 }
+    ]);
+    expect(formatSymbol(symbols[3]!)).toBe("impl Display for Peer");
+    expect(formatSymbol(symbols[2]!)).toBe("method Peer.handle_ready");
+  });
+
+  it("finds C++ classes with Allman braces and out-of-line methods", () => {
+    const lines = [
+      "class DeltaMerge",
+      "{",
+      "public:",
+      "    void flushCache(const Context & ctx);",
+      "    size_t getRows() const",
+      "    {",
+      "        return rows;",
+      "    }",
+      "};",
+      "",
+      "void DeltaMerge::flushCache(const Context & ctx)",
+      "{",
+      "}"
+    ];
+    expect(extractSymbols("DeltaMerge.cpp", lines)).toEqual([
+      { name: "DeltaMerge", kind: "class", line: 1 },
+      { name: "flushCache", kind: "method", container: "DeltaMerge", line: 4 },
+      { name: "getRows", kind: "method", container: "DeltaMerge", line: 5 },
+      { name: "flushCache", kind: "method", container: "DeltaMerge", line: 11 }
+    ]);
+  });
+
+  it("ignores files of other languages", () => {
+    expect(extractSymbols("README.md", ["func main() {"])).toEqual([]);
+  });
+});
+
+describe("symbolEndLine", () => {
+  it("ends at the closing brace, not at braces inside strings", () => {
+    const lines = ["func f() {", '\ts := "}"', "\tif s != \"\" {", "\t}", "}", "", "func g() {}"];
+    expect(symbolEndLine("f.go", lines, 1)).toBe(5);
+    expect(symbolEndLine("f.go", lines, 7)).toBe(7);
+  });
+
+  it("ends one-line Go types and bodiless declarations where they are", () => {
+    expect(symbolEndLine("t.go", ["type ID int64", "", "var x = 1"], 1)).toBe(1);
+    expect(symbolEndLine("t.h", ["void flush(", "    int n);", "int x;"], 1)).toBe(2);
+  });
+
+  it("is capped at maxLines", () => {
+    const lines = ["fn f() {", ...Array.from({ length: 20 }, () => "    x();"), "}"];
+    expect(symbolEndLine("f.rs", lines, 1, 5)).toBe(5);
+  });
+});
+
+describe("symbolTermsFromQuery", () => {
+  it("keeps qualified names with their container", () => {
+    expect(symbolTermsFromQuery("where is Sink.WriteEvents called, and Peer::handle_ready?")).toEqual([
+      { name: "writeevents", container: "sink" },
+      { name: "handle_ready", container: "peer" }
+    ]);
+  });
+
+  it("takes identifier-shaped and backquoted words but not prose or file names", () => {
+    expect(symbolTermsFromQuery("How is `flush` implemented in safeModeDuration (see sink.go)?")).toEqual([
+      { name: "flush" },
+      { name: "safemodeduration" }
+    ]);
+  });
+});
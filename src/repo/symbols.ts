@@ -0,0 +1,289 @@
+import path from "node:path";
+
+export type SymbolLanguage = "go" | "rust" | "cpp";
+
+export type RepoSymbolKind =
+  | "func"
+  | "method"
+  | "type"
+  | "struct"
+  | "interface"
+  | "trait"
+  | "impl"
+  | "enum"
+  | "class";
+
+export type RepoSymbol = {
+  name: string;
+  kind: RepoSymbolKind;
+  // 1-based line of the declaration.
+  line: number;
+  // Receiver / impl target / enclosing class or trait, when known.
+  container?: string;
+};
+
+// `pending` means the opening brace is expected on the next line (Allman style, common in TiFlash).
+type Container = { name: string; kind: RepoSymbolKind; depth: number; pending?: boolean };
+
+const CPP_EXTENSIONS = new Set([".cc", ".cpp", ".cxx", ".c", ".h", ".hh", ".hpp", ".hxx", ".ipp"]);
+
+const CPP_NON_FUNCTIONS = new Set([
+  "if",
+  "for",
+  "while",
+  "switch",
+  "return",
+  "sizeof",
+  "catch",
+  "static_assert",
+  "decltype",
+  "alignof",
+  "new",
+  "delete",
+  "throw"
+]);
+
+export function symbolLanguage(filePath: string): SymbolLanguage | undefined {
+  const ext = path.extname(filePath).toLowerCase();
+  if (ext === ".go") return "go";
+  if (ext === ".rs") return "rust";
+  if (CPP_EXTENSIONS.has(ext)) return "cpp";
+  return undefined;
+}
+
+// Strips string/char literals and line comments so brace counting isn't fooled by them.
+export function codePart(line: string): string {
+  return line
+    .replace(/"(?:[^"\\]|\\.)*"/g, '""')
+    .replace(/'(?:[^'\\]|\\.)'/g, "''")
+    .replace(/`[^`]*`/g, "``")
+    .replace(/\/\/.*$/, "");
+}
+
+export function braceDelta(code: string): number {
+  let delta = 0;
+  for (const ch of code) {
+    if (ch === "{") delta += 1;
+    else if (ch === "}") delta -= 1;
+  }
+  return delta;
+}
+
+function lastPathSegment(name: string): string {
+  const parts = name.split("::");
+  return parts[parts.length - 1] ?? name;
+}
+
+function extractGoLine(
+  line: string,
+  container: Container | undefined,
+  depth: number,
+  inTypeGroup: boolean
+): Omit<RepoSymbol, "line">[] {
+  const method = /^func\s+\(\s*\w*\s*\*?\s*([A-Za-z_]\w*)(?:\[[^\]]*\])?\s*\)\s*([A-Za-z_]\w*)/.exec(line);
+  if (method) return [{ name: method[2]!, kind: "method", container: method[1] }];
+
+  const func = /^func\s+([A-Za-z_]\w*)/.exec(line);
+  if (func) return [{ name: func[1]!, kind: "func" }];
+
+  const typeRe = inTypeGroup
+    ? /^\s+([A-Za-z_]\w*)(?:\[[^\]]*\])?\s+(struct|interface)?/
+    : /^type\s+([A-Za-z_]\w*)(?:\[[^\]]*\])?\s+(?:=\s*)?(struct|interface)?/;
+  const type = typeRe.exec(line);
+  if (type && depth === 0) {
+    const kind: RepoSymbolKind = type[2] === "struct" ? "struct" : type[2] === "interface" ? "interface" : "type";
+    return [{ name: type[1]!, kind }];
+  }
+
+  if (container?.kind === "interface") {
+    const m = /^\s+([A-Za-z_]\w*)\s*\(/.exec(line);
+    if (m) return [{ name: m[1]!, kind: "method", container: container.name }];
+  }
+
+  return [];
+}
+
+function extractRustLine(line: string, container: Container | undefined): Omit<RepoSymbol, "line">[] {
+  const impl = /^\s*(?:unsafe\s+)?impl\b(?:\s*<[^>]*>)?\s+(?:!?([\w:]+)(?:<[^>]*>)?\s+for\s+)?&?(?:mut\s+)?([\w:]+)/.exec(line);
+  if (impl) {
+    const target = lastPathSegment(impl[2]!);
+    return [{ name: target, kind: "impl", ...(impl[1] ? { container: lastPathSegment(impl[1]) } : {}) }];
+  }
+
+  const fn = /^\s*(?:pub(?:\([^)]*\))?\s+)?(?:default\s+)?(?:const\s+)?(?:async\s+)?(?:unsafe\s+)?(?:extern\s+"[^"]*"\s+)?fn\s+([A-Za-z_]\w*)/.exec(line);
+  if (fn) {
+    const inImplOrTrait = container && (container.kind === "impl" || container.kind === "trait");
+    return [inImplOrTrait ? { name: fn[1]!, kind: "method", container: container.name } : { name: fn[1]!, kind: "func" }];
+  }
+
+  const decl = /^\s*(?:pub(?:\([^)]*\))?\s+)?(?:unsafe\s+)?(struct|enum|trait|type|union)\s+([A-Za-z_]\w*)/.exec(line);
+  if (decl) {
+    const kw = decl[1]!;
+    const kind: RepoSymbolKind = kw === "union" ? "struct" : (kw as RepoSymbolKind);
+    return [{ name: decl[2]!, kind }];
+  }
+
+  return [];
+}
+
+function extractCppLine(line: string, container: Container | undefined, depth: number): Omit<RepoSymbol, "line">[] {
+  const code = line.trimEnd();
+  if (code.endsWith(";") && !/\)\s*(?:const\s*)?(?:override\s*)?(?:=\s*0\s*)?;$/.test(code)) return [];
+  if (/^\s*(?:#|\/\/|\*|return\b|using\b|typedef\b|else\b)/.test(line)) return [];
+
+  const cls = /^\s*(?:template\s*<.*>\s*)?(class|struct)\s+(?:[A-Z_][A-Z0-9_]*\s+)?([A-Za-z_]\w*)\b(?!\s*[*&;])/.exec(line);
+  if (cls && !code.endsWith(";")) return [{ name: cls[2]!, kind: cls[1] === "class" ? "class" : "struct" }];
+
+  const en = /^\s*enum\s+(?:class\s+|struct\s+)?([A-Za-z_]\w*)/.exec(line);
+  if (en && !code.endsWith(";")) return [{ name: en[1]!, kind: "enum" }];
+
+  const qualified = /^(?:[\w:<>,*&~]+\s+)*[*&]?((?:[A-Za-z_]\w*(?:<[^>]*>)?::)+)(~?[A-Za-z_]\w*)\s*\(/.exec(line);
+  if (qualified && !code.endsWith(";")) {
+    const quals = qualified[1]!.replace(/<[^>]*>/g, "").split("::").filter(Boolean);
+    const name = qualified[2]!;
+    if (!CPP_NON_FUNCTIONS.has(name)) return [{ name, kind: "method", container: quals[quals.length - 1] }];
+  }
+
+  const inClass =
+    container && (container.kind === "class" || container.kind === "struct") && depth === container.depth + 1;
+  const fnRe = inClass
+    ? /^\s+(?:(?:virtual|static|inline|explicit|constexpr|friend)\s+)*(?:[\w:<>,*&]+\s+)*[*&]?(~?[A-Za-z_]\w*)\s*\(/
+    : /^(?:(?:static|inline|constexpr|extern)\s+)*(?:[\w:<>,*&]+\s+)+[*&]?([A-Za-z_]\w*)\s*\(/;
+  const fn = fnRe.exec(line);
+  if (fn && !CPP_NON_FUNCTIONS.has(fn[1]!)) {
+    return [inClass ? { name: fn[1]!, kind: "method", container: container.name } : { name: fn[1]!, kind: "func" }];
+  }
+
+  return [];
+}
+
+/**
+ * Extracts declarations (funcs, methods, types, structs, traits, impls, ...) from Go, Rust and C++
+ * source using line regexes plus brace depth to track the enclosing impl/trait/class/interface.
+ * It is a heuristic, not a parser: good enough to rank definitions above call sites.
+ */
+export function extractSymbols(filePath: string, lines: string[]): RepoSymbol[] {
+  const lang = symbolLanguage(filePath);
+  if (!lang) return [];
+
+  const out: RepoSymbol[] = [];
+  const containers: Container[] = [];
+  let depth = 0;
+  let inGoTypeGroup = false;
+
+  for (let i = 0; i < lines.length; i += 1) {
+    const line = lines[i] ?? "";
+    const code = codePart(line);
+
+    const delta = braceDelta(code);
+    while (containers.length > 0) {
+      const c = containers[containers.length - 1]!;
+      if (c.pending || depth > c.depth) break;
+      containers.pop();
+    }
+    const container = containers[containers.length - 1];
+    if (container?.pending && delta > 0) container.pending = false;
+
+    if (lang === "go") {
+      if (/^type\s*\(\s*$/.test(line)) inGoTypeGroup = true;
+      else if (inGoTypeGroup && /^\)/.test(line)) inGoTypeGroup = false;
+    }
+
+    const found =
+      lang === "go"
+        ? extractGoLine(line, container, depth, inGoTypeGroup)
+        : lang === "rust"
+          ? extractRustLine(line, container)
+          : extractCppLine(line, container, depth);
+
+    for (const sym of found) {
+      out.push({ ...sym, line: i + 1 });
+      const isContainer =
+        sym.kind === "impl" ||
+        sym.kind === "trait" ||
+        sym.kind === "interface" ||
+        (lang === "cpp" && (sym.kind === "class" || sym.kind === "struct"));
+      if (!isContainer) continue;
+      if (delta > 0) containers.push({ name: sym.name, kind: sym.kind, depth });
+      else if (/^\s*\{/.test(lines[i + 1] ?? "")) containers.push({ name: sym.name, kind: sym.kind, depth, pending: true });
+    }
+
+    depth = Math.max(0, depth + delta);
+  }
+
+  return out;
+}
+
+/**
+ * Last line (1-based) of the declaration at `line`: where its braces close again, the `;` of a
+ * bodiless declaration, or (Go) the end of a one-line `type X int`. Capped at `maxLines` lines.
+ */
+export function symbolEndLine(filePath: string, lines: string[], line: number, maxLines = 400): number {
+  const lang = symbolLanguage(filePath);
+  const last = Math.min(lines.length, line + maxLines - 1);
+  if (!lang) return last;
+
+  let depth = 0;
+  let opened = false;
+  for (let i = line - 1; i < last; i += 1) {
+    const code = codePart(lines[i] ?? "");
+    depth += braceDelta(code);
+    if (depth > 0) opened = true;
+    if (opened && depth <= 0) return i + 1;
+    if (!opened) {
+      const tail = code.trimEnd();
+      if (tail.endsWith(";") || (lang === "go" && tail && !/[({,]$/.test(tail))) return i + 1;
+    }
+  }
+  return last;
+}
+
+export type SymbolTerm = {
+  name: string;
+  container?: string;
+};
+
+// `Sink.WriteEvents`, `Sink::write_events`, `writeEvents()`: qualified names kept whole.
+const QUALIFIED_RE = /`([^`\s]+)`|(?<![\w.:/@-])([A-Za-z_]\w*(?:(?:::|\.)[A-Za-z_]\w*)*)(?:\(\))?(?![\w:])/g;
+
+// `config.toml`, `sink.go` name files, not members.
+const FILE_EXT_RE = /\.(?:go|rs|ts|js|py|java|cc|cpp|h|proto|toml|ya?ml|json|md|sh|txt|log)$/i;
+
+// Prose words ("where", "implemented") aren't symbols; snake_case, camelCase and PascalCase
+// with inner capitals are, as are qualified and backquoted names.
+function looksLikeIdentifier(word: string): boolean {
+  return word.includes("_") || /[a-z0-9][A-Z]/.test(word) || /^[A-Z]{2,}[a-z]/.test(word);
+}
+
+/**
+ * Symbol lookups in a query's raw text: `Sink.WriteEvents` / `Sink::write_events` become
+ * `{ container: "sink", name: "writeevents" }`; backquoted or identifier-shaped words become
+ * `{ name }`. Lowercased.
+ */
+export function symbolTermsFromQuery(text: string): SymbolTerm[] {
+  const out: SymbolTerm[] = [];
+  const seen = new Set<string>();
+  for (const m of text.matchAll(QUALIFIED_RE)) {
+    const quoted = m[1] !== undefined;
+    const token = (m[1] ?? m[2] ?? "").replace(/\(\)$/, "");
+    if (FILE_EXT_RE.test(token)) continue;
+    const parts = token.split(/::|\./g);
+    if (!parts.every((p) => /^[A-Za-z_]\w*$/.test(p))) continue;
+    if (!quoted && parts.length === 1 && !looksLikeIdentifier(token)) continue;
+
+    const name = parts[parts.length - 1]!.toLowerCase();
+    const container = parts.length >= 2 ? parts[parts.length - 2]!.toLowerCase() : undefined;
+    if (name.length < 3) continue;
+
+    const key = `${container ?? ""}.${name}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push(container ? { name, container } : { name });
+  }
+  return out;
+}
+
+export function formatSymbol(sym: RepoSymbol): string {
+  if (sym.kind === "impl" && sym.container) return `impl ${sym.container} for ${sym.name}`;
+  return sym.container ? `${sym.kind} ${sym.container}.${sym.name}` : `${sym.kind} ${sym.name}`;
+}
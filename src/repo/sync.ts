@@ -0,0 +1,179 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import type { RepoTarget } from "../config.js";
+import { logger } from "../logger.js";
+import { isGitRepo, resolveGitHead, resolveGitRef, runGit } from "./git.js";
+
+const SYNC_TIMEOUT_MS = 5 * 60_000;
+
+type RepoSyncState = {
+  lastSyncAtMs?: number;
+  lastError?: string;
+  // The variant's ref is a tag: nothing to fast-forward, and it never goes stale.
+  pinned?: boolean;
+  // Set while a fetch/fast-forward of this repo (variant) is running; searches on it wait for it.
+  updating?: Promise<void>;
+};
+
+// By path + ref: ref-backed variants share a clone but are synced (and go stale) separately.
+const syncStates = new Map<string, RepoSyncState>();
+// Last sync queued per clone; variant syncs chain on it so only one git process touches it at a time.
+const cloneQueues = new Map<string, Promise<void>>();
+
+function stateKey(repo: Pick<RepoTarget, "path" | "ref">): string {
+  return `${path.resolve(repo.path)}\0${repo.ref ?? ""}`;
+}
+
+function stateFor(repo: RepoTarget): RepoSyncState {
+  const key = stateKey(repo);
+  let state = syncStates.get(key);
+  if (!state) {
+    state = {};
+    syncStates.set(key, state);
+  }
+  return state;
+}
+
+async function currentBranch(repoPath: string): Promise<string | undefined> {
+  const out = await runGit(repoPath, ["symbolic-ref", "--quiet", "--short", "HEAD"]);
+  return out?.toString("utf8").trim() || undefined;
+}
+
+async function isGitTag(repoPath: string, ref: string): Promise<boolean> {
+  return !!(await runGit(repoPath, ["show-ref", "--verify", "--quiet", `refs/tags/${ref}`]));
+}
+
+async function fetchAndFastForward(repo: RepoTarget): Promise<void> {
+  const remote = repo.syncRemote ?? "origin";
+  const head = await currentBranch(repo.path);
+  const branch = repo.syncBranch ?? repo.ref ?? head;
+  if (!branch) throw new Error("HEAD is detached; set `branch` to sync");
+
+  const timeoutMs = SYNC_TIMEOUT_MS;
+  if (branch === head) {
+    const fetched = await runGit(repo.path, ["fetch", "--quiet", remote, branch], { timeoutMs });
+    if (!fetched) throw new Error(`git fetch ${remote} ${branch} failed`);
+    const merged = await runGit(repo.path, ["merge", "--ff-only", "--quiet", "FETCH_HEAD"], { timeoutMs });
+    if (!merged) throw new Error(`fast-forward of ${branch} failed (local changes or diverged history?)`);
+    return;
+  }
+
+  // Not checked out: `fetch <branch>:<branch>` only ever fast-forwards the local ref.
+  const fetched = await runGit(repo.path, ["fetch", "--quiet", remote, `${branch}:${branch}`], { timeoutMs });
+  if (!fetched) throw new Error(`git fetch ${remote} ${branch}:${branch} failed (missing branch or non-fast-forward?)`);
+}
+
+export async function syncRepo(repo: RepoTarget): Promise<void> {
+  const state = stateFor(repo);
+  if (state.updating) return state.updating;
+  if (state.pinned) return;
+
+  const resolve = () => (repo.ref ? resolveGitRef(repo.path, repo.ref) : resolveGitHead(repo.path));
+  const run = async () => {
+    if (repo.ref && !repo.syncBranch && (await isGitTag(repo.path, repo.ref))) {
+      state.pinned = true;
+      logger.info({ repo: repo.displayName, tag: repo.ref }, "Repo variant is a tag; not syncing it");
+      return;
+    }
+    const before = await resolve();
+    try {
+      await fetchAndFastForward(repo);
+      state.lastSyncAtMs = Date.now();
+      state.lastError = undefined;
+      const after = await resolve();
+      logger.info({ repo: repo.displayName, from: before, to: after }, "Synced repo");
+    } catch (error) {
+      state.lastError = error instanceof Error ? error.message : String(error);
+      logger.warn({ repo: repo.displayName, err: error }, "Repo sync failed");
+    }
+  };
+
+  const cloneKey = path.resolve(repo.path);
+  const updating = (cloneQueues.get(cloneKey) ?? Promise.resolve()).then(run).finally(() => {
+    if (state.updating === updating) state.updating = undefined;
+    if (cloneQueues.get(cloneKey) === updating) cloneQueues.delete(cloneKey);
+  });
+  state.updating = updating;
+  cloneQueues.set(cloneKey, updating);
+  return updating;
+}
+
+/**
+ * Starts background sync for repos configured with `sync = "<interval>"`.
+ * Each repo is synced once right away and then every interval. Returns a stop function.
+ */
+export function startRepoSync(repos: RepoTarget[]): () => void {
+  const timers: NodeJS.Timeout[] = [];
+  for (const repo of repos) {
+    if (!repo.syncIntervalMs) continue;
+    if (!isGitRepo(repo.path)) {
+      logger.warn({ repo: repo.displayName }, "Repo sync configured for a non-git checkout; skipping");
+      continue;
+    }
+
+    void syncRepo(repo);
+    const timer = setInterval(() => void syncRepo(repo), repo.syncIntervalMs);
+    timer.unref();
+    timers.push(timer);
+    logger.info({ repo: repo.displayName, intervalMs: repo.syncIntervalMs }, "Scheduled repo sync");
+  }
+  return () => {
+    for (const t of timers) clearInterval(t);
+  };
+}
+
+/**
+ * Waits until none of the given repos (variants) is in the middle of a sync, for at most
+ * `timeoutMs` (0/undefined: no limit); rejects with the signal's reason once it is aborted.
+ * Returns the repos whose sync was still running when the wait gave up, so the caller can
+ * search their current checkout and flag it.
+ */
+export async function waitForRepoSync<T extends Pick<RepoTarget, "path" | "ref">>(
+  repos: T[],
+  opts: { signal?: AbortSignal; timeoutMs?: number } = {}
+): Promise<T[]> {
+  opts.signal?.throwIfAborted();
+  const pending = repos.flatMap((repo) => {
+    const updating = syncStates.get(stateKey(repo))?.updating;
+    return updating ? [{ repo, updating }] : [];
+  });
+  if (pending.length === 0) return [];
+  logger.debug({ repos: repos.length, pending: pending.length }, "Waiting for repo sync before searching");
+
+  const ms = Math.max(0, Math.floor(opts.timeoutMs ?? 0));
+  let timer: NodeJS.Timeout | undefined;
+  let onAbort: (() => void) | undefined;
+  const gaveUp = new Promise<void>((resolve, reject) => {
+    if (ms > 0) timer = setTimeout(resolve, ms);
+    onAbort = () => reject(opts.signal?.reason);
+    opts.signal?.addEventListener("abort", onAbort, { once: true });
+  });
+  try {
+    await Promise.race([Promise.all(pending.map((p) => p.updating)), gaveUp]);
+  } finally {
+    if (timer) clearTimeout(timer);
+    if (onAbort) opts.signal?.removeEventListener("abort", onAbort);
+  }
+
+  const syncing = pending.filter((p) => syncStates.get(stateKey(p.repo))?.updating === p.updating).map((p) => p.repo);
+  if (syncing.length > 0) {
+    logger.warn({ repos: syncing.map((r) => r.path), timeoutMs: ms }, "Repo sync still running; searching the current checkout");
+  }
+  return syncing;
+}
+
+// For repos configured with `sync`: the last successful sync by this process, else the last
+// `git fetch` (FETCH_HEAD mtime) by anyone. Manually managed checkouts and tag variants have
+// no sync time, so they are never reported stale.
+export function repoLastSyncAtMs(repo: RepoTarget): number | undefined {
+  if (!repo.syncIntervalMs) return undefined;
+  const state = syncStates.get(stateKey(repo));
+  if (state?.pinned) return undefined;
+  if (state?.lastSyncAtMs !== undefined) return state.lastSyncAtMs;
+  try {
+    return fs.statSync(path.join(repo.path, ".git", "FETCH_HEAD")).mtimeMs;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,299 @@
+import path from "node:path";
+
+import type { RepoTarget } from "../config.js";
+import { logger } from "../logger.js";
+import { enclosingBlockFinder } from "./blocks.js";
+import { normalizeRepos, repoSource, withPermalinkBase, type RepoHit, type RepoWithName } from "./multiSearchLocal.js";
+import { isTestPath, parseRepoQuery } from "./query.js";
+import { getRepoIndex, makeExcerpt, tokenizeQuery } from "./search.js";
+import { extractSymbols, symbolEndLine, symbolLanguage } from "./symbols.js";
+
+export type RepoTestsResult = {
+  contextText: string;
+  sources: string[];
+};
+
+// Unit tests shown per target, and integration test cases per repo.
+const MAX_UNIT_TESTS = 3;
+const MAX_INTEGRATION_CASES = 2;
+
+const INTEGRATION_DIR_RE = /^(.*?(?:^|\/)tests\/integration_tests)\/([^/]+)\//;
+// Words too common to tie a question to an integration case on their own.
+const CASE_STOP_WORDS = new Set([
+  "and",
+  "the",
+  "for",
+  "with",
+  "from",
+  "not",
+  "all",
+  "new",
+  "get",
+  "set",
+  "run",
+  "use",
+  "how",
+  "why",
+  "what",
+  "when",
+  "does",
+  "test",
+  "tests",
+  "case",
+  "cases",
+  "basic",
+  "simple",
+  "common",
+  "default",
+  "data",
+  "error",
+  "normal"
+]);
+
+type TestCase = {
+  filePath: string;
+  // Test function name, or the integration case directory.
+  name: string;
+  startLine: number;
+  endLine: number;
+  lines: string[];
+};
+
+type TestTarget = { repo: RepoTarget; filePath: string; line: number };
+
+function repoKey(repoPath: string, ref: string | undefined): string {
+  return `${path.resolve(repoPath)}\0${ref ?? ""}`;
+}
+
+function mentions(lines: string[], startLine: number, endLine: number, name: string): boolean {
+  const re = new RegExp(`\\b${name.replace(/[$]/g, "\\$")}\\b`);
+  for (let i = startLine - 1; i < endLine; i += 1) {
+    if (re.test(lines[i] ?? "")) return true;
+  }
+  return false;
+}
+
+// Tests named after the symbol (`TestWriteEvents`, `test_write_events`) first, then ones that merely call it.
+function pickTests(cases: TestCase[], name: string): TestCase[] {
+  const lower = name.toLowerCase().replace(/_/g, "");
+  const named = (c: TestCase) => c.name.toLowerCase().replace(/_/g, "").includes(lower);
+  return [...cases.filter(named), ...cases.filter((c) => !named(c))].slice(0, MAX_UNIT_TESTS);
+}
+
+// `func TestXxx` / `BenchmarkXxx` / `ExampleXxx` / `FuzzXxx` in a Go test file that mention `name`.
+function goTestCases(filePath: string, lines: string[], name: string): TestCase[] {
+  const out: TestCase[] = [];
+  for (const sym of extractSymbols(filePath, lines)) {
+    if (sym.kind !== "func" || !/^(?:Test|Benchmark|Example|Fuzz)/.test(sym.name)) continue;
+    const endLine = symbolEndLine(filePath, lines, sym.line);
+    if (sym.name.includes(name) || mentions(lines, sym.line, endLine, name)) {
+      out.push({ filePath, name: sym.name, startLine: sym.line, endLine, lines });
+    }
+  }
+  return out;
+}
+
+// `#[test]` (or `#[tokio::test]`, ...) functions on 0-based lines [from, to) that mention `name`.
+function rustTestFns(filePath: string, lines: string[], name: string, from: number, to: number): TestCase[] {
+  const out: TestCase[] = [];
+  for (let j = from; j < to; j += 1) {
+    if (!/^\s*#\[(?:[\w:]+::)?test\b/.test(lines[j] ?? "")) continue;
+    let fnIdx = j + 1;
+    while (fnIdx < to && /^\s*#\[/.test(lines[fnIdx] ?? "")) fnIdx += 1;
+    const fn = /^\s*(?:pub\s+)?(?:async\s+)?fn\s+(\w+)/.exec(lines[fnIdx] ?? "");
+    if (!fn) continue;
+    const endLine = symbolEndLine(filePath, lines, fnIdx + 1);
+    if (fn[1]!.includes(name.toLowerCase()) || mentions(lines, fnIdx + 1, endLine, name)) {
+      out.push({ filePath, name: fn[1]!, startLine: j + 1, endLine, lines });
+    }
+    j = endLine - 1;
+  }
+  return out;
+}
+
+// Test functions inside the file's `#[cfg(test)] mod ... { }` that mention `name`.
+function rustTestCases(filePath: string, lines: string[], name: string): TestCase[] {
+  const out: TestCase[] = [];
+  for (let i = 0; i < lines.length; i += 1) {
+    if (!/^\s*#\[cfg\(test\)\]/.test(lines[i] ?? "")) continue;
+    let modIdx = i + 1;
+    while (modIdx < lines.length && /^\s*(?:#\[|\/\/|$)/.test(lines[modIdx] ?? "")) modIdx += 1;
+    if (!/^\s*(?:pub(?:\([^)]*\))?\s+)?mod\s+\w+\s*\{/.test(lines[modIdx] ?? "")) continue;
+    const modEnd = symbolEndLine(filePath, lines, modIdx + 1, lines.length);
+    out.push(...rustTestFns(filePath, lines, name, modIdx + 1, modEnd));
+    i = modEnd - 1;
+  }
+  return out;
+}
+
+// Integration tests of the target's crate: `.rs` files under the `tests/` next to its `src/`.
+function rustIntegrationTestFiles(files: string[], filePath: string): string[] {
+  const crateRoot = /^(.*?\/)?src\//.exec(filePath)?.[1] ?? "";
+  const testsDir = `${crateRoot}tests/`;
+  return files.filter((f) => f.startsWith(testsDir) && f.endsWith(".rs"));
+}
+
+// `WriteEvents` → ["write", "events"]; `max_txn_ttl` → ["max", "txn", "ttl"].
+function words(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w.length >= 3);
+}
+
+/**
+ * `tests/integration_tests/<case>/` directories whose name shares words with the feature terms
+ * (e.g. `changefeed_pause_resume` for "pause a changefeed"). Generic words (`test`, `basic`, ...)
+ * don't count; a case needs two matching words, or every word of a shorter name.
+ */
+function integrationCaseDirs(files: string[], terms: Set<string>): Array<{ dir: string; name: string }> {
+  const dirs = new Map<string, string>();
+  for (const f of files) {
+    const m = INTEGRATION_DIR_RE.exec(f);
+    if (m) dirs.set(`${m[1]}/${m[2]}`, m[2]!);
+  }
+
+  const scored: Array<{ dir: string; name: string; score: number }> = [];
+  for (const [dir, name] of dirs) {
+    const caseWords = words(name).filter((w) => !CASE_STOP_WORDS.has(w));
+    const score = caseWords.filter((w) => terms.has(w)).length;
+    if (score >= 2 || (score >= 1 && score === caseWords.length)) scored.push({ dir, name, score });
+  }
+  scored.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+  return scored.slice(0, MAX_INTEGRATION_CASES);
+}
+
+// The case's entry script (`run.sh`), else its first file.
+function integrationEntry(files: string[], dir: string): string | undefined {
+  const inDir = files.filter((f) => f.startsWith(`${dir}/`)).sort();
+  return inDir.find((f) => /\/run\.sh$/.test(f)) ?? inDir[0];
+}
+
+function renderCase(c: TestCase, source: string, maxLines: number): string {
+  const endLine = Math.min(c.endLine, c.startLine + Math.max(1, maxLines) - 1);
+  const more = c.endLine > endLine ? `\n…(${c.endLine - endLine} more lines)` : "";
+  return `File: ${source} [test: ${c.name}]\n${makeExcerpt(c.lines, c.startLine, endLine)}${more}`;
+}
+
+/**
+ * Finds the tests that exercise the code a repo search surfaced, as evidence of intended
+ * behavior: for each hit's enclosing function, Go `Test*` functions in the package's `_test.go`
+ * files and Rust `#[test]` functions in the file's `#[cfg(test)]` module or the crate's `tests/`
+ * that call it; plus, per repo, `tests/integration_tests/<case>` directories named after the
+ * feature. Rejects with the signal's reason once `signal` fires.
+ */
+export async function findRepoTests(opts: {
+  repos: RepoTarget[];
+  hits: RepoHit[];
+  // Search query; its words pick integration test cases.
+  query: string;
+  maxTargets: number;
+  maxFiles: number;
+  maxFileBytes: number;
+  // Lines shown per test.
+  maxLinesPerTest: number;
+  maxContextChars: number;
+  signal?: AbortSignal;
+}): Promise<RepoTestsResult> {
+  const byKey = new Map<string, RepoTarget>();
+  for (const repo of opts.repos) {
+    const key = repoKey(repo.path, repo.ref);
+    if (!byKey.has(key)) byKey.set(key, repo);
+  }
+
+  const targets: TestTarget[] = [];
+  const seenTargets = new Set<string>();
+  for (const hit of opts.hits) {
+    const repo = byKey.get(repoKey(hit.repoPath, hit.ref));
+    if (!repo || isTestPath(hit.filePath)) continue;
+    const key = `${repoKey(hit.repoPath, hit.ref)}\0${hit.filePath}`;
+    if (seenTargets.has(key)) continue;
+    seenTargets.add(key);
+    targets.push({ repo, filePath: hit.filePath, line: hit.line });
+    if (targets.length >= Math.max(1, opts.maxTargets)) break;
+  }
+
+  const blocks: string[] = [];
+  const sources: string[] = [];
+  const queryTerms = new Set(tokenizeQuery(parseRepoQuery(opts.query).text).flatMap(words));
+
+  const byRepo = new Map<string, TestTarget[]>();
+  for (const t of targets) {
+    const key = repoKey(t.repo.path, t.repo.ref);
+    byRepo.set(key, [...(byRepo.get(key) ?? []), t]);
+  }
+
+  for (const repoTargets of byRepo.values()) {
+    opts.signal?.throwIfAborted();
+    const repo = repoTargets[0]!.repo;
+    const [normalized] = normalizeRepos([repo]);
+    if (!normalized) continue;
+    try {
+      const index = await getRepoIndex(normalized.repoPath, opts.maxFiles, normalized.pathFilter, normalized.ref);
+      const sourceRepo: RepoWithName = await withPermalinkBase(normalized, index.fingerprint.head);
+      const source = (c: TestCase) => repoSource(sourceRepo, c.filePath, c.startLine);
+      const terms = new Set(queryTerms);
+
+      for (const target of repoTargets) {
+        opts.signal?.throwIfAborted();
+        const file = (await index.reader.read([target.filePath], opts.maxFileBytes)).get(target.filePath);
+        if (!file) continue;
+        const lines = file.text.split(/\r?\n/g);
+        const block = enclosingBlockFinder(target.filePath, lines)?.(target.line);
+        if (!block || block.name.length < 3) continue;
+        for (const w of words(block.name)) terms.add(w);
+
+        let cases: TestCase[] = [];
+        const lang = symbolLanguage(target.filePath);
+        if (lang === "go") {
+          const dir = path.posix.dirname(target.filePath);
+          const sibling = target.filePath.replace(/\.go$/, "_test.go");
+          const testFiles = index.files
+            .filter((f) => f.endsWith("_test.go") && path.posix.dirname(f) === dir)
+            .sort((a, b) => Number(b === sibling) - Number(a === sibling));
+          const texts = await index.reader.read(testFiles, opts.maxFileBytes);
+          for (const f of testFiles) {
+            const t = texts.get(f);
+            if (t) cases.push(...goTestCases(f, t.text.split(/\r?\n/g), block.name));
+          }
+        } else if (lang === "rust") {
+          cases = rustTestCases(target.filePath, lines, block.name);
+          const testFiles = rustIntegrationTestFiles(index.files, target.filePath);
+          const texts = await index.reader.read(testFiles, opts.maxFileBytes);
+          for (const f of testFiles) {
+            const t = texts.get(f);
+            if (!t?.text.includes(block.name)) continue;
+            const testLines = t.text.split(/\r?\n/g);
+            cases.push(...rustTestFns(f, testLines, block.name, 0, testLines.length));
+          }
+        }
+
+        const picked = pickTests(cases, block.name);
+        if (picked.length === 0) continue;
+        const header = `Tests for ${block.symbol} (${normalized.repoLabel}: ${target.filePath}):`;
+        blocks.push([header, ...picked.map((c) => renderCase(c, source(c), opts.maxLinesPerTest))].join("\n"));
+        for (const c of picked) sources.push(source(c));
+      }
+
+      for (const { dir, name } of integrationCaseDirs(index.files, terms)) {
+        const entry = integrationEntry(index.files, dir);
+        const file = entry ? (await index.reader.read([entry], opts.maxFileBytes)).get(entry) : undefined;
+        if (!entry || !file) continue;
+        const lines = file.text.replace(/\s+$/, "").split(/\r?\n/g);
+        const c: TestCase = { filePath: entry, name, startLine: 1, endLine: lines.length, lines };
+        blocks.push(`Integration test case ${dir}/ (${normalized.repoLabel}):\n${renderCase(c, source(c), opts.maxLinesPerTest)}`);
+        sources.push(source(c));
+      }
+    } catch (error) {
+      if (opts.signal?.aborted) throw error;
+      logger.warn({ err: error, repo: normalized.repoLabel }, "Test lookup failed");
+    }
+  }
+
+  let contextText = blocks.join("\n\n");
+  if (contextText.length > opts.maxContextChars) {
+    contextText = `${contextText.slice(0, Math.max(0, opts.maxContextChars - 20))}\n\n…(truncated)`;
+  }
+  return { contextText, sources };
+}
@@ -0,0 +1,153 @@
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { workingTreeReader, type RepoFileReader } from "./reader.js";
+import { getRepoIndex } from "./search.js";
+import { narrowFilesWithTrigramIndex } from "./trigramIndex.js";
+
+let tmp = "";
+
+function git(cwd: string, ...args: string[]): void {
+  execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], { cwd, stdio: "ignore" });
+}
+
+function write(repo: string, rel: string, text: string, mtimeSec?: number): void {
+  const file = path.join(repo, rel);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, text);
+  // Same-size edits within one mtime tick would look unchanged; tests move the clock explicitly.
+  if (mtimeSec !== undefined) fs.utimesSync(file, mtimeSec, mtimeSec);
+}
+
+function makeRepo(name: string): string {
+  const repo = path.join(tmp, name);
+  write(repo, "owner/owner.go", "func campaignOwner() {}\n");
+  write(repo, "sink/mysql.go", "func writeEvents() { flushOwner() }\n");
+  write(repo, "docs/owner.md", "# Owner election\n");
+  git(repo, "init", "-q");
+  git(repo, "add", "-A");
+  git(repo, "commit", "-q", "-m", "init");
+  return repo;
+}
+
+// Counts what the index asks of the working tree.
+function countingReader(repo: string): RepoFileReader & { stats: number; reads: string[] } {
+  const inner = workingTreeReader(repo);
+  const reader = {
+    ...inner,
+    stats: 0,
+    reads: [] as string[],
+    stat(relPath: string) {
+      reader.stats += 1;
+      return inner.stat(relPath);
+    },
+    async read(relPaths: string[], maxFileBytes: number) {
+      reader.reads.push(...relPaths);
+      return inner.read(relPaths, maxFileBytes);
+    }
+  };
+  return reader;
+}
+
+async function narrow(repo: string, indexDir: string, tokensLower: string[], requiredLower?: string[]) {
+  const index = await getRepoIndex(repo, 100);
+  const out = await narrowFilesWithTrigramIndex({
+    indexDir,
+    reader: index.reader,
+    files: index.files,
+    maxFileBytes: 1 << 20,
+    tokensLower,
+    ...(requiredLower ? { requiredLower } : {}),
+    ...index.trigramScope
+  });
+  return out?.files.slice().sort();
+}
+
+beforeAll(() => {
+  tmp = fs.mkdtempSync(path.join(os.tmpdir(), "repo-trigram-test-"));
+});
+
+afterAll(() => {
+  fs.rmSync(tmp, { recursive: true, force: true });
+});
+
+describe("narrowFilesWithTrigramIndex", () => {
+  it("ORs the tokens and ANDs the required terms", async () => {
+    const repo = makeRepo("narrow");
+    const indexDir = path.join(tmp, "narrow-index");
+    expect(await narrow(repo, indexDir, ["campaign", "writeevents"])).toEqual(["owner/owner.go", "sink/mysql.go"]);
+    expect(await narrow(repo, indexDir, ["owner"])).toEqual(["docs/owner.md", "owner/owner.go", "sink/mysql.go"]);
+    expect(await narrow(repo, indexDir, ["owner"], ["func"])).toEqual(["owner/owner.go", "sink/mysql.go"]);
+    expect(await narrow(repo, indexDir, [], ["election"])).toEqual(["docs/owner.md"]);
+    expect(await narrow(repo, indexDir, ["nowhere"])).toEqual([]);
+  });
+
+  it("follows edits, deletions and new files in the working tree", async () => {
+    const repo = makeRepo("edits");
+    const indexDir = path.join(tmp, "edits-index");
+    expect(await narrow(repo, indexDir, ["campaign"])).toEqual(["owner/owner.go"]);
+
+    // Unstaged edit: only the working tree changes.
+    write(repo, "sink/mysql.go", "func writeEvents() { campaignAgain() }\n", 2_000_000_000);
+    expect(await narrow(repo, indexDir, ["campaign"])).toEqual(["owner/owner.go", "sink/mysql.go"]);
+
+    // Deleted (and staged, so it leaves the file list) and added files.
+    git(repo, "rm", "-q", "owner/owner.go");
+    write(repo, "election/campaign.go", "func campaign() {}\n");
+    git(repo, "add", "election/campaign.go");
+    expect(await narrow(repo, indexDir, ["campaign"])).toEqual(["election/campaign.go", "sink/mysql.go"]);
+
+    // A file deleted from the working tree only is still listed by git, but no longer matches.
+    fs.rmSync(path.join(repo, "sink/mysql.go"));
+    expect(await narrow(repo, indexDir, ["campaign"])).toEqual(["election/campaign.go"]);
+  });
+
+  it("skips the stat pass while the fingerprint and file list are unchanged", async () => {
+    const repo = makeRepo("fingerprint");
+    const indexDir = path.join(tmp, "fingerprint-index");
+    const reader = countingReader(repo);
+    const files = ["docs/owner.md", "owner/owner.go", "sink/mysql.go"];
+    const run = (fingerprint: string, list = files) =>
+      narrowFilesWithTrigramIndex({ indexDir, reader, files: list, maxFileBytes: 1 << 20, tokensLower: ["campaign"], fingerprint });
+
+    expect((await run("a"))?.files).toEqual(["owner/owner.go"]);
+    expect(reader.stats).toBe(3);
+    expect(reader.reads).toEqual(files);
+
+    write(repo, "sink/mysql.go", "func campaign() {}\n", 2_000_000_000);
+    expect((await run("a"))?.files).toEqual(["owner/owner.go"]);
+    expect(reader.stats).toBe(3);
+
+    expect((await run("b"))?.files).toEqual(["owner/owner.go", "sink/mysql.go"]);
+    expect(reader.stats).toBe(6);
+    expect(reader.reads).toEqual([...files, "sink/mysql.go"]);
+
+    // A different file list is checked again even under the same fingerprint.
+    expect((await run("b", files.slice(1)))?.files).toEqual(["owner/owner.go", "sink/mysql.go"]);
+    expect(reader.stats).toBe(8);
+  });
+
+  it("loads the index back from disk without re-reading unchanged files", async () => {
+    const repo = makeRepo("disk");
+    const indexDir = path.join(tmp, "disk-index");
+    const files = ["docs/owner.md", "owner/owner.go", "sink/mysql.go"];
+    const opts = { files, maxFileBytes: 1 << 20, tokensLower: ["owner"], requiredLower: ["func"], scoringTermsLower: ["owner"] };
+    const first = await narrowFilesWithTrigramIndex({ ...opts, indexDir, reader: workingTreeReader(repo) });
+    expect(fs.readdirSync(indexDir).filter((f) => f.endsWith(".trigram.json.gz"))).toHaveLength(1);
+
+    // A copy under another directory isn't in the in-memory cache, so it is read from disk.
+    const copyDir = path.join(tmp, "disk-index-copy");
+    fs.cpSync(indexDir, copyDir, { recursive: true });
+    const reader = countingReader(repo);
+    const loaded = await narrowFilesWithTrigramIndex({ ...opts, indexDir: copyDir, reader });
+    expect(reader.reads).toEqual([]);
+    expect(loaded).toEqual(first);
+    expect(loaded?.files).toEqual(["owner/owner.go", "sink/mysql.go"]);
+    expect(loaded?.stats.docCount).toBe(3);
+    expect(loaded?.stats.docFreq).toEqual({ owner: 3 });
+  });
+});
@@ -0,0 +1,391 @@
+import { createHash, randomBytes } from "node:crypto";
+import { once } from "node:events";
+import fs from "node:fs";
+import path from "node:path";
+import { pipeline } from "node:stream/promises";
+import { threadId } from "node:worker_threads";
+import zlib from "node:zlib";
+
+import { logger } from "../logger.js";
+import { emptyCorpusStats, type CorpusStats } from "./bm25.js";
+import type { RepoFileReader, RepoFileStat } from "./reader.js";
+
+const INDEX_VERSION = 3;
+const READ_BATCH = 256;
+// Records are written in chunks of about this many chars.
+const WRITE_CHUNK_CHARS = 1 << 20;
+
+type IndexedFile = {
+  path: string;
+  size: number;
+  mtimeMs: number;
+  // Blob id for ref-backed variants (mtime is meaningless there).
+  oid?: string;
+  // False for binary/oversized/unreadable files; kept so we don't re-read them until they change.
+  searchable: boolean;
+};
+
+type TrigramIndex = {
+  // Reader key (the working tree path, or `<path>@<ref>`), plus the scope of its file list.
+  key: string;
+  maxFileBytes: number;
+  files: Array<IndexedFile | undefined>;
+  byPath: Map<string, number>;
+  // Posting lists hold file ids in ascending order (ids are append-only until compaction).
+  postings: Map<string, number[]>;
+  // The file list and fingerprint of the last stat pass (in memory only).
+  checked?: { fingerprint: string; files: string[] };
+};
+
+// On disk: gzipped JSON lines, a header then one record per file and per posting list, so
+// neither writing nor loading a large repo's index builds one huge string.
+type SerializedHeader = { version: number; key: string; maxFileBytes: number };
+type SerializedRecord = ["f", IndexedFile] | ["p", string, number[]];
+
+export type TrigramIndexUpdate = {
+  added: number;
+  updated: number;
+  removed: number;
+};
+
+const trigramIndexCache = new Map<string, TrigramIndex>();
+// Updates read files asynchronously, so concurrent searches on one index take turns.
+const trigramIndexLocks = new Map<string, Promise<unknown>>();
+
+function withIndexLock<T>(filePath: string, fn: () => Promise<T>): Promise<T> {
+  const prev = trigramIndexLocks.get(filePath) ?? Promise.resolve();
+  const next = prev.then(fn, fn);
+  const settled = next.catch(() => undefined);
+  trigramIndexLocks.set(filePath, settled);
+  void settled.then(() => {
+    if (trigramIndexLocks.get(filePath) === settled) trigramIndexLocks.delete(filePath);
+  });
+  return next;
+}
+
+function indexFilePath(indexDir: string, readerKey: string, key: string): string {
+  const hash = createHash("sha1").update(key).digest("hex").slice(0, 12);
+  const base = (path.basename(readerKey) || "repo").replace(/[^\w.-]/g, "_");
+  return path.join(indexDir, `${base}-${hash}.trigram.json.gz`);
+}
+
+function emptyIndex(key: string, maxFileBytes: number): TrigramIndex {
+  return { key, maxFileBytes, files: [], byPath: new Map(), postings: new Map() };
+}
+
+function extractTrigrams(textLower: string): Set<string> {
+  const out = new Set<string>();
+  for (let i = 0; i + 3 <= textLower.length; i += 1) {
+    const tri = textLower.slice(i, i + 3);
+    if (tri.includes("\n")) continue;
+    out.add(tri);
+  }
+  return out;
+}
+
+function readIndexFromDisk(filePath: string, key: string, maxFileBytes: number): TrigramIndex | undefined {
+  let raw: Buffer;
+  try {
+    raw = fs.readFileSync(filePath);
+  } catch {
+    return undefined;
+  }
+
+  try {
+    const buf = zlib.gunzipSync(raw);
+    let index: TrigramIndex | undefined;
+    for (let start = 0; start < buf.length; ) {
+      const nl = buf.indexOf(10, start);
+      const end = nl < 0 ? buf.length : nl;
+      const line = buf.toString("utf8", start, end);
+      start = end + 1;
+      if (!line) continue;
+
+      if (!index) {
+        const header = JSON.parse(line) as SerializedHeader;
+        if (header.version !== INDEX_VERSION) return undefined;
+        if (header.key !== key || header.maxFileBytes !== maxFileBytes) return undefined;
+        index = emptyIndex(key, maxFileBytes);
+        continue;
+      }
+      const record = JSON.parse(line) as SerializedRecord;
+      if (record[0] === "f") {
+        index.byPath.set(record[1].path, index.files.length);
+        index.files.push(record[1]);
+      } else {
+        index.postings.set(record[1], record[2]);
+      }
+    }
+    return index;
+  } catch (error) {
+    logger.warn({ err: error, filePath }, "Failed to load repo trigram index; rebuilding");
+    return undefined;
+  }
+}
+
+async function writeIndexToDisk(filePath: string, index: TrigramIndex): Promise<void> {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  // Write-then-rename so concurrent workers never observe a half-written index; worker threads
+  // share the pid, hence the thread id and random suffix.
+  const tmpPath = `${filePath}.${process.pid}.${threadId}.${randomBytes(4).toString("hex")}.tmp`;
+  const gzip = zlib.createGzip();
+  const written = pipeline(gzip, fs.createWriteStream(tmpPath));
+
+  let chunk = "";
+  const push = async (line: string) => {
+    chunk += `${line}\n`;
+    if (chunk.length < WRITE_CHUNK_CHARS) return;
+    const full = !gzip.write(chunk);
+    chunk = "";
+    if (full) await once(gzip, "drain");
+  };
+
+  try {
+    const header: SerializedHeader = { version: INDEX_VERSION, key: index.key, maxFileBytes: index.maxFileBytes };
+    await push(JSON.stringify(header));
+    // Ids are positions among the kept files, as on load; compaction ran before any write.
+    for (const f of index.files) {
+      if (f) await push(JSON.stringify(["f", f] satisfies SerializedRecord));
+    }
+    for (const [tri, ids] of index.postings) await push(JSON.stringify(["p", tri, ids] satisfies SerializedRecord));
+    gzip.end(chunk);
+    await written;
+    fs.renameSync(tmpPath, filePath);
+  } catch (error) {
+    gzip.destroy();
+    await written.catch(() => undefined);
+    fs.rmSync(tmpPath, { force: true });
+    throw error;
+  }
+}
+
+function compact(index: TrigramIndex): void {
+  const remap: number[] = [];
+  const files: IndexedFile[] = [];
+  index.files.forEach((f, id) => {
+    if (!f) return;
+    remap[id] = files.length;
+    files.push(f);
+  });
+
+  const postings = new Map<string, number[]>();
+  for (const [tri, ids] of index.postings) {
+    const next: number[] = [];
+    for (const id of ids) {
+      const mapped = remap[id];
+      if (mapped !== undefined) next.push(mapped);
+    }
+    if (next.length > 0) postings.set(tri, next);
+  }
+
+  index.files = files;
+  index.byPath = new Map(files.map((f, id) => [f.path, id]));
+  index.postings = postings;
+}
+
+function addFile(index: TrigramIndex, entry: IndexedFile, text: string | undefined): void {
+  const id = index.files.length;
+  index.files.push(entry);
+  index.byPath.set(entry.path, id);
+  if (!text) return;
+
+  for (const tri of extractTrigrams(text.toLowerCase())) {
+    const list = index.postings.get(tri);
+    if (list) list.push(id);
+    else index.postings.set(tri, [id]);
+  }
+}
+
+function isUnchanged(existing: IndexedFile, stat: RepoFileStat): boolean {
+  if (stat.oid !== undefined || existing.oid !== undefined) return existing.oid === stat.oid;
+  return existing.size === stat.size && existing.mtimeMs === stat.mtimeMs;
+}
+
+async function updateIndex(index: TrigramIndex, files: string[], reader: RepoFileReader): Promise<TrigramIndexUpdate> {
+  const stats: TrigramIndexUpdate = { added: 0, updated: 0, removed: 0 };
+  const listed = new Set(files);
+
+  for (const [relPath, id] of index.byPath) {
+    if (listed.has(relPath)) continue;
+    index.files[id] = undefined;
+    index.byPath.delete(relPath);
+    stats.removed += 1;
+  }
+
+  let staleIds = 0;
+  const changed: Array<{ relPath: string; stat: RepoFileStat }> = [];
+  for (const relPath of files) {
+    const stat = reader.stat(relPath);
+    const existingId = index.byPath.get(relPath);
+    const existing = existingId !== undefined ? index.files[existingId] : undefined;
+
+    if (!stat) {
+      if (existingId !== undefined) {
+        index.files[existingId] = undefined;
+        index.byPath.delete(relPath);
+        stats.removed += 1;
+      }
+      continue;
+    }
+
+    if (existing && isUnchanged(existing, stat)) continue;
+
+    if (existingId !== undefined) {
+      index.files[existingId] = undefined;
+      staleIds += 1;
+      stats.updated += 1;
+    } else {
+      stats.added += 1;
+    }
+    changed.push({ relPath, stat });
+  }
+
+  for (let i = 0; i < changed.length; i += READ_BATCH) {
+    const batch = changed.slice(i, i + READ_BATCH);
+    const texts = await reader.read(batch.map((c) => c.relPath), index.maxFileBytes);
+    for (const { relPath, stat } of batch) {
+      const file = texts.get(relPath);
+      const entry: IndexedFile = { path: relPath, size: stat.size, mtimeMs: stat.mtimeMs, searchable: !!file };
+      if (stat.oid !== undefined) entry.oid = stat.oid;
+      addFile(index, entry, file?.text);
+    }
+  }
+
+  if (stats.removed > 0 || staleIds > 0) compact(index);
+  return stats;
+}
+
+function intersectSorted(a: number[], b: number[]): number[] {
+  const out: number[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    const x = a[i]!;
+    const y = b[j]!;
+    if (x === y) {
+      out.push(x);
+      i += 1;
+      j += 1;
+    } else if (x < y) {
+      i += 1;
+    } else {
+      j += 1;
+    }
+  }
+  return out;
+}
+
+function filesContainingToken(index: TrigramIndex, tokenLower: string): number[] {
+  const trigrams = Array.from(extractTrigrams(tokenLower));
+  if (trigrams.length === 0) return [];
+
+  const lists: number[][] = [];
+  for (const tri of trigrams) {
+    const list = index.postings.get(tri);
+    if (!list) return [];
+    lists.push(list);
+  }
+  lists.sort((a, b) => a.length - b.length);
+
+  let acc = lists[0]!;
+  for (let i = 1; i < lists.length && acc.length > 0; i += 1) acc = intersectSorted(acc, lists[i]!);
+  return acc;
+}
+
+function corpusStats(index: TrigramIndex, termsLower: string[]): CorpusStats {
+  const stats = emptyCorpusStats();
+  for (const f of index.files) {
+    if (!f?.searchable) continue;
+    stats.docCount += 1;
+    stats.totalLength += f.size;
+  }
+  // Trigram containment over-approximates document frequency slightly; good enough for IDF.
+  for (const term of termsLower) {
+    stats.docFreq[term] = filesContainingToken(index, term).filter((id) => index.files[id]?.searchable).length;
+  }
+  return stats;
+}
+
+function sameFiles(a: string[], b: string[]): boolean {
+  if (a === b) return true;
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i += 1) if (a[i] !== b[i]) return false;
+  return true;
+}
+
+// The stat pass can be skipped: same file list and fingerprint as last time.
+function isChecked(index: TrigramIndex, opts: { files: string[]; fingerprint?: string }): boolean {
+  const checked = index.checked;
+  if (!checked || opts.fingerprint === undefined || checked.fingerprint !== opts.fingerprint) return false;
+  return sameFiles(checked.files, opts.files);
+}
+
+/**
+ * Narrows `files` to the ones that may contain at least one of the query tokens (and all of
+ * `requiredLower`), using a persistent per-repo trigram index under `indexDir`. The index is
+ * refreshed incrementally (by size/mtime, or blob id for git refs) before querying. Also returns BM25 corpus statistics
+ * for `scoringTermsLower`. Returns undefined if the index cannot be used.
+ */
+export async function narrowFilesWithTrigramIndex(opts: {
+  indexDir: string;
+  reader: RepoFileReader;
+  files: string[];
+  maxFileBytes: number;
+  tokensLower: string[];
+  requiredLower?: string[];
+  scoringTermsLower?: string[];
+  // Which file list of the reader this is (its include/exclude/max depth filter). Each scope
+  // keeps its own index, so differently filtered targets of one checkout don't prune each other.
+  scope?: string;
+  // What the file list was built from (HEAD, git index mtime and working-tree stamp, or the
+  // variant commit); while it is unchanged the per-file stat pass is skipped.
+  fingerprint?: string;
+}): Promise<{ files: string[]; stats: CorpusStats } | undefined> {
+  const key = opts.scope ? `${opts.reader.key}#${opts.scope}` : opts.reader.key;
+  const filePath = indexFilePath(opts.indexDir, opts.reader.key, key);
+
+  return withIndexLock(filePath, async () => {
+    try {
+      let index = trigramIndexCache.get(filePath);
+      if (!index || index.maxFileBytes !== opts.maxFileBytes) {
+        index = readIndexFromDisk(filePath, key, opts.maxFileBytes) ?? emptyIndex(key, opts.maxFileBytes);
+        trigramIndexCache.set(filePath, index);
+      }
+
+      if (!isChecked(index, opts)) {
+        const update = await updateIndex(index, opts.files, opts.reader);
+        if (update.added > 0 || update.updated > 0 || update.removed > 0) {
+          logger.info({ repo: key, ...update }, "Updated repo trigram index");
+          await writeIndexToDisk(filePath, index);
+        }
+        index.checked =
+          opts.fingerprint !== undefined ? { fingerprint: opts.fingerprint, files: opts.files } : undefined;
+      }
+
+      const idsToPaths = (ids: number[]) => {
+        const out = new Set<string>();
+        for (const id of ids) {
+          const f = index!.files[id];
+          if (f?.searchable) out.add(f.path);
+        }
+        return out;
+      };
+
+      let matched: Set<string> | undefined;
+      if (opts.tokensLower.length > 0) {
+        matched = idsToPaths(opts.tokensLower.flatMap((t) => filesContainingToken(index!, t)));
+      }
+      for (const required of opts.requiredLower ?? []) {
+        const withRequired = idsToPaths(filesContainingToken(index, required));
+        matched = matched ? new Set(Array.from(matched).filter((p) => withRequired.has(p))) : withRequired;
+      }
+
+      const stats = corpusStats(index, opts.scoringTermsLower ?? opts.tokensLower);
+      if (!matched) return { files: opts.files, stats };
+      return { files: opts.files.filter((p) => matched!.has(p)), stats };
+    } catch (error) {
+      logger.warn({ err: error, repo: key }, "Repo trigram index unavailable; scanning all files");
+      return undefined;
+    }
+  });
+}
@@ -0,0 +1,142 @@
+type DiffOp = { kind: " " | "-" | "+"; text: string; aIndex: number; bIndex: number };
+
+// Snapshot of Myers' V array for one edit distance, restricted to diagonals [-d-1, d+1].
+type Frontier = { d: number; x: Int32Array };
+
+function frontierX(f: Frontier, k: number): number {
+  return f.x[k + f.d + 1] ?? 0;
+}
+
+/**
+ * Myers' O(ND) line diff. Returns undefined when more than `maxEdits` lines differ,
+ * so callers can report "too different" instead of spending time on unrelated texts.
+ */
+function diffLines(a: string[], b: string[], maxEdits: number): DiffOp[] | undefined {
+  const n = a.length;
+  const m = b.length;
+  const limit = Math.min(n + m, maxEdits);
+
+  const trace: Frontier[] = [];
+  let prev: Frontier = { d: 0, x: new Int32Array(3) };
+  let found = -1;
+
+  for (let d = 0; d <= limit; d += 1) {
+    trace.push(prev);
+    const cur: Frontier = { d: d + 1, x: new Int32Array(2 * d + 3) };
+    for (let k = -d; k <= d; k += 2) {
+      const down = k === -d || (k !== d && frontierX(prev, k - 1) < frontierX(prev, k + 1));
+      let x = down ? frontierX(prev, k + 1) : frontierX(prev, k - 1) + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x += 1;
+        y += 1;
+      }
+      cur.x[k + cur.d + 1] = x;
+      if (x >= n && y >= m) {
+        found = d;
+        break;
+      }
+    }
+    if (found >= 0) break;
+    prev = cur;
+  }
+  if (found < 0) return undefined;
+
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = found; d >= 0; d -= 1) {
+    const v = trace[d]!;
+    const k = x - y;
+    const down = k === -d || (k !== d && frontierX(v, k - 1) < frontierX(v, k + 1));
+    const prevK = down ? k + 1 : k - 1;
+    const prevX = frontierX(v, prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      x -= 1;
+      y -= 1;
+      ops.push({ kind: " ", text: a[x]!, aIndex: x, bIndex: y });
+    }
+    if (d === 0) break;
+    if (down) {
+      y -= 1;
+      ops.push({ kind: "+", text: b[y]!, aIndex: x, bIndex: y });
+    } else {
+      x -= 1;
+      ops.push({ kind: "-", text: a[x]!, aIndex: x, bIndex: y });
+    }
+  }
+  return ops.reverse();
+}
+
+/**
+ * Unified-diff hunks (`@@ -a,n +b,m @@` plus ` `/`-`/`+` lines) between two line lists.
+ * `aStartLine` / `bStartLine` are the file line numbers of the first list entries, so
+ * excerpts (e.g. one function) keep their real line numbers. Returns [] for identical
+ * input and undefined when the texts differ in more than `maxEdits` lines.
+ */
+export function unifiedDiff(opts: {
+  a: string[];
+  b: string[];
+  aStartLine?: number;
+  bStartLine?: number;
+  contextLines?: number;
+  maxEdits?: number;
+}): string[] | undefined {
+  const { a, b } = opts;
+  const context = Math.max(0, opts.contextLines ?? 3);
+  const aStart = opts.aStartLine ?? 1;
+  const bStart = opts.bStartLine ?? 1;
+
+  // Common prefix/suffix don't need the O(ND) search.
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix += 1;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+  if (prefix === a.length && prefix === b.length) return [];
+
+  const middle = diffLines(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix), opts.maxEdits ?? 2000);
+  if (!middle) return undefined;
+
+  const ops: DiffOp[] = [];
+  for (let i = 0; i < prefix; i += 1) ops.push({ kind: " ", text: a[i]!, aIndex: i, bIndex: i });
+  for (const op of middle) ops.push({ ...op, aIndex: op.aIndex + prefix, bIndex: op.bIndex + prefix });
+  for (let i = suffix; i > 0; i -= 1) {
+    ops.push({ kind: " ", text: a[a.length - i]!, aIndex: a.length - i, bIndex: b.length - i });
+  }
+
+  // Group changes that are within 2*context lines of each other into one hunk.
+  const out: string[] = [];
+  let i = 0;
+  while (i < ops.length) {
+    while (i < ops.length && ops[i]!.kind === " ") i += 1;
+    if (i >= ops.length) break;
+
+    const start = Math.max(0, i - context);
+    let end = i;
+    let lastChange = i;
+    while (end < ops.length) {
+      if (ops[end]!.kind !== " ") lastChange = end;
+      else if (end - lastChange > 2 * context) break;
+      end += 1;
+    }
+    end = Math.min(ops.length, lastChange + context + 1);
+
+    const hunk = ops.slice(start, end);
+    const aLen = hunk.filter((op) => op.kind !== "+").length;
+    const bLen = hunk.filter((op) => op.kind !== "-").length;
+    const first = hunk[0]!;
+    const aFrom = aLen > 0 ? aStart + first.aIndex : aStart + first.aIndex - 1;
+    const bFrom = bLen > 0 ? bStart + first.bIndex : bStart + first.bIndex - 1;
+    out.push(`@@ -${aFrom},${aLen} +${bFrom},${bLen} @@`);
+    for (const op of hunk) out.push(`${op.kind}${op.text}`);
+    i = end;
+  }
+  return out;
+}
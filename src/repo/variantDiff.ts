@@ -0,0 +1,146 @@
+import path from "node:path";
+
+import type { RepoTarget } from "../config.js";
+import { logger } from "../logger.js";
+import { resolveGitHead, resolveGitRef } from "./git.js";
+import { repoSource, type RepoHit } from "./multiSearchLocal.js";
+import { repoWebUrl } from "./permalinks.js";
+import { readVariantFile } from "./reader.js";
+import { extractSymbols, formatSymbol, symbolEndLine } from "./symbols.js";
+import { unifiedDiff } from "./unifiedDiff.js";
+
+export type VariantDiffResult = {
+  contextText: string;
+  sources: string[];
+};
+
+// Diff lines shown per variant pair; the rest is summarized as a count.
+const MAX_DIFF_LINES = 160;
+const MAX_EDITS = 1500;
+
+type VariantText = {
+  repo: RepoTarget;
+  // Compared lines and the file line number of the first one.
+  lines: string[];
+  startLine: number;
+  endLine: number;
+};
+
+function repoKey(repoPath: string, ref: string | undefined): string {
+  return `${path.resolve(repoPath)}\0${ref ?? ""}`;
+}
+
+async function variantSource(repo: RepoTarget, filePath: string, line: number): Promise<string> {
+  const commit = repo.ref ? await resolveGitRef(repo.path, repo.ref) : await resolveGitHead(repo.path);
+  const webUrl = await repoWebUrl(path.resolve(repo.path), repo.githubUrl);
+  return repoSource({ repoLabel: repo.displayName, webUrl, commit }, filePath, line);
+}
+
+async function loadVariant(
+  repo: RepoTarget,
+  filePath: string,
+  symbol: string | undefined,
+  maxFileBytes: number
+): Promise<VariantText | undefined> {
+  const file = await readVariantFile(repo, filePath, maxFileBytes);
+  if (!file) return undefined;
+  const lines = file.text.split(/\r?\n/);
+  if (!symbol) return { repo, lines, startLine: 1, endLine: lines.length };
+
+  // The same declaration may sit at a different line (or be gone) in another variant.
+  const decl = extractSymbols(filePath, lines).find((s) => formatSymbol(s) === symbol);
+  if (!decl) return undefined;
+  const endLine = symbolEndLine(filePath, lines, decl.line);
+  return { repo, lines: lines.slice(decl.line - 1, endLine), startLine: decl.line, endLine };
+}
+
+function formatPair(filePath: string, base: VariantText, other: VariantText): string {
+  const header = [
+    `--- ${base.repo.displayName}:${filePath}:${base.startLine}-${base.endLine}`,
+    `+++ ${other.repo.displayName}:${filePath}:${other.startLine}-${other.endLine}`
+  ];
+  const hunks = unifiedDiff({
+    a: base.lines,
+    b: other.lines,
+    aStartLine: base.startLine,
+    bStartLine: other.startLine,
+    maxEdits: MAX_EDITS
+  });
+  if (!hunks) return [...header, `(more than ${MAX_EDITS} changed lines; too different to diff)`].join("\n");
+  if (hunks.length === 0) return `Identical in ${base.repo.displayName} and ${other.repo.displayName}.`;
+  if (hunks.length <= MAX_DIFF_LINES) return [...header, ...hunks].join("\n");
+  return [...header, ...hunks.slice(0, MAX_DIFF_LINES), `…(${hunks.length - MAX_DIFF_LINES} more diff lines)`].join("\n");
+}
+
+/**
+ * Compares the files/symbols surfaced by a repo search across the variants of their repo
+ * (e.g. `ticdc@master` vs `ticdc@release-8.5`): each hit is located again in every selected
+ * variant of the same repo and diffed against the first one. Definitions are compared by their
+ * declaration (found by symbol, so moved code still lines up); other hits compare the whole file.
+ */
+export async function diffRepoVariants(opts: {
+  // Selected repos; only repos with two or more selected variants are compared.
+  repos: RepoTarget[];
+  hits: RepoHit[];
+  maxTargets: number;
+  maxFileBytes: number;
+  maxContextChars: number;
+  signal?: AbortSignal;
+}): Promise<VariantDiffResult> {
+  const byKey = new Map<string, RepoTarget>();
+  const variantsByName = new Map<string, RepoTarget[]>();
+  for (const repo of opts.repos) {
+    const key = repoKey(repo.path, repo.ref);
+    if (byKey.has(key)) continue;
+    byKey.set(key, repo);
+    const list = variantsByName.get(repo.name) ?? [];
+    list.push(repo);
+    variantsByName.set(repo.name, list);
+  }
+
+  const targets: Array<{ variants: RepoTarget[]; filePath: string; symbol?: string }> = [];
+  const seenTargets = new Set<string>();
+  for (const hit of opts.hits) {
+    const repo = byKey.get(repoKey(hit.repoPath, hit.ref));
+    const variants = repo ? variantsByName.get(repo.name) : undefined;
+    if (!repo || !variants || variants.length < 2) continue;
+    const key = `${repo.name}\0${hit.filePath}\0${hit.symbol ?? ""}`;
+    if (seenTargets.has(key)) continue;
+    seenTargets.add(key);
+    targets.push({ variants, filePath: hit.filePath, ...(hit.symbol ? { symbol: hit.symbol } : {}) });
+    if (targets.length >= Math.max(1, opts.maxTargets)) break;
+  }
+
+  const blocks: string[] = [];
+  const sources: string[] = [];
+  for (const target of targets) {
+    opts.signal?.throwIfAborted();
+    let loaded: Array<VariantText | undefined>;
+    try {
+      loaded = await Promise.all(
+        target.variants.map((repo) => loadVariant(repo, target.filePath, target.symbol, opts.maxFileBytes))
+      );
+    } catch (error) {
+      logger.warn({ err: error, filePath: target.filePath }, "Variant diff failed");
+      continue;
+    }
+
+    const found = loaded.filter((v): v is VariantText => !!v);
+    if (found.length < 2) continue;
+
+    const base = found[0]!;
+    const missing = target.variants.filter((_, i) => !loaded[i]).map((r) => r.displayName);
+    const title = `Compare: ${target.filePath}${target.symbol ? ` [${target.symbol}]` : ""}`;
+    const parts = [title, ...found.slice(1).map((other) => formatPair(target.filePath, base, other))];
+    if (missing.length > 0) parts.push(`Not found in: ${missing.join(", ")}`);
+
+    blocks.push(parts.join("\n"));
+    for (const v of found) sources.push(await variantSource(v.repo, target.filePath, v.startLine));
+  }
+
+  let contextText = blocks.join("\n\n");
+  if (contextText.length > opts.maxContextChars) {
+    contextText = `${contextText.slice(0, Math.max(0, opts.maxContextChars - 20))}\n\n…(truncated)`;
+  }
+  return { contextText, sources };
+}
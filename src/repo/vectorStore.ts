@@ -0,0 +1,364 @@
+import { createHash, randomBytes } from "node:crypto";
+import { once } from "node:events";
+import fs from "node:fs";
+import path from "node:path";
+import { pipeline } from "node:stream/promises";
+import { threadId } from "node:worker_threads";
+import zlib from "node:zlib";
+
+import { logger } from "../logger.js";
+import { dotProduct, embedTexts, type RepoEmbeddingOptions } from "./embeddings.js";
+import { fileLanguage, isTestPath, matchesPathFilters, parseRepoQuery } from "./query.js";
+import type { RepoFileReader, RepoFileStat } from "./reader.js";
+import { abortCheckpoint, getRepoIndex, makeExcerpt, type RepoPathFilter, type RepoSnippet } from "./search.js";
+
+const STORE_VERSION = 2;
+const READ_BATCH = 64;
+// Records are written in chunks of about this many chars.
+const WRITE_CHUNK_CHARS = 1 << 20;
+// Lines per embedded chunk, and the text sent for one chunk (path header included).
+const CHUNK_LINES = 40;
+const MAX_CHUNK_CHARS = 4000;
+// New chunks embedded per search; a large repo is covered over several searches instead of
+// stalling the first one.
+const EMBED_CHUNKS_PER_SEARCH = 1024;
+
+// Code and docs; data files (json/yaml/sql results) make poor semantic matches.
+const EMBEDDED_LANGUAGES = new Set(["go", "rust", "cpp", "ts", "js", "python", "java", "proto", "markdown", "toml"]);
+
+type StoredFile = {
+  path: string;
+  size: number;
+  mtimeMs: number;
+  oid?: string;
+  // Inclusive 1-based line ranges; vectors holds chunks.length * dims floats.
+  chunks: Array<[number, number]>;
+  vectors: Float32Array;
+};
+
+type VectorStore = {
+  // Reader key (working tree path or `<path>@<ref>`) and embedding model.
+  key: string;
+  model: string;
+  dims: number;
+  maxFileBytes: number;
+  files: Map<string, StoredFile>;
+  chunkCount: number;
+  // Files were embedded or removed since the store was loaded or last written.
+  dirty: boolean;
+};
+
+// On disk: gzipped JSON lines, a header then one record per file (vectors base64-encoded), so
+// neither writing nor loading a large store builds one huge string.
+type SerializedHeader = { version: number; key: string; model: string; dims: number; maxFileBytes: number };
+type SerializedFile = Omit<StoredFile, "vectors"> & { vectors: string };
+
+const vectorStoreCache = new Map<string, VectorStore>();
+// Updates call the embeddings endpoint, so concurrent searches on one store take turns.
+const vectorStoreLocks = new Map<string, Promise<unknown>>();
+
+function withStoreLock<T>(cacheKey: string, fn: () => Promise<T>): Promise<T> {
+  const prev = vectorStoreLocks.get(cacheKey) ?? Promise.resolve();
+  const next = prev.then(fn, fn);
+  const settled = next.catch(() => undefined);
+  vectorStoreLocks.set(cacheKey, settled);
+  void settled.then(() => {
+    if (vectorStoreLocks.get(cacheKey) === settled) vectorStoreLocks.delete(cacheKey);
+  });
+  return next;
+}
+
+function storeFilePath(indexDir: string, key: string, model: string): string {
+  const hash = createHash("sha1").update(`${key}\0${model}`).digest("hex").slice(0, 12);
+  const base = (path.basename(key) || "repo").replace(/[^\w.-]/g, "_");
+  return path.join(indexDir, `${base}-${hash}.vectors.json.gz`);
+}
+
+function emptyStore(key: string, model: string, maxFileBytes: number): VectorStore {
+  return { key, model, dims: 0, maxFileBytes, files: new Map(), chunkCount: 0, dirty: false };
+}
+
+function readStoreFromDisk(filePath: string, key: string, model: string, maxFileBytes: number): VectorStore | undefined {
+  let raw: Buffer;
+  try {
+    raw = fs.readFileSync(filePath);
+  } catch {
+    return undefined;
+  }
+
+  try {
+    const buf = zlib.gunzipSync(raw);
+    let store: VectorStore | undefined;
+    for (let start = 0; start < buf.length; ) {
+      const nl = buf.indexOf(10, start);
+      const end = nl < 0 ? buf.length : nl;
+      const line = buf.toString("utf8", start, end);
+      start = end + 1;
+      if (!line) continue;
+
+      if (!store) {
+        const header = JSON.parse(line) as SerializedHeader;
+        if (header.version !== STORE_VERSION) return undefined;
+        if (header.key !== key || header.model !== model || header.maxFileBytes !== maxFileBytes) return undefined;
+        store = emptyStore(key, model, maxFileBytes);
+        store.dims = header.dims;
+        continue;
+      }
+      const f = JSON.parse(line) as SerializedFile;
+      const bytes = Buffer.from(f.vectors, "base64");
+      const vectors = new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4).slice();
+      store.files.set(f.path, { ...f, vectors });
+      store.chunkCount += f.chunks.length;
+    }
+    return store;
+  } catch (error) {
+    logger.warn({ err: error, filePath }, "Failed to load repo vector store; rebuilding");
+    return undefined;
+  }
+}
+
+async function writeStoreToDisk(filePath: string, store: VectorStore): Promise<void> {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  // Write-then-rename so concurrent workers never observe a half-written store; worker threads
+  // share the pid, hence the thread id and random suffix.
+  const tmpPath = `${filePath}.${process.pid}.${threadId}.${randomBytes(4).toString("hex")}.tmp`;
+  const gzip = zlib.createGzip();
+  const written = pipeline(gzip, fs.createWriteStream(tmpPath));
+
+  let chunk = "";
+  const push = async (line: string) => {
+    chunk += `${line}\n`;
+    if (chunk.length < WRITE_CHUNK_CHARS) return;
+    const full = !gzip.write(chunk);
+    chunk = "";
+    if (full) await once(gzip, "drain");
+  };
+
+  try {
+    const header: SerializedHeader = {
+      version: STORE_VERSION,
+      key: store.key,
+      model: store.model,
+      dims: store.dims,
+      maxFileBytes: store.maxFileBytes
+    };
+    await push(JSON.stringify(header));
+    for (const f of store.files.values()) {
+      const vectors = Buffer.from(f.vectors.buffer, f.vectors.byteOffset, f.vectors.byteLength).toString("base64");
+      await push(JSON.stringify({ ...f, vectors } satisfies SerializedFile));
+    }
+    gzip.end(chunk);
+    await written;
+    fs.renameSync(tmpPath, filePath);
+    store.dirty = false;
+  } catch (error) {
+    gzip.destroy();
+    await written.catch(() => undefined);
+    fs.rmSync(tmpPath, { force: true });
+    throw error;
+  }
+}
+
+function isUnchanged(existing: StoredFile, stat: RepoFileStat): boolean {
+  if (stat.oid !== undefined || existing.oid !== undefined) return existing.oid === stat.oid;
+  return existing.size === stat.size && existing.mtimeMs === stat.mtimeMs;
+}
+
+function chunkFile(relPath: string, text: string): Array<{ range: [number, number]; text: string }> {
+  const lines = text.split(/\r?\n/g);
+  const out: Array<{ range: [number, number]; text: string }> = [];
+  for (let start = 0; start < lines.length; start += CHUNK_LINES) {
+    const body = lines.slice(start, start + CHUNK_LINES).join("\n");
+    if (!body.trim()) continue;
+    const end = Math.min(lines.length, start + CHUNK_LINES);
+    out.push({ range: [start + 1, end], text: `${relPath}\n${body}`.slice(0, MAX_CHUNK_CHARS) });
+  }
+  return out;
+}
+
+function removeFile(store: VectorStore, relPath: string): void {
+  const existing = store.files.get(relPath);
+  if (!existing) return;
+  store.chunkCount -= existing.chunks.length;
+  store.files.delete(relPath);
+  store.dirty = true;
+}
+
+/**
+ * Embeds new/changed files of `files` (up to the per-search budget and the store's chunk cap)
+ * and drops files that are gone or changed. Non-test files go first.
+ */
+async function updateStore(
+  store: VectorStore,
+  files: string[],
+  reader: RepoFileReader,
+  embeddings: RepoEmbeddingOptions,
+  signal: AbortSignal | undefined
+): Promise<{ embeddedFiles: number; embeddedChunks: number; pendingFiles: number; deferredFiles: number }> {
+  const listed = new Set(files);
+  for (const relPath of Array.from(store.files.keys())) {
+    if (!listed.has(relPath)) removeFile(store, relPath);
+  }
+
+  const changed: Array<{ relPath: string; stat: RepoFileStat }> = [];
+  for (const relPath of files) {
+    if (!EMBEDDED_LANGUAGES.has(fileLanguage(relPath) ?? "")) continue;
+    const stat = reader.stat(relPath);
+    const existing = store.files.get(relPath);
+    if (existing && stat && isUnchanged(existing, stat)) continue;
+    if (existing) removeFile(store, relPath);
+    if (stat) changed.push({ relPath, stat });
+  }
+  changed.sort((a, b) => Number(isTestPath(a.relPath)) - Number(isTestPath(b.relPath)));
+
+  // Chunks the store can still take after this search, and files a later search will embed (not
+  // those too big for a search's budget or for what is left under the cap).
+  let room = embeddings.maxChunks - store.chunkCount;
+  let budget = Math.min(EMBED_CHUNKS_PER_SEARCH, room);
+  let embeddedFiles = 0;
+  let embeddedChunks = 0;
+  let deferredFiles = 0;
+  let i = 0;
+  for (; i < changed.length && budget > 0; i += READ_BATCH) {
+    await abortCheckpoint(signal);
+    const batch = changed.slice(i, i + READ_BATCH);
+    const texts = await reader.read(batch.map((c) => c.relPath), store.maxFileBytes);
+
+    // Whole files only: a file whose chunks don't fit the budget waits for a later search.
+    const pending: Array<{ relPath: string; stat: RepoFileStat; chunks: ReturnType<typeof chunkFile> }> = [];
+    for (const { relPath, stat } of batch) {
+      const file = texts.get(relPath);
+      const chunks = file ? chunkFile(relPath, file.text) : [];
+      if (chunks.length > budget) {
+        if (chunks.length <= Math.min(EMBED_CHUNKS_PER_SEARCH, room)) deferredFiles += 1;
+        continue;
+      }
+      budget -= chunks.length;
+      room -= chunks.length;
+      pending.push({ relPath, stat, chunks });
+    }
+
+    const vectors = await embedTexts(
+      embeddings,
+      pending.flatMap((p) => p.chunks.map((c) => c.text)),
+      signal
+    );
+    let offset = 0;
+    for (const p of pending) {
+      const fileVectors = vectors.slice(offset, offset + p.chunks.length);
+      offset += p.chunks.length;
+      const dims = fileVectors[0]?.length ?? store.dims;
+      if (store.dims && dims !== store.dims) {
+        throw new Error(`Embedding dimensions changed (${store.dims} -> ${dims}); delete the vector store to rebuild`);
+      }
+      store.dims = dims;
+      const flat = new Float32Array(p.chunks.length * dims);
+      fileVectors.forEach((v, j) => flat.set(v, j * dims));
+
+      const entry: StoredFile = {
+        path: p.relPath,
+        size: p.stat.size,
+        mtimeMs: p.stat.mtimeMs,
+        chunks: p.chunks.map((c) => c.range),
+        vectors: flat
+      };
+      if (p.stat.oid !== undefined) entry.oid = p.stat.oid;
+      store.files.set(p.relPath, entry);
+      store.chunkCount += p.chunks.length;
+      store.dirty = true;
+      embeddedFiles += 1;
+      embeddedChunks += p.chunks.length;
+    }
+  }
+
+  if (room > 0) deferredFiles += Math.max(0, changed.length - i);
+  return { embeddedFiles, embeddedChunks, pendingFiles: changed.length - embeddedFiles, deferredFiles };
+}
+
+export type SemanticSearchResult = {
+  snippets: RepoSnippet[];
+  // Files still waiting to be embedded by a later search; their chunks can't rank yet.
+  deferredFiles: number;
+};
+
+/**
+ * Semantic counterpart of `searchRepo`: the query's free text is embedded and compared with
+ * chunk embeddings of the repo kept in a local file-backed vector store (next to the trigram
+ * index under `indexDir`, memory-only without it). The store is refreshed incrementally before
+ * querying. Queries with exact-text filters (phrases, regexes) are left to keyword search.
+ */
+export async function searchRepoSemantic(opts: {
+  repoPath: string;
+  query: string;
+  maxFiles: number;
+  maxFileBytes: number;
+  maxHits: number;
+  embeddings: RepoEmbeddingOptions;
+  indexDir?: string;
+  pathFilter?: RepoPathFilter;
+  ref?: string;
+  signal?: AbortSignal;
+}): Promise<SemanticSearchResult> {
+  const parsed = parseRepoQuery(opts.query.trim());
+  const text = parsed.text.trim();
+  if (!text || parsed.phrases.length > 0 || parsed.regexes.length > 0) return { snippets: [], deferredFiles: 0 };
+
+  const index = await getRepoIndex(opts.repoPath, opts.maxFiles, opts.pathFilter, opts.ref);
+  const reader = index.reader;
+  const model = opts.embeddings.model;
+  const cacheKey = opts.indexDir ? storeFilePath(opts.indexDir, reader.key, model) : `${reader.key}\0${model}`;
+
+  let deferredFiles = 0;
+  const ranked = await withStoreLock(cacheKey, async () => {
+    let store = vectorStoreCache.get(cacheKey);
+    if (!store || store.maxFileBytes !== opts.maxFileBytes) {
+      store =
+        (opts.indexDir ? readStoreFromDisk(cacheKey, reader.key, model, opts.maxFileBytes) : undefined) ??
+        emptyStore(reader.key, model, opts.maxFileBytes);
+      vectorStoreCache.set(cacheKey, store);
+    }
+
+    try {
+      const update = await updateStore(store, index.files, reader, opts.embeddings, opts.signal);
+      deferredFiles = update.deferredFiles;
+      if (update.embeddedFiles > 0) {
+        logger.info({ repo: reader.key, ...update, totalChunks: store.chunkCount }, "Updated repo vector store");
+      }
+    } finally {
+      // Keep whatever was embedded before a failure or deadline; an unchanged store isn't rewritten.
+      if (opts.indexDir && store.dirty) await writeStoreToDisk(cacheKey, store);
+    }
+
+    const [queryVector] = await embedTexts(opts.embeddings, [text], opts.signal);
+    if (!queryVector || queryVector.length !== store.dims) return [];
+
+    const scored: Array<{ filePath: string; range: [number, number]; similarity: number }> = [];
+    for (const f of store.files.values()) {
+      if (!matchesPathFilters(parsed, f.path)) continue;
+      f.chunks.forEach((range, i) => {
+        scored.push({ filePath: f.path, range, similarity: dotProduct(queryVector, f.vectors, i * store!.dims) });
+      });
+    }
+    return scored.sort((a, b) => b.similarity - a.similarity).slice(0, Math.max(1, opts.maxHits));
+  });
+
+  const texts = await reader.read(Array.from(new Set(ranked.map((r) => r.filePath))), opts.maxFileBytes);
+  const out: RepoSnippet[] = [];
+  for (const hit of ranked) {
+    const file = texts.get(hit.filePath);
+    if (!file) continue;
+    const lines = file.text.split(/\r?\n/g);
+    const [startLine, endLine] = hit.range;
+    out.push({
+      filePath: hit.filePath,
+      matchLine: startLine,
+      startLine,
+      endLine,
+      excerpt: makeExcerpt(lines, startLine, endLine),
+      score: hit.similarity,
+      kind: "semantic",
+      scoring: { termFreqs: {}, docLength: file.size, bonus: 0 }
+    });
+  }
+  return { snippets: out, deferredFiles };
+}
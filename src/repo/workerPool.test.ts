@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+
+import { fairQueueOrder, type RepoSearchPriority } from "./workerPool.js";
+
+function task(name: string, chatId?: string, userId?: string, priority?: RepoSearchPriority) {
+  return { name, control: { requester: { chatId, userId }, ...(priority ? { priority } : {}) } };
+}
+
+const names = (tasks: { name: string }[]) => tasks.map((t) => t.name);
+
+describe("fairQueueOrder", () => {
+  it("alternates between chats instead of draining one chat first", () => {
+    const queue = [task("a1", "A", "u1"), task("a2", "A", "u1"), task("a3", "A", "u1"), task("b1", "B", "u2"), task("c1", "C", "u3")];
+    expect(names(fairQueueOrder(queue, new Map()))).toEqual(["a1", "b1", "c1", "a2", "a3"]);
+  });
+
+  it("alternates between users within a chat", () => {
+    const queue = [task("x1", "A", "x"), task("x2", "A", "x"), task("y1", "A", "y")];
+    expect(names(fairQueueOrder(queue, new Map()))).toEqual(["x1", "y1", "x2"]);
+  });
+
+  it("serves the chat that got a worker least recently first", () => {
+    const served = new Map([
+      ["c\0A", 5],
+      ["c\0B", 3]
+    ]);
+    const queue = [task("a1", "A", "u1"), task("b1", "B", "u2"), task("c1", "C", "u3")];
+    expect(names(fairQueueOrder(queue, served))).toEqual(["c1", "b1", "a1"]);
+  });
+
+  it("dispatches initial questions before follow-up rounds, still round-robin within a class", () => {
+    const queue = [task("f1", "A", "u1", "followup"), task("b1", "B", "u2", "followup"), task("i1", "A", "u1", "initial"), task("i2", "A", "u1")];
+    expect(names(fairQueueOrder(queue, new Map()))).toEqual(["i1", "i2", "b1", "f1"]);
+  });
+
+  it("keys DMs without a chat by user and keeps FIFO for anonymous tasks", () => {
+    const queue = [task("n1"), task("n2"), task("d1", undefined, "u1"), task("n3")];
+    expect(names(fairQueueOrder(queue, new Map()))).toEqual(["n1", "d1", "n2", "n3"]);
+  });
+
+  it("does not modify the queue or the served map", () => {
+    const queue = [task("a1", "A"), task("b1", "B")];
+    const served = new Map([["c\0A", 1]]);
+    fairQueueOrder(queue, served);
+    expect(names(queue)).toEqual(["a1", "b1"]);
+    expect([...served]).toEqual([["c\0A", 1]]);
+  });
+});
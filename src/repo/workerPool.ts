@@ -1,38 +1,152 @@
 import { Worker } from "node:worker_threads";
 
 import { logger } from "../logger.js";
-import type { MultiRepoSearchOptions, MultiRepoSearchResult } from "./multiSearchLocal.js";
+import {
+  partialSearchWarning,
+  searchTimeoutError,
+  type MultiRepoSearchOptions,
+  type MultiRepoSearchResult
+} from "./multiSearchLocal.js";
 
 type WorkerRequest = { id: number; payload: MultiRepoSearchOptions };
-type WorkerResponse = { id: number; result?: unknown; error?: string };
+// `partial` messages carry results of the repos finished so far; the final message has no flag.
+type WorkerResponse = { id: number; result?: unknown; partial?: boolean; error?: string };
+// Sent by the worker whenever it spawns or reaps a git process (see watchGitChildren).
+type WorkerChildMessage = { childPid: number; exited?: boolean };
 
 type Pending = {
   resolve: (value: MultiRepoSearchResult) => void;
   reject: (error: Error) => void;
 };
 
+// Initial questions are dispatched before follow-up research rounds.
+export type RepoSearchPriority = "initial" | "followup";
+
+// Who asked; queued tasks are served round-robin across chats, then across users within a chat.
+export type RepoSearchRequester = { chatId?: string; userId?: string };
+
+export type RepoSearchRunControl = {
+  // Aborting rejects with the signal's reason; a running task's worker is terminated and respawned.
+  signal?: AbortSignal;
+  // Deadline once a worker picks the task up (0/undefined: none). On expiry the worker is
+  // terminated and respawned, and the task resolves with its partial results plus a warning.
+  timeoutMs?: number;
+  requester?: RepoSearchRequester;
+  priority?: RepoSearchPriority;
+  // Number of queued tasks that will be dispatched first, on enqueue and whenever it changes;
+  // undefined once a worker picks the task up.
+  onQueuePosition?: (ahead: number | undefined) => void;
+};
+
 type Task = {
   id: number;
   payload: MultiRepoSearchOptions;
   pending: Pending;
+  control: RepoSearchRunControl;
+  partial?: MultiRepoSearchResult;
+  timer?: NodeJS.Timeout;
+  onAbort?: () => void;
+  // Last position reported through onQueuePosition.
+  ahead?: number;
 };
 
 type WorkerSlot = {
   worker: Worker;
   busy: boolean;
   taskId?: number;
+  // Git processes the worker has running; they outlive a terminated worker unless killed.
+  children: Set<number>;
+  terminated?: boolean;
 };
 
 const workerExt = import.meta.url.endsWith(".ts") ? "ts" : "js";
 const repoSearchWorkerUrl = new URL(`./repoSearchWorker.${workerExt}`, import.meta.url);
 
+function emptyResult(payload: MultiRepoSearchOptions): MultiRepoSearchResult {
+  return { query: payload.query.trim(), contextText: "", sources: [], hits: [], searchedRepos: [] };
+}
+
+// Served-recently bookkeeping for round-robin; the least recently served key goes first.
+const MAX_SERVED_KEYS = 512;
+
+// What the dispatch order looks at in a task.
+type QueuedRequest = { control: Pick<RepoSearchRunControl, "requester" | "priority"> };
+
+function chatKey(task: QueuedRequest): string {
+  const r = task.control.requester;
+  return `c\0${r?.chatId ?? r?.userId ?? ""}`;
+}
+
+function userKey(task: QueuedRequest): string {
+  const r = task.control.requester;
+  return `u\0${r?.chatId ?? r?.userId ?? ""}\0${r?.userId ?? ""}`;
+}
+
+function priorityRank(task: QueuedRequest): number {
+  return task.control.priority === "followup" ? 1 : 0;
+}
+
+/**
+ * Dispatch order of the queued tasks: the best priority class first; within it the chat
+ * that got a worker least recently, then that chat's least recently served user, then FIFO.
+ * `served` maps requester keys to the serve counter when they last got a worker.
+ */
+export function fairQueueOrder<T extends QueuedRequest>(queue: readonly T[], served: ReadonlyMap<string, number>): T[] {
+  const lastServedAt = new Map(served);
+  let counter = Math.max(0, ...served.values());
+  const remaining = [...queue];
+  const order: T[] = [];
+
+  const lastServed = (key: string) => lastServedAt.get(key) ?? -1;
+  while (remaining.length > 0) {
+    const rank = Math.min(...remaining.map(priorityRank));
+    const candidates = remaining.filter((t) => priorityRank(t) === rank);
+
+    // Candidates keep queue order, so ties go to the requester that has waited longest.
+    let best = candidates[0]!;
+    for (const t of candidates) {
+      if (lastServed(chatKey(t)) < lastServed(chatKey(best))) best = t;
+    }
+    for (const t of candidates) {
+      if (chatKey(t) === chatKey(best) && lastServed(userKey(t)) < lastServed(userKey(best))) best = t;
+    }
+
+    counter += 1;
+    lastServedAt.set(chatKey(best), counter);
+    lastServedAt.set(userKey(best), counter);
+    order.push(best);
+    remaining.splice(remaining.indexOf(best), 1);
+  }
+  return order;
+}
+
+function isChildMessage(msg: unknown): msg is WorkerChildMessage {
+  return typeof (msg as WorkerChildMessage | undefined)?.childPid === "number";
+}
+
+function killChild(pid: number): void {
+  try {
+    process.kill(pid, "SIGKILL");
+  } catch {
+    // Already gone.
+  }
+}
+
+function abortError(signal: AbortSignal | undefined): Error {
+  const reason: unknown = signal?.reason;
+  return reason instanceof Error ? reason : new Error("Repo search aborted");
+}
+
 class RepoSearchWorkerPool {
   readonly size: number;
   readonly queueMax: number;
 
   private readonly workers: WorkerSlot[] = [];
   private readonly queue: Task[] = [];
-  private readonly pending = new Map<number, Pending>();
+  private readonly running = new Map<number, Task>();
+  // Round-robin state: requester key -> serve counter when it last got a worker (Map order = LRU).
+  private readonly served = new Map<string, number>();
+  private servedCounter = 0;
 
   private nextId = 1;
   private closed = false;
@@ -49,84 +163,186 @@ class RepoSearchWorkerPool {
     this.closed = true;
 
     const err = new Error("Repo search worker pool closed");
-    for (const [, p] of this.pending) p.reject(err);
-    this.pending.clear();
+    for (const task of [...this.running.values(), ...this.queue]) {
+      this.detach(task);
+      task.pending.reject(err);
+    }
+    this.running.clear();
     this.queue.length = 0;
 
     for (const w of this.workers) {
       try {
-        void w.worker.terminate();
+        this.terminate(w);
       } catch {
         // ignore
       }
     }
   }
 
-  run(payload: MultiRepoSearchOptions): Promise<MultiRepoSearchResult> {
+  run(payload: MultiRepoSearchOptions, control: RepoSearchRunControl = {}): Promise<MultiRepoSearchResult> {
     if (this.closed) return Promise.reject(new Error("Repo search worker pool is closed"));
+    if (control.signal?.aborted) return Promise.reject(abortError(control.signal));
 
     const id = this.nextId;
     this.nextId = this.nextId >= Number.MAX_SAFE_INTEGER ? 1 : this.nextId + 1;
 
     return new Promise((resolve, reject) => {
       const pending: Pending = { resolve, reject };
-      const task: Task = { id, payload, pending };
+      const task: Task = { id, payload, pending, control };
 
       const slot = this.workers.find((w) => !w.busy);
       if (slot) {
+        this.watchAbort(task);
         this.assign(slot, task);
         return;
       }
 
       if (this.queueMax === 0) {
         logger.warn({ queueMax: this.queueMax }, "Repo search workers are busy; skipping repo lookup (queue disabled)");
-        resolve({ query: payload.query.trim(), contextText: "", sources: [] });
+        resolve(emptyResult(payload));
         return;
       }
 
       if (this.queue.length >= this.queueMax) {
         logger.warn({ queueMax: this.queueMax }, "Repo search queue is full; skipping repo lookup");
-        resolve({ query: payload.query.trim(), contextText: "", sources: [] });
+        resolve(emptyResult(payload));
         return;
       }
 
+      this.watchAbort(task);
       this.queue.push(task);
+      this.reportQueuePositions();
     });
   }
 
+  private queueOrder(): Task[] {
+    return fairQueueOrder(this.queue, this.served);
+  }
+
+  private markServed(task: Task): void {
+    this.servedCounter += 1;
+    for (const key of [chatKey(task), userKey(task)]) {
+      this.served.delete(key);
+      this.served.set(key, this.servedCounter);
+    }
+    while (this.served.size > MAX_SERVED_KEYS) {
+      const oldest = this.served.keys().next().value;
+      if (oldest === undefined) break;
+      this.served.delete(oldest);
+    }
+  }
+
+  private reportQueuePositions(): void {
+    const order = this.queueOrder();
+    order.forEach((task, ahead) => {
+      if (task.ahead === ahead) return;
+      task.ahead = ahead;
+      this.notifyQueuePosition(task, ahead);
+    });
+  }
+
+  private leaveQueue(task: Task): void {
+    if (task.ahead === undefined) return;
+    task.ahead = undefined;
+    this.notifyQueuePosition(task, undefined);
+  }
+
+  private notifyQueuePosition(task: Task, ahead: number | undefined): void {
+    try {
+      task.control.onQueuePosition?.(ahead);
+    } catch (error) {
+      logger.warn({ err: error }, "Repo search queue position callback failed");
+    }
+  }
+
+  private watchAbort(task: Task): void {
+    const signal = task.control.signal;
+    if (!signal) return;
+    task.onAbort = () => this.handleAbort(task);
+    signal.addEventListener("abort", task.onAbort, { once: true });
+  }
+
+  // Clears the deadline timer and abort listener; the task must be settled right after.
+  private detach(task: Task): void {
+    if (task.timer) clearTimeout(task.timer);
+    task.timer = undefined;
+    if (task.onAbort) task.control.signal?.removeEventListener("abort", task.onAbort);
+    task.onAbort = undefined;
+    this.running.delete(task.id);
+    this.leaveQueue(task);
+  }
+
+  private slotIndexOf(task: Task): number {
+    return this.workers.findIndex((w) => w.taskId === task.id);
+  }
+
   private spawnWorker(index: number): void {
     const worker = new Worker(repoSearchWorkerUrl);
     // Avoid preventing short-lived scripts from exiting after completing a scan.
     worker.unref();
-    const slot: WorkerSlot = { worker, busy: false };
+    const slot: WorkerSlot = { worker, busy: false, children: new Set() };
     this.workers[index] = slot;
 
-    worker.on("message", (msg: WorkerResponse) => this.handleMessage(index, msg));
-    worker.on("error", (error) => this.handleFailure(index, error));
+    // Events of a worker that was already replaced (terminated on deadline/abort/failure) are ignored,
+    // except for git processes it spawned just before: those are killed as they are reported.
+    const current = () => this.workers[index]?.worker === worker;
+    worker.on("message", (msg: WorkerResponse | WorkerChildMessage) => {
+      if (isChildMessage(msg)) {
+        if (msg.exited) slot.children.delete(msg.childPid);
+        else if (slot.terminated) killChild(msg.childPid);
+        else slot.children.add(msg.childPid);
+        return;
+      }
+      if (current()) this.handleMessage(index, msg);
+    });
+    worker.on("error", (error) => {
+      if (current()) this.handleFailure(index, error);
+    });
     worker.on("exit", (code) => {
-      if (this.closed) return;
+      if (this.closed || !current()) return;
       if (code !== 0) this.handleFailure(index, new Error(`Worker exited with code ${code}`));
     });
   }
 
+  // Terminates the worker in `index` (e.g. stuck on a pathological scan) and starts a fresh one.
+  private recycle(index: number): void {
+    const slot = this.workers[index];
+    if (!slot) return;
+    slot.busy = false;
+    slot.taskId = undefined;
+    this.terminate(slot);
+    if (!this.closed) this.spawnWorker(index);
+    this.dispatch();
+  }
+
+  private terminate(slot: WorkerSlot): void {
+    slot.terminated = true;
+    void slot.worker.terminate().catch(() => undefined);
+    for (const pid of slot.children) killChild(pid);
+    slot.children.clear();
+  }
+
   private handleMessage(index: number, msg: WorkerResponse): void {
     const slot = this.workers[index];
     const id = typeof msg?.id === "number" ? msg.id : undefined;
+    const task = typeof id === "number" ? this.running.get(id) : undefined;
+
+    if (msg?.partial) {
+      if (task) task.partial = msg.result as MultiRepoSearchResult;
+      return;
+    }
 
     if (slot) {
       slot.busy = false;
       slot.taskId = undefined;
     }
 
-    if (typeof id === "number") {
-      const p = this.pending.get(id);
-      if (p) {
-        this.pending.delete(id);
-        if (typeof msg.error === "string" && msg.error) {
-          p.reject(new Error(msg.error));
-        } else {
-          p.resolve(msg.result as MultiRepoSearchResult);
-        }
+    if (task) {
+      this.detach(task);
+      if (typeof msg.error === "string" && msg.error) {
+        task.pending.reject(new Error(msg.error));
+      } else {
+        task.pending.resolve(msg.result as MultiRepoSearchResult);
       }
     }
 
@@ -139,32 +355,60 @@ class RepoSearchWorkerPool {
 
     logger.warn({ err: error }, "Repo search worker failed; respawning");
 
-    const taskId = slot.taskId;
-    slot.busy = false;
-    slot.taskId = undefined;
-
-    try {
-      void slot.worker.terminate();
-    } catch {
-      // ignore
+    const task = typeof slot.taskId === "number" ? this.running.get(slot.taskId) : undefined;
+    if (task) {
+      this.detach(task);
+      task.pending.reject(new Error("Repo search worker failed"));
     }
 
-    if (typeof taskId === "number") {
-      const p = this.pending.get(taskId);
-      if (p) {
-        this.pending.delete(taskId);
-        p.reject(new Error("Repo search worker failed"));
-      }
+    this.recycle(index);
+  }
+
+  private handleTimeout(task: Task): void {
+    const index = this.slotIndexOf(task);
+    this.detach(task);
+
+    const timeoutMs = task.control.timeoutMs ?? 0;
+    const partial = task.partial ?? emptyResult(task.payload);
+    const warning = partialSearchWarning(searchTimeoutError(timeoutMs), partial.searchedRepos.length, task.payload.repos.length);
+    logger.warn(
+      { timeoutMs, query: task.payload.query, searched: partial.searchedRepos.length },
+      "Repo search hit its deadline; terminating worker"
+    );
+    task.pending.resolve({ ...partial, warnings: [...(partial.warnings ?? []), warning] });
+
+    if (index >= 0) this.recycle(index);
+  }
+
+  private handleAbort(task: Task): void {
+    const queued = this.queue.indexOf(task);
+    if (queued >= 0) {
+      this.queue.splice(queued, 1);
+      this.detach(task);
+      task.pending.reject(abortError(task.control.signal));
+      this.reportQueuePositions();
+      return;
     }
 
-    if (!this.closed) this.spawnWorker(index);
-    this.dispatch();
+    const index = this.slotIndexOf(task);
+    if (index < 0) return;
+    this.detach(task);
+    task.pending.reject(abortError(task.control.signal));
+    this.recycle(index);
   }
 
   private assign(slot: WorkerSlot, task: Task): void {
     slot.busy = true;
     slot.taskId = task.id;
-    this.pending.set(task.id, task.pending);
+    this.running.set(task.id, task);
+    this.markServed(task);
+    this.leaveQueue(task);
+
+    const timeoutMs = task.control.timeoutMs ?? 0;
+    if (timeoutMs > 0) {
+      task.timer = setTimeout(() => this.handleTimeout(task), timeoutMs);
+      task.timer.unref();
+    }
 
     const msg: WorkerRequest = { id: task.id, payload: task.payload };
     slot.worker.postMessage(msg);
@@ -174,13 +418,17 @@ class RepoSearchWorkerPool {
     if (this.closed) return;
     if (this.queue.length === 0) return;
 
+    let dispatched = false;
     for (const slot of this.workers) {
       if (this.queue.length === 0) break;
       if (slot.busy) continue;
-      const task = this.queue.shift();
+      const task = this.queueOrder()[0];
       if (!task) break;
+      this.queue.splice(this.queue.indexOf(task), 1);
       this.assign(slot, task);
+      dispatched = true;
     }
+    if (dispatched) this.reportQueuePositions();
   }
 }
 
@@ -188,7 +436,8 @@ let pool: RepoSearchWorkerPool | undefined;
 
 export async function runRepoSearchInPool(
   workers: number,
-  opts: MultiRepoSearchOptions & { queueMax?: number }
+  opts: MultiRepoSearchOptions & { queueMax?: number },
+  control: RepoSearchRunControl = {}
 ): Promise<MultiRepoSearchResult> {
   const size = Math.max(1, Math.floor(workers));
   const queueMax = Math.max(0, Math.floor(opts.queueMax ?? 0));
@@ -198,5 +447,5 @@ export async function runRepoSearchInPool(
     pool = new RepoSearchWorkerPool(size, queueMax);
   }
 
-  return pool.run(opts);
+  return pool.run(opts, control);
 }
@@ -1,21 +1,65 @@
-import type { AppConfig } from "../config.js";
+import path from "node:path";
+
+import type { AppConfig, RepoTarget } from "../config.js";
 import { analyzeCodeQuestion, type PromptImage } from "../analysis/codeQuestion.js";
+import { extractConfigNames } from "../analysis/configNames.js";
+import { extractErrorCodeRefs } from "../analysis/errorCodes.js";
+import { describeLogLine, extractLogLines } from "../analysis/logLines.js";
+import { extractMetricRefs } from "../analysis/metricNames.js";
+import { describeStackDump, parseStackDump, topStackFrames } from "../analysis/stackTrace.js";
 import { selectReposForSearch } from "../analysis/repoSelect.js";
 import { analyzeResearchFollowups } from "../analysis/researchFollowup.js";
-import { searchRepos } from "../repo/multiSearch.js";
+import { lookupConfigItems } from "../repo/configCatalog.js";
+import { repoEmbeddingOptions } from "../repo/embeddings.js";
+import { lookupErrorCodes } from "../repo/errorCatalog.js";
+import { lookupMetrics } from "../repo/metricCatalog.js";
+import { searchRepoHistory, type HistoryBlameRange } from "../repo/history.js";
+import { locateLogStatements } from "../repo/logSource.js";
+import { locateStackFrames } from "../repo/stackFrames.js";
+import {
+  searchRepos,
+  type MultiRepoSearchResult,
+  type RepoHit,
+  type RepoSearchPriority,
+  type RepoSearchRequester,
+  type SearchedRepo
+} from "../repo/multiSearch.js";
+import { findRepoTests } from "../repo/testFinder.js";
+import { diffRepoVariants } from "../repo/variantDiff.js";
 import { queryTidbAi, shouldQueryTidbAi } from "../tidbAi.js";
 
 export type CollectedAnswerContext = {
   repoContext?: string;
+  historyContext?: string;
+  variantDiffContext?: string;
+  testsContext?: string;
   externalContext?: string;
   sources: string[];
+  searchedRepos: SearchedRepo[];
   followUpQuestions: string[];
   warnings: string[];
 };
 
 type RepoBlock = { query: string; contextText: string; sources: string[] };
+type HistoryBlock = { query: string; contextText: string; sources: string[] };
 type TidbBlock = { query: string; contextText: string; sources: string[] };
 
+// Blame the regions the repo search surfaced (for ref-backed variants, at the ref's commit).
+function blameRangesFromHits(hits: RepoHit[], contextLines: number, max: number): HistoryBlameRange[] {
+  const out: HistoryBlameRange[] = [];
+  for (const hit of hits) {
+    const filePath = path.join(hit.repoPath, hit.filePath);
+    out.push({
+      filePath,
+      ...(hit.ref ? { ref: hit.ref } : {}),
+      startLine: Math.max(1, hit.line - contextLines),
+      endLine: hit.line + contextLines
+    });
+    if (out.length >= max) break;
+  }
+  return out;
+}
+
 function normalizeQuery(raw: string | undefined): string | undefined {
   const v = raw?.trim();
   return v ? v : undefined;
@@ -35,19 +79,42 @@ function mergeSources(lists: Array<string[] | undefined>, max: number): string[]
   return out;
 }
 
-function joinBlocks(blocks: Array<{ query: string; contextText: string }>, maxChars: number): string | undefined {
-  const parts: string[] = [];
+const BLOCK_SEPARATOR = "\n\n---\n\n";
+// Lookup blocks shorter than this aren't worth a place in the repo context.
+const MIN_LOOKUP_CHARS = 200;
+
+/**
+ * Joins blocks up to `maxChars`, cutting from the end. Blocks cut away entirely lose their
+ * sources; with `sourcesInText` (repo blocks cite `File: <source>`), so do sources of a partly
+ * cut block that no longer appear in the kept text.
+ */
+function joinBlocks(
+  blocks: Array<{ query: string; contextText: string; sources: string[] }>,
+  maxChars: number,
+  opts: { sourcesInText?: boolean } = {}
+): { text?: string; sources: string[] } {
+  const parts: Array<{ text: string; sources: string[] }> = [];
   for (const b of blocks) {
     const header = b.query ? `Query: ${b.query}\n` : "";
     const body = (b.contextText ?? "").trim();
     if (!body) continue;
-    parts.push(`${header}${body}`.trim());
+    parts.push({ text: `${header}${body}`.trim(), sources: b.sources });
   }
 
-  const merged = parts.join("\n\n---\n\n").trim();
-  if (!merged) return undefined;
-  if (merged.length <= maxChars) return merged;
-  return `${merged.slice(0, Math.max(0, maxChars - 20))}\n\n…(truncated)`;
+  const merged = parts.map((p) => p.text).join(BLOCK_SEPARATOR).trim();
+  if (!merged) return { text: undefined, sources: [] };
+  if (merged.length <= maxChars) return { text: merged, sources: parts.flatMap((p) => p.sources) };
+
+  const text = `${merged.slice(0, Math.max(0, maxChars - 20))}\n\n…(truncated)`;
+  const sources: string[] = [];
+  let offset = 0;
+  for (const part of parts) {
+    if (offset >= maxChars - 20) break;
+    const whole = offset + part.text.length <= maxChars - 20;
+    sources.push(...(whole || !opts.sourcesInText ? part.sources : part.sources.filter((s) => text.includes(s))));
+    offset += part.text.length + BLOCK_SEPARATOR.length;
+  }
+  return { text, sources };
 }
 
 export async function collectAnswerContext(opts: {
@@ -55,17 +122,61 @@ export async function collectAnswerContext(opts: {
   question: string;
   transcript: string;
   images: PromptImage[];
+  // Fair-share key for the repo search queue.
+  requester?: RepoSearchRequester;
+  // Queued tasks ahead of this question's nearest repo search; undefined once none is waiting.
+  onRepoSearchQueue?: (ahead: number | undefined) => void;
+  // Fires when the answer is abandoned; repo searches and lookups still queued or running stop.
+  signal?: AbortSignal;
 }): Promise<CollectedAnswerContext> {
   const maxResearchRounds = 3;
 
   const repoBlocks: RepoBlock[] = [];
+  const historyBlocks: HistoryBlock[] = [];
   const tidbBlocks: TidbBlock[] = [];
   const followUpQuestions: string[] = [];
 
   const seenRepoQueries = new Set<string>();
+  const seenReferenceQueries = new Set<string>();
+  const seenHistoryQueries = new Set<string>();
   const seenTidbQueries = new Set<string>();
 
   const tidbFailures: string[] = [];
+  const searchedRepos: SearchedRepo[] = [];
+  const repoSearchWarnings: string[] = [];
+
+  const noteRepoSearch = (res: MultiRepoSearchResult | undefined) => {
+    for (const r of res?.searchedRepos ?? []) {
+      if (searchedRepos.some((x) => x.label === r.label && x.commit === r.commit)) continue;
+      searchedRepos.push(r);
+    }
+    for (const w of res?.warnings ?? []) {
+      if (!repoSearchWarnings.includes(w)) repoSearchWarnings.push(w);
+    }
+  };
+
+  const repoEmbeddings = repoEmbeddingOptions(opts.config);
+  const repoSearchCache = { maxEntries: opts.config.repoSearchCacheEntries, dir: opts.config.repoSearchCacheDir };
+
+  // Several searches of this question may wait at once; report the one closest to a worker.
+  const queuedSearches = new Map<number, number>();
+  let nextSearchId = 1;
+  let reportedAhead: number | undefined;
+  const schedule = (priority: RepoSearchPriority) => {
+    const searchId = nextSearchId++;
+    return {
+      requester: opts.requester,
+      priority,
+      onQueuePosition: (ahead: number | undefined) => {
+        if (ahead === undefined) queuedSearches.delete(searchId);
+        else queuedSearches.set(searchId, ahead);
+        const nearest = queuedSearches.size > 0 ? Math.min(...queuedSearches.values()) : undefined;
+        if (nearest === reportedAhead) return;
+        reportedAhead = nearest;
+        opts.onRepoSearchQueue?.(nearest);
+      }
+    };
+  };
 
   const addRepo = (query: string, contextText: string, sources: string[]) => {
     const body = (contextText ?? "").trim();
@@ -73,6 +184,59 @@ export async function collectAnswerContext(opts: {
     repoBlocks.push({ query, contextText: body, sources });
   };
 
+  // Lookups (error catalog, config items, metrics, log statements, stack frames) lead the repo
+  // context but share half of its budget, so the search results after them keep the other half.
+  const lookupMaxChars = Math.floor(opts.config.repoMaxContextChars / 2);
+  let lookupChars = 0;
+  const addLookup = (contextText: string, sources: string[]) => {
+    const body = (contextText ?? "").trim();
+    const room = lookupMaxChars - lookupChars;
+    if (!body || room < MIN_LOOKUP_CHARS) return;
+    const clipped = body.length <= room ? body : `${body.slice(0, room - 20)}\n\n…(truncated)`;
+    lookupChars += clipped.length + BLOCK_SEPARATOR.length;
+    const kept = clipped === body ? sources : sources.filter((src) => clipped.includes(src));
+    repoBlocks.push({ query: "", contextText: clipped, sources: kept });
+  };
+
+  const addHistory = (query: string, contextText: string, sources: string[]) => {
+    const body = (contextText ?? "").trim();
+    if (!body) return;
+    historyBlocks.push({ query, contextText: body, sources });
+  };
+
+  const historyMaxChars = Math.max(4000, Math.floor(opts.config.repoMaxContextChars / 4));
+  const runHistorySearch = (query: string, blameRanges: HistoryBlameRange[] = []) =>
+    searchRepoHistory({
+      repos: selectReposForSearch({ config: opts.config, question: `${opts.question}\n${query}`, transcript: opts.transcript }),
+      query,
+      blameRanges,
+      maxCommits: opts.config.repoHistoryMaxCommits,
+      maxContextChars: historyMaxChars,
+      timeoutMs: opts.config.repoHistoryTimeoutMs,
+      signal: opts.signal
+    });
+
+  // "Who calls X": call sites / usages grouped by package, kept with the other repo context.
+  const runReferenceSearch = (query: string, priority: RepoSearchPriority) =>
+    searchRepos({
+      repos: selectReposForSearch({ config: opts.config, question: `${opts.question}\n${query}`, transcript: opts.transcript }),
+      query,
+      mode: "references",
+      maxReferences: opts.config.repoMaxReferences,
+      maxFiles: opts.config.repoMaxFiles,
+      maxFileBytes: opts.config.repoMaxFileBytes,
+      maxSnippets: opts.config.repoMaxSnippets,
+      snippetContextLines: opts.config.repoSnippetContextLines,
+      maxContextChars: opts.config.repoMaxContextChars,
+      indexDir: opts.config.repoIndexDir,
+      workers: opts.config.repoSearchWorkers,
+      queueMax: opts.config.repoSearchQueueMax,
+      timeoutMs: opts.config.repoSearchTimeoutMs,
+      signal: opts.signal,
+      cache: repoSearchCache,
+      ...schedule(priority)
+    });
+
   const addTidb = (query: string, contextText: string, sources: string[]) => {
     const body = (contextText ?? "").trim();
     if (!body) return;
@@ -87,30 +251,61 @@ export async function collectAnswerContext(opts: {
   });
 
   const canRepo = opts.config.repos.length > 0;
+  const designDocBoost = analysis.asksDesignRationale ? opts.config.repoDesignDocBoost : 0;
   let canTidb = shouldQueryTidbAi({ config: opts.config, question: opts.question, transcript: opts.transcript });
 
-  const initialRepoQuery = analysis.needsRepoLookup && canRepo ? normalizeQuery(analysis.searchQuery) : undefined;
-  const initialTidbQuery = canTidb ? normalizeQuery(opts.question) : undefined;
-
-  if (initialRepoQuery) seenRepoQueries.add(initialRepoQuery);
-  if (initialTidbQuery) seenTidbQueries.add(initialTidbQuery);
-
   const reposForInitialQuery = canRepo
     ? selectReposForSearch({ config: opts.config, question: opts.question, transcript: opts.transcript })
     : [];
 
-  const initialRepoPromise = initialRepoQuery
-    ? searchRepos({
-      repos: reposForInitialQuery,
-      query: initialRepoQuery,
+  // Free-text search of `repos`, the same for the initial query and the research rounds.
+  const runRepoSearch = (query: string, repos: RepoTarget[], priority: RepoSearchPriority) =>
+    searchRepos({
+      repos,
+      query,
       maxFiles: opts.config.repoMaxFiles,
       maxFileBytes: opts.config.repoMaxFileBytes,
       maxSnippets: opts.config.repoMaxSnippets,
+      maxSnippetsPerFile: opts.config.repoMaxSnippetsPerFile,
+      embeddings: repoEmbeddings,
       snippetContextLines: opts.config.repoSnippetContextLines,
+      excerptMaxLines: opts.config.repoExcerptMaxLines,
+      designDocBoost,
       maxContextChars: opts.config.repoMaxContextChars,
+      indexDir: opts.config.repoIndexDir,
       workers: opts.config.repoSearchWorkers,
-      queueMax: opts.config.repoSearchQueueMax
-    })
+      queueMax: opts.config.repoSearchQueueMax,
+      timeoutMs: opts.config.repoSearchTimeoutMs,
+      signal: opts.signal,
+      cache: repoSearchCache,
+      ...schedule(priority)
+    });
+
+  // `ERROR 8027` / `PD:client:ErrClientGetTSO`: catalog entries, looked up alongside the other searches.
+  const errorRefs = canRepo ? extractErrorCodeRefs(opts.question) : { codes: [], names: [] };
+  const errorCatalogPromise =
+    errorRefs.codes.length + errorRefs.names.length > 0
+      ? lookupErrorCodes({
+          repos: reposForInitialQuery,
+          codes: errorRefs.codes,
+          names: errorRefs.names,
+          maxFiles: opts.config.repoMaxFiles,
+          maxFileBytes: opts.config.repoMaxFileBytes,
+          maxContextChars: Math.max(4000, Math.floor(opts.config.repoMaxContextChars / 4)),
+          signal: opts.signal
+        })
+      : Promise.resolve(undefined);
+
+  const initialRepoQuery = analysis.needsRepoLookup && canRepo ? normalizeQuery(analysis.searchQuery) : undefined;
+  const initialTidbQuery = canTidb ? normalizeQuery(opts.question) : undefined;
+  const initialReferenceQuery = canRepo ? normalizeQuery(analysis.referenceQuery) : undefined;
+
+  if (initialRepoQuery) seenRepoQueries.add(initialRepoQuery);
+  if (initialReferenceQuery) seenReferenceQueries.add(initialReferenceQuery);
+  if (initialTidbQuery) seenTidbQueries.add(initialTidbQuery);
+
+  const initialRepoPromise = initialRepoQuery
+    ? runRepoSearch(initialRepoQuery, reposForInitialQuery, "initial")
     : Promise.resolve(undefined);
 
   const initialTidbPromise = initialTidbQuery
@@ -125,9 +320,121 @@ export async function collectAnswerContext(opts: {
       })
     : Promise.resolve(undefined);
 
-  const [initialRepo, initialTidb] = await Promise.all([initialRepoPromise, initialTidbPromise]);
+  const initialReferencePromise = initialReferenceQuery
+    ? runReferenceSearch(initialReferenceQuery, "initial")
+    : Promise.resolve(undefined);
+
+  // Where the matched errors are raised: their Go names, searched once the catalog resolves.
+  const errorSitesPromise = errorCatalogPromise.then(async (catalog) => {
+    const names = (catalog?.goNames ?? []).filter((n) => !initialRepoQuery?.includes(n)).slice(0, 3);
+    const query = normalizeQuery(names.join(" "));
+    if (!query || seenRepoQueries.has(query)) return undefined;
+    seenRepoQueries.add(query);
+    return { query, res: await runRepoSearch(query, reposForInitialQuery, "initial") };
+  });
+
+  // Pasted `[WARN] [owner.go:312] ["..."]` lines: the statements that emitted them, in the selected variants.
+  const logLines = canRepo ? extractLogLines(opts.question) : [];
+  const logStatementsPromise =
+    logLines.length > 0
+      ? locateLogStatements({
+          repos: reposForInitialQuery,
+          logs: logLines.map((l) => ({ label: describeLogLine(l), file: l.file, line: l.line, message: l.message })),
+          maxFiles: opts.config.repoMaxFiles,
+          maxFileBytes: opts.config.repoMaxFileBytes,
+          indexDir: opts.config.repoIndexDir,
+          contextLines: opts.config.repoSnippetContextLines,
+          excerptMaxLines: opts.config.repoExcerptMaxLines,
+          maxContextChars: Math.max(4000, Math.floor(opts.config.repoMaxContextChars / 2)),
+          timeoutMs: opts.config.repoSearchTimeoutMs,
+          signal: opts.signal
+        })
+      : Promise.resolve(undefined);
+
+  // A pasted Go panic / goroutine dump or Rust backtrace: the code at its top frames.
+  const stackDump = canRepo ? parseStackDump(opts.question) : undefined;
+  const stackFramesPromise = stackDump
+    ? locateStackFrames({
+        repos: reposForInitialQuery,
+        frames: topStackFrames(stackDump, { panickingFrames: 5, otherFrames: 2, max: 8 }).flatMap((t) =>
+          t.frame.file && t.frame.line
+            ? [{ label: t.label, name: t.frame.name, file: t.frame.file, line: t.frame.line, panicking: t.panicking }]
+            : []
+        ),
+        maxFiles: opts.config.repoMaxFiles,
+        maxFileBytes: opts.config.repoMaxFileBytes,
+        contextLines: opts.config.repoSnippetContextLines,
+        excerptMaxLines: opts.config.repoExcerptMaxLines,
+        maxContextChars: Math.max(4000, Math.floor(opts.config.repoMaxContextChars / 2)),
+        timeoutMs: opts.config.repoSearchTimeoutMs,
+        signal: opts.signal
+      })
+    : Promise.resolve(undefined);
 
+  // `tidb_gc_life_time` / `per-table-memory-quota`: definition and default in every variant of the
+  // selected repos, the variants the question picked marked as asked.
+  const configNames = canRepo ? extractConfigNames(opts.question) : [];
+  const selectedRepoNames = new Set(reposForInitialQuery.map((r) => r.name));
+  const configItemsPromise =
+    configNames.length > 0
+      ? lookupConfigItems({
+          repos: opts.config.repos.filter((r) => selectedRepoNames.has(r.name)),
+          askedRepoIds: reposForInitialQuery.map((r) => r.id),
+          names: configNames,
+          maxFiles: opts.config.repoMaxFiles,
+          maxFileBytes: opts.config.repoMaxFileBytes,
+          maxContextChars: Math.max(4000, Math.floor(opts.config.repoMaxContextChars / 4)),
+          signal: opts.signal
+        })
+      : Promise.resolve(undefined);
+
+  // `ticdc_sink_txn_exec_duration` or a Grafana panel title: the registration and where it's observed.
+  const metricRefs = canRepo ? extractMetricRefs(opts.question) : { names: [], mentionsPanels: false };
+  const metricsPromise =
+    metricRefs.names.length > 0 || metricRefs.mentionsPanels
+      ? lookupMetrics({
+          repos: reposForInitialQuery,
+          names: metricRefs.names,
+          panelText: metricRefs.mentionsPanels ? opts.question : undefined,
+          maxFiles: opts.config.repoMaxFiles,
+          maxFileBytes: opts.config.repoMaxFileBytes,
+          indexDir: opts.config.repoIndexDir,
+          maxContextChars: Math.max(4000, Math.floor(opts.config.repoMaxContextChars / 4)),
+          timeoutMs: opts.config.repoSearchTimeoutMs,
+          signal: opts.signal
+        })
+      : Promise.resolve(undefined);
+
+  const [initialRepo, initialTidb, initialReferences, errorCatalog, errorSites, logStatements, stackFrames, configItems, metrics] =
+    await Promise.all([
+      initialRepoPromise,
+      initialTidbPromise,
+      initialReferencePromise,
+      errorCatalogPromise,
+      errorSitesPromise,
+      logStatementsPromise,
+      stackFramesPromise,
+      configItemsPromise,
+      metricsPromise
+    ]);
+
+  noteRepoSearch(initialRepo);
+  noteRepoSearch(initialReferences);
+  noteRepoSearch(errorSites?.res);
+  // Ahead of the search results, within the lookup budget.
+  if (errorCatalog) addLookup(errorCatalog.contextText, errorCatalog.sources);
+  if (configItems) addLookup(configItems.contextText, configItems.sources);
+  if (metrics) addLookup(metrics.contextText, metrics.sources);
+  if (logStatements) addLookup(logStatements.contextText, logStatements.sources);
+  if (stackDump && stackFrames) {
+    const code = stackFrames.contextText.trim() ? `\n\nCode at the top frames:\n\n${stackFrames.contextText}` : "";
+    addLookup(`Stack trace (${stackDump.language === "go" ? "Go" : "Rust"}):\n${describeStackDump(stackDump)}${code}`, stackFrames.sources);
+  }
   if (initialRepo && initialRepo.contextText.trim()) addRepo(initialRepoQuery ?? opts.question, initialRepo.contextText, initialRepo.sources);
+  if (errorSites && errorSites.res.contextText.trim()) addRepo(errorSites.query, errorSites.res.contextText, errorSites.res.sources);
+  if (initialReferences && initialReferenceQuery) {
+    addRepo(`references: ${initialReferenceQuery}`, initialReferences.contextText, initialReferences.sources);
+  }
   if (initialTidb && initialTidb.ok && initialTidb.result.contextText.trim()) {
     addTidb(initialTidbQuery ?? opts.question, initialTidb.result.contextText, initialTidb.result.sources);
   } else if (initialTidb && !initialTidb.ok) {
@@ -135,11 +442,49 @@ export async function collectAnswerContext(opts: {
     if (initialTidb.kind !== "empty") canTidb = false;
   }
 
+  // Same file/symbol across the selected variants of one repo (e.g. master vs release-8.5).
+  let variantDiff: { contextText: string; sources: string[] } | undefined;
+  if (analysis.needsVariantDiff && initialRepo && initialRepo.hits.length > 0) {
+    variantDiff = await diffRepoVariants({
+      repos: reposForInitialQuery,
+      hits: initialRepo.hits,
+      maxTargets: 3,
+      maxFileBytes: opts.config.repoMaxFileBytes,
+      maxContextChars: Math.max(4000, Math.floor(opts.config.repoMaxContextChars / 2)),
+      signal: opts.signal
+    });
+  }
+
+  // Unit/integration tests of the matched code, as evidence of the intended behavior.
+  let tests: { contextText: string; sources: string[] } | undefined;
+  if (analysis.needsTests && initialRepo && initialRepo.hits.length > 0) {
+    tests = await findRepoTests({
+      repos: reposForInitialQuery,
+      hits: initialRepo.hits,
+      query: initialRepoQuery ?? opts.question,
+      maxTargets: 3,
+      maxFiles: opts.config.repoMaxFiles,
+      maxFileBytes: opts.config.repoMaxFileBytes,
+      maxLinesPerTest: opts.config.repoExcerptMaxLines > 0 ? opts.config.repoExcerptMaxLines : 80,
+      maxContextChars: Math.max(4000, Math.floor(opts.config.repoMaxContextChars / 2)),
+      signal: opts.signal
+    });
+  }
+
+  const initialHistoryQuery =
+    analysis.needsHistoryLookup && canRepo ? normalizeQuery(analysis.searchQuery) : undefined;
+  if (initialHistoryQuery) {
+    seenHistoryQueries.add(initialHistoryQuery);
+    const blameRanges = blameRangesFromHits(initialRepo?.hits ?? [], opts.config.repoSnippetContextLines, 3);
+    const history = await runHistorySearch(initialHistoryQuery, blameRanges);
+    addHistory(initialHistoryQuery, history.contextText, history.sources);
+  }
+
   for (let round = 2; round <= maxResearchRounds; round += 1) {
     if (opts.config.mode !== "llm" || !opts.config.openaiApiKey) break;
 
-    const repoContextSoFar = joinBlocks(repoBlocks, opts.config.repoMaxContextChars);
-    const externalContextSoFar = joinBlocks(tidbBlocks, opts.config.tidbAiMaxContextChars);
+    const repoContextSoFar = joinBlocks([...repoBlocks, ...historyBlocks], opts.config.repoMaxContextChars).text;
+    const externalContextSoFar = joinBlocks(tidbBlocks, opts.config.tidbAiMaxContextChars).text;
 
     const plan = await analyzeResearchFollowups({
       config: opts.config,
@@ -169,6 +514,20 @@ export async function collectAnswerContext(opts: {
           .filter((q) => !seenRepoQueries.has(q))
           .slice(0, 2)
       : [];
+    const nextReferenceQueries = canRepo
+      ? plan.referenceQueries
+          .map((q) => q.trim())
+          .filter(Boolean)
+          .filter((q) => !seenReferenceQueries.has(q))
+          .slice(0, 2)
+      : [];
+    const nextHistoryQueries = canRepo
+      ? plan.historyQueries
+          .map((q) => q.trim())
+          .filter(Boolean)
+          .filter((q) => !seenHistoryQueries.has(q))
+          .slice(0, 2)
+      : [];
     const nextTidbQueries = canTidb
       ? plan.tidbAiQueries
           .map((q) => q.trim())
@@ -177,29 +536,32 @@ export async function collectAnswerContext(opts: {
           .slice(0, 2)
       : [];
 
-    if (nextRepoQueries.length === 0 && nextTidbQueries.length === 0) break;
+    if (
+      nextRepoQueries.length === 0 &&
+      nextReferenceQueries.length === 0 &&
+      nextHistoryQueries.length === 0 &&
+      nextTidbQueries.length === 0
+    ) {
+      break;
+    }
 
     for (const q of nextRepoQueries) seenRepoQueries.add(q);
+    for (const q of nextReferenceQueries) seenReferenceQueries.add(q);
+    for (const q of nextHistoryQueries) seenHistoryQueries.add(q);
     for (const q of nextTidbQueries) seenTidbQueries.add(q);
 
     const repoPromises = nextRepoQueries.map(async (q) => {
       const reposForQuery = canRepo
         ? selectReposForSearch({ config: opts.config, question: `${opts.question}\n${q}`, transcript: opts.transcript })
         : [];
-      const res = await searchRepos({
-        repos: reposForQuery,
-        query: q,
-        maxFiles: opts.config.repoMaxFiles,
-        maxFileBytes: opts.config.repoMaxFileBytes,
-        maxSnippets: opts.config.repoMaxSnippets,
-        snippetContextLines: opts.config.repoSnippetContextLines,
-        maxContextChars: opts.config.repoMaxContextChars,
-        workers: opts.config.repoSearchWorkers,
-        queueMax: opts.config.repoSearchQueueMax
-      });
+      const res = await runRepoSearch(q, reposForQuery, "followup");
       return { q, res };
     });
 
+    const referencePromises = nextReferenceQueries.map(async (q) => ({ q, res: await runReferenceSearch(q, "followup") }));
+
+    const historyPromises = nextHistoryQueries.map(async (q) => ({ q, res: await runHistorySearch(q) }));
+
     const tidbPromises = nextTidbQueries.map(async (q) => {
       const res = await queryTidbAi({
         baseUrl: opts.config.tidbAiBaseUrl,
@@ -213,10 +575,23 @@ export async function collectAnswerContext(opts: {
       return { q, res };
     });
 
-    const [repoResults, tidbResults] = await Promise.all([Promise.all(repoPromises), Promise.all(tidbPromises)]);
+    const [repoResults, referenceResults, historyResults, tidbResults] = await Promise.all([
+      Promise.all(repoPromises),
+      Promise.all(referencePromises),
+      Promise.all(historyPromises),
+      Promise.all(tidbPromises)
+    ]);
     for (const item of repoResults) {
+      noteRepoSearch(item.res);
       if (item.res.contextText.trim()) addRepo(item.q, item.res.contextText, item.res.sources);
     }
+    for (const item of referenceResults) {
+      noteRepoSearch(item.res);
+      addRepo(`references: ${item.q}`, item.res.contextText, item.res.sources);
+    }
+    for (const item of historyResults) {
+      addHistory(item.q, item.res.contextText, item.res.sources);
+    }
     for (const item of tidbResults) {
       if (item.res?.ok && item.res.result.contextText.trim()) {
         addTidb(item.q, item.res.result.contextText, item.res.result.sources ?? []);
@@ -229,20 +604,45 @@ export async function collectAnswerContext(opts: {
     if (plan.done) break;
   }
 
-  const repoContext = joinBlocks(repoBlocks, opts.config.repoMaxContextChars);
+  const repo = joinBlocks(repoBlocks, opts.config.repoMaxContextChars, { sourcesInText: true });
+  const repoContext = repo.text;
+
+  const history = joinBlocks(historyBlocks, historyMaxChars);
+  const historyContext = history.text;
+
+  const variantDiffContext = variantDiff?.contextText.trim() || undefined;
 
-  const externalContext = joinBlocks(tidbBlocks, opts.config.tidbAiMaxContextChars);
+  const testsContext = tests?.contextText.trim() || undefined;
+
+  const external = joinBlocks(tidbBlocks, opts.config.tidbAiMaxContextChars);
+  const externalContext = external.text;
 
   const sources = mergeSources(
-    [repoBlocks.flatMap((b) => b.sources), tidbBlocks.flatMap((b) => b.sources)],
+    [
+      repo.sources,
+      variantDiffContext ? variantDiff?.sources : undefined,
+      testsContext ? tests?.sources : undefined,
+      history.sources,
+      external.sources
+    ],
     20
   );
 
-  const warnings: string[] = [];
+  const warnings: string[] = [...repoSearchWarnings];
   if (initialTidbQuery && !externalContext) {
     const msg = tidbFailures.find((x) => x.trim()) ?? "tidb.ai returned no usable content";
     warnings.push(`TiDB.ai is unavailable for this question (${msg}). Answering without TiDB.ai context.`);
   }
 
-  return { repoContext, externalContext, sources, followUpQuestions, warnings };
+  return {
+    repoContext,
+    historyContext,
+    variantDiffContext,
+    testsContext,
+    externalContext,
+    sources,
+    searchedRepos,
+    followUpQuestions,
+    warnings
+  };
 }